@@ -4,8 +4,8 @@ import LanguageSelector from './components/LanguageSelector';
 import RecordButton from './components/RecordButton';
 import TranslationView from './components/TranslationView';
 import LandingPage from './components/LandingPage';
-import AuthModal from './components/AuthModal';
-import HistoryPanel from './components/HistoryPanel';
+import AuthDialog from './components/AuthDialog';
+import HistoryLibrary from './components/HistoryLibrary';
 import SensitivityControl from './components/SensitivityControl';
 import VolumeControl from './components/VolumeControl';
 import TextTranslator from './components/TextTranslator';
@@ -13,18 +13,79 @@ import ImageTranslator from './components/ImageTranslator';
 import PremiumModal from './components/PremiumModal';
 import OfflinePackManager from './components/OfflinePackManager';
 import Toast from './components/Toast';
-import { SUPPORTED_LANGUAGES, I18N } from './constants';
-import { translateAudio, translateText, translateImage, translateOffline } from './services/geminiService';
-import { TranslationResult, SupportedLanguageCode, User, HistoryItem } from './types';
+import InstalledPacks from './components/InstalledPacks';
+import StudySession from './components/StudySession';
+import GlossaryManager from './components/GlossaryManager';
+import GlossaryIssues from './components/GlossaryIssues';
+import FormalitySelector from './components/FormalitySelector';
+import AlternativeTranslations from './components/AlternativeTranslations';
+import VariantSelector from './components/VariantSelector';
+import ImageRegionOverlay from './components/ImageRegionOverlay';
+import DocumentTranslator from './components/DocumentTranslator';
+import AudioFileTranslator from './components/AudioFileTranslator';
+import HandsFreeControl from './components/HandsFreeControl';
+import HandsFreeRecorder from './components/HandsFreeRecorder';
+import VoiceSettings from './components/VoiceSettings';
+import AccountPanel from './components/AccountPanel';
+import { SUPPORTED_LANGUAGES, I18N, resolveLanguage } from './constants';
+import { formatMessage, applyDocumentLanguage, reportMissingMessages } from './i18n';
+import { getActiveEngine, getEngine } from './services/engineRegistry';
+import { installPack, deletePack, listOfflinePacks } from './services/offlinePacks';
+import { toTranslationError } from './services/errors';
+import { getCachedTranslation, putCachedTranslation, cacheModelId } from './services/translationCache';
+import {
+  queryHistory, addHistoryItem, updateHistoryItem, deleteHistoryItem, clearHistory,
+  getHistoryTags, migrateLegacyHistory, matchesHistoryQuery, importHistoryItems
+} from './services/historyStore';
+import { exportHistory, downloadFile, parseHistoryImport, HistoryExportFormat } from './services/historyExport';
+import { loadStudyQueue, recordReview } from './services/studyDeck';
+import { isLapse } from './services/spacedRepetition';
+import {
+  getGlossary, saveGlossaryEntry, deleteGlossaryEntry, exportGlossary, importGlossary, relevantGlossary
+} from './services/glossary';
+import { selectAlternative } from './services/alternatives';
+import { exportAnnotatedImage } from './services/imageAnnotation';
+import { parseDocument } from './services/documentParser';
+import { createDocumentJob, translateDocument, documentProgress } from './services/documentTranslation';
+import { buildTranslatedDocument, DocumentOutputOptions } from './services/documentBuilder';
+import { blobToBase64 } from './services/audio';
+import { clearUserData } from './services/db';
+import { prepareAudioFile, transcribeAudio, exportTranscript } from './services/audioTranscript';
+import { MICROPHONE_CONSTRAINTS, connectSpeechFilters, prepareSpeechRecording } from './services/audioPreprocessing';
+import { getStoredSession, restoreSession, onSessionChange, signOut } from './services/authClient';
+import {
+  loadEntitlement, refreshEntitlement, clearEntitlement, hasPremium, needsRefresh, checkQuota, reserveQuota, QuotaDecision
+} from './services/entitlements';
+import { prefetchLocalSpeechModel, isLocalSpeechReady } from './services/localSpeech';
+import { speak, stopSpeaking, isSpeaking, loadSpeechSettings, saveSpeechSettings } from './services/speech';
+import {
+  createVoiceActivityDetector, VoiceActivityDetector, VAD_PRE_ROLL_SECONDS, DEFAULT_VAD_SILENCE_MS
+} from './services/voiceActivity';
+import {
+  TranslationResult, SupportedLanguageCode, User, Entitlement, UsageMode, HistoryItem, HistoryMode, HistoryQuery, OfflinePack,
+  StudyGrade, StudyQueueEntry, GlossaryEntry, Formality, TranslationRequestOptions, DocumentJob,
+  AudioTranscriptJob, TranscriptExportFormat
+} from './types';
 
-type TranslationMode = 'voice-to-voice' | 'voice-to-text' | 'text-to-text' | 'image-to-text' | 'offline-settings';
+type TranslationMode = 'voice-to-voice' | 'voice-to-text' | 'text-to-text' | 'image-to-text' | 'document' | 'audio-file' | 'offline-settings' | 'study';
 
 const App: React.FC = () => {
-  const [user, setUser] = useState<User | null>(null);
+  // The stored session signs the user straight back in; the server confirms it in the background
+  const [user, setUser] = useState<User | null>(() => getStoredSession()?.user ?? null);
+  const [entitlement, setEntitlement] = useState<Entitlement | null>(null);
   const [authModal, setAuthModal] = useState<'signin' | 'signup' | null>(null);
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>({});
+  const [historyHasMore, setHistoryHasMore] = useState(false);
+  const [historyTags, setHistoryTags] = useState<string[]>([]);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [studyQueue, setStudyQueue] = useState<StudyQueueEntry[]>([]);
+  const [studyReviewed, setStudyReviewed] = useState(0);
+  const [isStudyLoading, setIsStudyLoading] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [glossaryNotice, setGlossaryNotice] = useState<string | null>(null);
   
   const [mode, setMode] = useState<TranslationMode>('voice-to-voice');
   const [motherLangCode, setMotherLangCode] = useState<SupportedLanguageCode>('en');
@@ -32,20 +93,56 @@ const App: React.FC = () => {
   
   const [sensitivity, setSensitivity] = useState(1.0); 
   const [volume, setVolume] = useState(1.0);
+  const [speechSettings, setSpeechSettings] = useState(loadSpeechSettings);
+  // Chosen regional variant per language, remembered across sessions
+  const [variantPrefs, setVariantPrefs] = useState<Partial<Record<SupportedLanguageCode, string>>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('gv_variants') || '{}');
+    } catch {
+      return {};
+    }
+  });
+  const [formality, setFormality] = useState<Formality>(() => {
+    const saved = localStorage.getItem('gv_formality');
+    return saved === 'formal' || saved === 'casual' ? saved : 'neutral';
+  });
+  const [handsFree, setHandsFree] = useState(() => localStorage.getItem('gv_hands_free') === '1');
+  const [vadSilenceMs, setVadSilenceMs] = useState(() => Number(localStorage.getItem('gv_vad_silence')) || DEFAULT_VAD_SILENCE_MS);
+  const [isListening, setIsListening] = useState(false);
+  const [inputLevel, setInputLevel] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [translationResult, setTranslationResult] = useState<TranslationResult | null>(null);
+  const [imageSource, setImageSource] = useState<string | null>(null);
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const [documentJob, setDocumentJob] = useState<DocumentJob | null>(null);
+  const [isReadingDocument, setIsReadingDocument] = useState(false);
+  const [audioJob, setAudioJob] = useState<AudioTranscriptJob | null>(null);
+  const [audioFileUrl, setAudioFileUrl] = useState<string | null>(null);
+  const [isReadingAudio, setIsReadingAudio] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [offlinePacks, setOfflinePacks] = useState<OfflinePack[]>([]);
+  const [packBusy, setPackBusy] = useState<SupportedLanguageCode | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const gainNodeRef = useRef<GainNode | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  // Decoded samples of the uploaded recording; kept out of state since they can run to hundreds of MB
+  const audioPcmRef = useRef<Float32Array | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const lastHistoryRef = useRef<Promise<HistoryItem | null> | null>(null);
   
-  const motherLang = SUPPORTED_LANGUAGES.find(l => l.code === motherLangCode)!;
-  const targetLang = SUPPORTED_LANGUAGES.find(l => l.code === targetLangCode)!;
+  const motherLang = resolveLanguage(motherLangCode, variantPrefs[motherLangCode]);
+  const targetLang = resolveLanguage(targetLangCode, variantPrefs[targetLangCode]);
+  const languagePair = { mother: motherLang, target: targetLang };
+  const downloadedLangs = offlinePacks.filter(p => p.isDownloaded).map(p => p.code);
   const t = I18N[motherLangCode] || I18N.en;
+  const isPremium = hasPremium(entitlement);
+  const offlinePacksAllowed = !!entitlement?.offlinePacks;
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -53,14 +150,10 @@ const App: React.FC = () => {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
-    const savedHistory = localStorage.getItem('gv_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error('Failed to parse history', e);
-      }
-    }
+    migrateLegacyHistory()
+      .then(refreshHistoryTags);
+
+    if (process.env.NODE_ENV !== 'production') reportMissingMessages();
 
     const browserLang = navigator.language.split('-')[0] as SupportedLanguageCode;
     const matchedLang = SUPPORTED_LANGUAGES.find(l => l.code === browserLang);
@@ -68,6 +161,9 @@ const App: React.FC = () => {
       setMotherLangCode(matchedLang.code);
       if (matchedLang.code === 'id') setTargetLangCode('en');
       else if (matchedLang.code === 'en') setTargetLangCode('id');
+      // e.g. an es-MX browser starts on Mexican Spanish unless a variant was already chosen
+      const browserVariant = matchedLang.variants?.find(v => v.ttsLocale === navigator.language || v.id === navigator.language);
+      if (browserVariant) setVariantPrefs(prev => (prev[matchedLang.code] ? prev : { ...prev, [matchedLang.code]: browserVariant.id }));
     }
 
     return () => {
@@ -77,62 +173,230 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('gv_history', JSON.stringify(history));
-  }, [history]);
+    const unsubscribe = onSessionChange(session => {
+      setUser(session?.user ?? null);
+      if (!session) clearEntitlement();
+    });
+    restoreSession();
+    return unsubscribe;
+  }, []);
 
-  const checkUsageLimit = (): boolean => {
-    if (user?.isPremium) return true;
-    
-    const today = new Date().toISOString().split('T')[0];
-    const usageStr = localStorage.getItem('gv_usage');
-    let usage = usageStr ? JSON.parse(usageStr) : { date: today, count: 0 };
-    
-    if (usage.date !== today) {
-      usage = { date: today, count: 0 };
+  // The cached entitlement applies at once (and offline); a fresh one replaces it when it is due
+  useEffect(() => {
+    if (!user) {
+      setEntitlement(null);
+      return;
     }
-    
-    if (usage.count >= 3) {
-      setShowPremiumModal(true);
-      return false;
+    let stale = false;
+    const userId = user.id;
+    loadEntitlement(userId).then(cached => {
+      if (stale) return;
+      setEntitlement(cached);
+      if (isOnline && needsRefresh(cached)) refreshEntitlement(userId).then(fresh => !stale && setEntitlement(fresh));
+    });
+    return () => {
+      stale = true;
+    };
+  }, [user?.id, isOnline]);
+
+  // Debounced so typing in the search box doesn't re-scan the store on every keystroke
+  useEffect(() => {
+    let stale = false;
+    const timer = setTimeout(() => {
+      migrateLegacyHistory()
+        .then(() => queryHistory(historyQuery))
+        .then(page => {
+          if (stale) return;
+          setHistory(page.items);
+          setHistoryHasMore(page.hasMore);
+        })
+        .catch(e => console.error('Failed to load history', e));
+    }, 250);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [historyQuery]);
+
+  const refreshHistoryTags = () =>
+    getHistoryTags()
+      .then(setHistoryTags)
+      .catch(e => console.error('Failed to read history tags', e));
+
+  const loadMoreHistory = async () => {
+    try {
+      const page = await queryHistory(historyQuery, history.length);
+      setHistory(prev => [...prev, ...page.items]);
+      setHistoryHasMore(page.hasMore);
+    } catch (e) {
+      console.error('Failed to load history', e);
     }
-    
-    return true;
   };
 
-  const incrementUsage = () => {
-    if (user?.isPremium) return;
-    const today = new Date().toISOString().split('T')[0];
-    const usageStr = localStorage.getItem('gv_usage');
-    let usage = usageStr ? JSON.parse(usageStr) : { date: today, count: 0 };
-    usage.count += 1;
-    localStorage.setItem('gv_usage', JSON.stringify(usage));
+  useEffect(() => {
+    localStorage.setItem('gv_formality', formality);
+  }, [formality]);
+
+  useEffect(() => {
+    saveSpeechSettings(speechSettings);
+  }, [speechSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('gv_hands_free', handsFree ? '1' : '0');
+    localStorage.setItem('gv_vad_silence', String(vadSilenceMs));
+  }, [handsFree, vadSilenceMs]);
+
+  // Sensitivity stays adjustable while listening hands-free, the meter shows the effect straight away
+  useEffect(() => {
+    if (gainNodeRef.current) gainNodeRef.current.gain.value = sensitivity;
+  }, [sensitivity]);
+
+  useEffect(() => {
+    if (mode !== 'voice-to-voice' && mode !== 'voice-to-text') stopListening();
+  }, [mode]);
+
+  useEffect(() => {
+    applyDocumentLanguage(motherLangCode);
+  }, [motherLangCode]);
+
+  const handleVariantChange = (code: SupportedLanguageCode, variantId: string) => {
+    cancelTranslation();
+    setVariantPrefs(prev => {
+      const next = { ...prev, [code]: variantId };
+      localStorage.setItem('gv_variants', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const refreshGlossary = () =>
+    getGlossary(languagePair)
+      .then(setGlossary)
+      .catch(e => console.error('Failed to read glossary', e));
+
+  useEffect(() => {
+    refreshGlossary();
+  }, [motherLangCode, targetLangCode]);
+
+  const refreshPacks = () =>
+    listOfflinePacks()
+      .then(setOfflinePacks)
+      .catch(e => console.error('Failed to read offline packs', e));
+
+  useEffect(() => {
+    refreshPacks();
+  }, [isOnline]);
+
+  // The on-device recognizer is only used offline, so it has to be downloaded while there is a connection
+  useEffect(() => {
+    if (isOnline && downloadedLangs.length > 0) {
+      prefetchLocalSpeechModel().catch(e => console.warn('Failed to download the on-device speech model', e));
+    }
+  }, [isOnline, downloadedLangs.length]);
+
+  // Checked before recording starts, so offline users aren't left with a recording that can't be transcribed
+  const offlineVoiceReady = async (): Promise<boolean> => {
+    if (isOnline || (await isLocalSpeechReady())) return true;
+    setError(t.error_offline_voice_not_ready);
+    return false;
+  };
+
+  const currentEntitlement = async (userId: string) => {
+    if (!isOnline || !needsRefresh(entitlement)) return entitlement;
+    const fresh = await refreshEntitlement(userId);
+    setEntitlement(fresh);
+    return fresh;
+  };
+
+  const applyQuotaDecision = (decision: QuotaDecision): boolean => {
+    if (decision === 'exceeded') setShowPremiumModal(true);
+    else if (decision === 'unavailable') setError(t.error_usage_unavailable);
+    return decision === 'allowed';
+  };
+
+  // Recording only looks at the quota; the unit is reserved once there is audio to translate
+  const checkUsageLimit = async (mode: UsageMode): Promise<boolean> => {
+    if (!user) return false;
+    return applyQuotaDecision(await checkQuota(mode, await currentEntitlement(user.id)));
+  };
+
+  // Every engine call is preceded by this; the server counts the unit before anything is translated
+  const reserveUsage = async (mode: UsageMode): Promise<boolean> => {
+    if (!user) return false;
+    return applyQuotaDecision(await reserveQuota(mode, await currentEntitlement(user.id)));
+  };
+
+  // Aborts whatever translation is in flight and hands out a signal for the next one
+  const beginRequest = (): AbortSignal => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelTranslation = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsLoading(false);
+  };
+
+  const handleMotherLangChange = (code: SupportedLanguageCode) => {
+    cancelTranslation();
+    setMotherLangCode(code);
+  };
+
+  const handleTargetLangChange = (code: SupportedLanguageCode) => {
+    cancelTranslation();
+    setTargetLangCode(code);
   };
 
   const swapLanguages = () => {
+    cancelTranslation();
     const temp = motherLangCode;
     setMotherLangCode(targetLangCode);
     setTargetLangCode(temp);
     setTranslationResult(null);
   };
 
+  // Microphone -> sensitivity gain -> speech filters -> recorder; the hands-free meter listens right after the gain
+  const openMicrophone = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE_CONSTRAINTS });
+    streamRef.current = stream;
+
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    audioContextRef.current = audioContext;
+    
+    const source = audioContext.createMediaStreamSource(stream);
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = sensitivity;
+    gainNodeRef.current = gainNode;
+    
+    const destination = audioContext.createMediaStreamDestination();
+    source.connect(gainNode);
+    const filtered = connectSpeechFilters(audioContext, gainNode);
+    return { audioContext, gainNode, filtered, destination };
+  };
+
+  const closeMicrophone = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+    gainNodeRef.current = null;
+  };
+
   const startRecording = async () => {
-    if (!checkUsageLimit()) return;
+    if (!(await offlineVoiceReady())) return;
+    if (!(await checkUsageLimit('voice'))) return;
+    cancelTranslation();
+    stopSpeaking();
     setError(null);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-      
-      const source = audioContext.createMediaStreamSource(stream);
-      const gainNode = audioContext.createGain();
-      gainNode.gain.value = sensitivity;
-      
-      const destination = audioContext.createMediaStreamDestination();
-      
-      source.connect(gainNode);
-      gainNode.connect(destination);
+      const { filtered, destination } = await openMicrophone();
+      filtered.connect(destination);
 
       const mediaRecorder = new MediaRecorder(destination.stream);
       mediaRecorderRef.current = mediaRecorder;
@@ -143,15 +407,9 @@ const App: React.FC = () => {
       };
 
       mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        const audioBlob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
         processAudio(audioBlob);
-        
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach(track => track.stop());
-        }
-        if (audioContextRef.current) {
-          audioContextRef.current.close();
-        }
+        closeMicrophone();
       };
 
       mediaRecorder.start();
@@ -161,10 +419,80 @@ const App: React.FC = () => {
       }
     } catch (err: any) {
       console.error('Error accessing microphone:', err);
-      setError('Microphone access denied or not found.');
+      setError(t.error_microphone);
     }
   };
 
+  // Hands-free: one recorder per utterance, started when the detector hears speech and stopped after the
+  // configured silence, then translated like a held recording
+  const startListening = async () => {
+    if (!(await offlineVoiceReady())) return;
+    if (!(await checkUsageLimit('voice'))) return;
+    cancelTranslation();
+    stopSpeaking();
+    setError(null);
+    try {
+      const { audioContext, gainNode, filtered, destination } = await openMicrophone();
+      const delay = audioContext.createDelay(1);
+      delay.delayTime.value = VAD_PRE_ROLL_SECONDS;
+      filtered.connect(delay);
+      delay.connect(destination);
+      const analyser = audioContext.createAnalyser();
+      gainNode.connect(analyser);
+
+      detectorRef.current = createVoiceActivityDetector(analyser, {
+        silenceMs: vadSilenceMs,
+        // Don't record the app's own voice or talk over a translation that is still on its way
+        isPaused: () => handsFreeRef.current.isLoading || isSpeaking(),
+        onLevel: setInputLevel,
+        onSpeechStart: () => {
+          const chunks: Blob[] = [];
+          const recorder = new MediaRecorder(destination.stream);
+          mediaRecorderRef.current = recorder;
+          recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+          };
+          recorder.onstop = () => {
+            setIsRecording(false);
+            if (!detectorRef.current) closeMicrophone();
+            const { processAudio, checkUsageLimit } = handsFreeRef.current;
+            const recording = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+            checkUsageLimit('voice').then(allowed => (allowed ? processAudio(recording) : stopListening()));
+          };
+          recorder.start();
+          setIsRecording(true);
+          if (window.navigator && window.navigator.vibrate) {
+            window.navigator.vibrate(50);
+          }
+        },
+        onSpeechEnd: () => {
+          if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+        },
+      });
+      setIsListening(true);
+    } catch (err: any) {
+      console.error('Error accessing microphone:', err);
+      closeMicrophone();
+      setError(t.error_microphone);
+    }
+  };
+
+  // Speech cut short by stopping is still translated; the microphone closes once its recorder has finished
+  const stopListening = () => {
+    if (!detectorRef.current) return;
+    detectorRef.current.stop();
+    detectorRef.current = null;
+    setIsListening(false);
+    setInputLevel(0);
+    if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+    else closeMicrophone();
+  };
+
+  const handleHandsFreeToggle = (enabled: boolean) => {
+    if (!enabled) stopListening();
+    setHandsFree(enabled);
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop();
@@ -176,136 +504,324 @@ const App: React.FC = () => {
   };
 
   const processAudio = async (blob: Blob) => {
+    const signal = beginRequest();
     setIsLoading(true);
     setError(null);
     setTranslationResult(null);
     
     if (!isOnline) {
-      if (!user?.isPremium) {
-        setError("Offline translation is a Premium feature. Please connect to the internet to upgrade.");
+      if (!offlinePacksAllowed) {
+        setError(t.error_offline_premium);
         setIsLoading(false);
         return;
       }
       
-      const isDownloaded = user?.downloadedLanguages?.includes(targetLangCode);
+      const isDownloaded = downloadedLangs.includes(targetLangCode);
       if (!isDownloaded) {
         const langName = SUPPORTED_LANGUAGES.find(l => l.code === targetLangCode)?.nativeName || targetLangCode;
-        setError(`Language pack for ${langName} not found. Please connect to the internet and go to Settings to download it for offline use.`);
+        setError(formatMessage(t.error_pack_missing, { lang: langName }, motherLangCode));
         setIsLoading(false);
         return;
       }
       
       try {
-        // Note: Full offline voice translation requires local STT. 
-        // We provide a survival mode with common phrases.
-        const result = await translateOffline("Help me", targetLangCode); 
+        const audio = await prepareSpeechRecording(blob);
+        if (!(await reserveUsage('voice'))) return;
+        const base64Audio = await blobToBase64(audio);
+        const result = await getEngine('offline').translateAudio(base64Audio, audio.type, languagePair, { signal });
+        if (signal.aborted) return;
         setTranslationResult(result);
-        addToHistory(result);
+        addToHistory(result, 'voice');
         if (mode === 'voice-to-voice') {
-          speakText(result.translated_text, targetLang.ttsLocale);
+          const ttsLang = result.detected_language === motherLangCode ? targetLang : motherLang;
+          speakText(result.translated_text, ttsLang.ttsLocale, lastHistoryId());
         }
-      } catch (e) {
-        setError("Local translation engine encountered an error. Try a simpler phrase or reconnect to the internet.");
+      } catch (e: any) {
+        if (!signal.aborted) setError(parseErrorMessage(e));
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) setIsLoading(false);
       }
       return;
     }
 
     try {
-      const base64Audio = await blobToBase64(blob);
-      const result = await translateAudio(base64Audio, targetLang.name, motherLang.name, blob.type);
+      const audio = await prepareSpeechRecording(blob);
+      if (!(await reserveUsage('voice'))) return;
+      const base64Audio = await blobToBase64(audio);
+      const result = await getActiveEngine().translateAudio(base64Audio, audio.type, languagePair, { signal, glossary, formality });
+      if (signal.aborted) return;
       setTranslationResult(result);
-      addToHistory(result);
-      incrementUsage();
+      addToHistory(result, 'voice');
       
       if (mode === 'voice-to-voice') {
         const ttsLang = result.detected_language === motherLangCode ? targetLang : motherLang;
-        speakText(result.translated_text, ttsLang.ttsLocale);
+        speakText(result.translated_text, ttsLang.ttsLocale, lastHistoryId());
       }
     } catch (err: any) {
-      setError(parseErrorMessage(err));
+      if (!signal.aborted) setError(parseErrorMessage(err));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
+  // Hands-free callbacks outlive the render that started listening, so they reach the current handlers through here
+  const handsFreeRef = useRef({ isLoading, processAudio, checkUsageLimit });
+  handsFreeRef.current = { isLoading, processAudio, checkUsageLimit };
+
   const handleTextTranslate = async (inputText: string) => {
-    if (!checkUsageLimit()) return;
+    // Cache hits make no engine call, so they are deliberately free and reserve no quota
+    if (isOnline) {
+      const cached = await getCachedTextResult(inputText);
+      if (cached) {
+        cancelTranslation();
+        setError(null);
+        setTranslationResult(cached);
+        addToHistory(cached, 'text');
+        return;
+      }
+    }
+
+    const signal = beginRequest();
     setIsLoading(true);
     setError(null);
     setTranslationResult(null);
 
     if (!isOnline) {
-       if (!user?.isPremium) {
-         setError("Offline text translation is a Premium feature. Please connect to the internet to upgrade.");
+       if (!offlinePacksAllowed) {
+         setError(t.error_offline_premium);
          setIsLoading(false);
          return;
        }
        
-       const isDownloaded = user?.downloadedLanguages?.includes(targetLangCode);
+       const isDownloaded = downloadedLangs.includes(targetLangCode);
        if (!isDownloaded) {
          const langName = SUPPORTED_LANGUAGES.find(l => l.code === targetLangCode)?.nativeName || targetLangCode;
-         setError(`The ${langName} pack is not downloaded. Connect to the internet and go to Settings to download it for offline use.`);
+         setError(formatMessage(t.error_pack_missing, { lang: langName }, motherLangCode));
          setIsLoading(false);
          return;
        }
 
        try {
-         const result = await translateOffline(inputText, targetLangCode);
+         if (!(await reserveUsage('text'))) return;
+         const result = await getEngine('offline').translateText(inputText, languagePair, { signal });
+         if (signal.aborted) return;
          setTranslationResult(result);
-         addToHistory(result);
-       } catch (e) {
-         setError("Offline dictionary lookup failed. Try a simpler phrase or connect to the internet.");
+         addToHistory(result, 'text');
+       } catch (e: any) {
+         if (!signal.aborted) setError(parseErrorMessage(e));
        } finally {
-         setIsLoading(false);
+         if (!signal.aborted) setIsLoading(false);
        }
        return;
     }
 
     try {
-      const result = await translateText(inputText, targetLang.name, motherLang.name);
+      if (!(await reserveUsage('text'))) return;
+      const engine = getActiveEngine();
+      const result = await engine.translateText(inputText, languagePair, { signal, glossary, formality });
+      if (signal.aborted) return;
       setTranslationResult(result);
-      addToHistory(result);
-      incrementUsage();
+      addToHistory(result, 'text');
+      putCachedTranslation(inputText, languagePair, cacheModelId(engine, cacheOptions(inputText), result.model), result);
     } catch (err: any) {
-      setError(parseErrorMessage(err));
+      if (!signal.aborted) setError(parseErrorMessage(err));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const cacheOptions = (inputText: string): TranslationRequestOptions => ({
+    glossary: relevantGlossary(inputText, glossary),
+    formality,
+  });
+
+  const getCachedTextResult = async (inputText: string): Promise<TranslationResult | null> => {
+    try {
+      return await getCachedTranslation(
+        inputText,
+        languagePair,
+        cacheModelId(getActiveEngine(), cacheOptions(inputText))
+      );
+    } catch {
+      return null;
     }
   };
 
   const handleImageTranslate = async (base64Image: string, mimeType: string) => {
     if (!isOnline) {
-      setError("Visual intelligence requires a cloud connection. Please connect to the internet to scan images.");
+      setError(t.error_image_offline);
       return;
     }
-    if (!checkUsageLimit()) return;
+    if (!(await reserveUsage('image'))) return;
+    const signal = beginRequest();
     setIsLoading(true);
     setError(null);
     setTranslationResult(null);
+    setImageSource(`data:${mimeType};base64,${base64Image}`);
     try {
-      const result = await translateImage(base64Image, targetLang.name, motherLang.name, mimeType);
+      const result = await getActiveEngine().translateImage(base64Image, mimeType, languagePair, { signal, glossary, formality });
+      if (signal.aborted) return;
       setTranslationResult(result);
-      addToHistory(result);
-      incrementUsage();
+      addToHistory(result, 'image');
+    } catch (err: any) {
+      if (!signal.aborted) setError(parseErrorMessage(err));
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleDocumentSelect = async (file: File) => {
+    cancelTranslation();
+    setError(null);
+    setDocumentJob(null);
+    setIsReadingDocument(true);
+    try {
+      setDocumentJob(createDocumentJob(await parseDocument(file)));
     } catch (err: any) {
       setError(parseErrorMessage(err));
     } finally {
-      setIsLoading(false);
+      setIsReadingDocument(false);
+    }
+  };
+
+  // Runs every chunk that isn't done yet, so after a partial failure only the failed chunks are sent again.
+  // A document counts once against the free quota, when it is first started
+  const handleDocumentTranslate = async () => {
+    if (!documentJob) return;
+    if (!isOnline) {
+      setError(t.error_document_offline);
+      return;
+    }
+    const firstRun = documentJob.chunks.every(c => c.status === 'pending');
+    // Resuming failed chunks is part of the document already paid for
+    if (firstRun && !(await reserveUsage('document'))) return;
+    const signal = beginRequest();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const engine = getActiveEngine();
+      const job = await translateDocument(
+        documentJob,
+        (text, chunkSignal, timeoutMs) =>
+          engine.translateText(text, languagePair, { signal: chunkSignal, timeoutMs, glossary: relevantGlossary(text, glossary), formality, segmented: true }),
+        {
+          signal,
+          onProgress: progress => {
+            if (!signal.aborted) setDocumentJob(progress);
+          },
+        }
+      );
+      if (signal.aborted) return;
+      setDocumentJob(job);
+      const { failed } = documentProgress(job);
+      if (failed > 0) setError(formatMessage(t.document_failed, { count: failed }, motherLangCode));
+    } catch (err: any) {
+      if (!signal.aborted) setError(parseErrorMessage(err));
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
-  const handleDownloadPack = (code: SupportedLanguageCode) => {
-    if (!user) return;
-    const currentDownloaded = user.downloadedLanguages || [];
-    if (!currentDownloaded.includes(code)) {
-      const newUser = { ...user, downloadedLanguages: [...currentDownloaded, code] };
-      setUser(newUser);
+  const handleDocumentDownload = async (options: DocumentOutputOptions) => {
+    if (!documentJob) return;
+    const sourceLanguage = documentJob.chunks.find(c => c.detectedLanguage)?.detectedLanguage;
+    try {
+      downloadFile(await buildTranslatedDocument(documentJob, sourceLanguage === motherLangCode ? targetLang : motherLang, options));
+    } catch (e) {
+      console.error('Failed to build translated document', e);
+      setError(t.document_build_failed);
+    }
+  };
+
+  useEffect(() => () => {
+    if (audioFileUrl) URL.revokeObjectURL(audioFileUrl);
+  }, [audioFileUrl]);
+
+  const handleAudioFileSelect = async (file: File) => {
+    cancelTranslation();
+    setError(null);
+    setAudioJob(null);
+    audioPcmRef.current = null;
+    setAudioFileUrl(URL.createObjectURL(file));
+    setIsReadingAudio(true);
+    try {
+      const { job, pcm } = await prepareAudioFile(file);
+      audioPcmRef.current = pcm;
+      setAudioJob(job);
+    } catch (e) {
+      console.error('Failed to decode audio file', e);
+      setError(t.audio_file_unreadable);
+    } finally {
+      setIsReadingAudio(false);
     }
   };
 
-  const addToHistory = (result: TranslationResult) => {
+  // Same resume/retry behaviour as documents: only segments that aren't done yet are sent
+  const handleAudioFileTranslate = async () => {
+    const pcm = audioPcmRef.current;
+    if (!audioJob || !pcm) return;
+    if (!isOnline) {
+      setError(t.error_audio_file_offline);
+      return;
+    }
+    const firstRun = audioJob.segments.every(s => s.silent || s.status === 'pending');
+    if (firstRun && !(await reserveUsage('audio'))) return;
+    const signal = beginRequest();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const engine = getActiveEngine();
+      const job = await transcribeAudio(
+        audioJob,
+        pcm,
+        (base64Audio, mimeType, segmentSignal, timeoutMs) =>
+          engine.translateAudio(base64Audio, mimeType, languagePair, { signal: segmentSignal, timeoutMs, glossary, formality }),
+        {
+          signal,
+          onProgress: progress => {
+            if (!signal.aborted) setAudioJob(progress);
+          },
+        }
+      );
+      if (signal.aborted) return;
+      setAudioJob(job);
+      const failed = job.segments.filter(s => s.status === 'failed').length;
+      if (failed > 0) setError(formatMessage(t.audio_file_failed, { count: failed }, motherLangCode));
+    } catch (err: any) {
+      if (!signal.aborted) setError(parseErrorMessage(err));
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleTranscriptExport = (format: TranscriptExportFormat) => {
+    if (audioJob) downloadFile(exportTranscript(audioJob, format));
+  };
+
+  // Installing over an existing pack doubles as the update path
+  const handleDownloadPack = async (code: SupportedLanguageCode) => {
+    if (!offlinePacksAllowed || packBusy) return;
+    setPackBusy(code);
+    try {
+      await installPack(code);
+      await refreshPacks();
+    } catch (err: any) {
+      setError(parseErrorMessage(err));
+    } finally {
+      setPackBusy(null);
+    }
+  };
+
+  const handleDeletePack = async (code: SupportedLanguageCode) => {
+    try {
+      await deletePack(code);
+      await refreshPacks();
+    } catch (err: any) {
+      setError(parseErrorMessage(err));
+    }
+  };
+
+  const addToHistory = (result: TranslationResult, historyMode: HistoryMode) => {
     const currentTarget = result.detected_language === motherLangCode ? targetLang : motherLang;
     const newItem: HistoryItem = {
       ...result,
@@ -314,54 +830,212 @@ const App: React.FC = () => {
       targetLangName: currentTarget.name,
       targetLangLocale: currentTarget.ttsLocale,
       targetLangFlag: currentTarget.flag,
+      targetLangVariant: currentTarget.variant?.id,
+      mode: historyMode,
+      languagePair: { mother: motherLangCode, target: targetLangCode },
     };
-    setHistory(prev => [newItem, ...prev].slice(0, 50));
+    lastHistoryRef.current = addHistoryItem(newItem)
+      .then(() => {
+        if (matchesHistoryQuery(newItem, historyQuery)) setHistory(prev => [newItem, ...prev]);
+        return newItem;
+      })
+      .catch(e => {
+        console.error('Failed to save history', e);
+        return null;
+      });
   };
 
-  const parseErrorMessage = (err: any): string => {
-    const msg = err.message || '';
-    if (!navigator.onLine) return 'No internet connection detected. Please reconnect to use the high-performance translation engine.';
-    if (msg.includes("Safety")) return "The translation engine blocked the content for safety reasons. Try using more common words.";
-    if (msg.includes("Limit")) return "Our servers are currently overwhelmed with requests. Please wait a moment and try again.";
-    return msg || 'An unexpected error occurred in the translation engine. Please try again.';
+  // The picked alternative replaces the saved entry's translation and is what gets spoken
+  const handleSelectAlternative = (index: number) => {
+    if (!translationResult) return;
+    const next = selectAlternative(translationResult, index);
+    setTranslationResult(next);
+    if (mode === 'voice-to-voice') {
+      const ttsLang = next.detected_language === motherLangCode ? targetLang : motherLang;
+      speakText(next.translated_text, ttsLang.ttsLocale, lastHistoryId());
+    }
+    lastHistoryRef.current
+      ?.then(saved =>
+        saved && updateHistoryItem(saved.id, {
+          translated_text: next.translated_text,
+          phonetic: next.phonetic,
+          alternatives: next.alternatives,
+        })
+      )
+      .then(updated => replaceHistoryItem(updated || null))
+      .catch(e => console.error('Failed to update history', e));
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  const replaceHistoryItem = (updated: HistoryItem | null) => {
+    if (updated) setHistory(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+  };
+
+  const handleToggleStar = (item: HistoryItem) =>
+    updateHistoryItem(item.id, { starred: !item.starred })
+      .then(replaceHistoryItem)
+      .catch(e => console.error('Failed to update history', e));
+
+  const handleUpdateTags = (item: HistoryItem, tags: string[]) =>
+    updateHistoryItem(item.id, { tags })
+      .then(replaceHistoryItem)
+      .then(refreshHistoryTags)
+      .catch(e => console.error('Failed to update history', e));
+
+  const handleDeleteHistoryItem = (id: string) =>
+    deleteHistoryItem(id)
+      .then(() => setHistory(prev => prev.filter(i => i.id !== id)))
+      .then(refreshHistoryTags)
+      .catch(e => console.error('Failed to delete history', e));
+
+  // Bakes the translated regions into a copy of the photo for download
+  const handleExportImage = async () => {
+    if (!imageSource || !translationResult?.regions?.length) return;
+    const regionLang = translationResult.detected_language === motherLangCode ? targetLang : motherLang;
+    setIsExportingImage(true);
+    try {
+      downloadFile(await exportAnnotatedImage(imageSource, translationResult.regions, regionLang.rtl));
+    } catch (e) {
+      console.error('Failed to export annotated photo', e);
+    } finally {
+      setIsExportingImage(false);
+    }
+  };
+
+  // Exports everything matching the active filters, not just the pages loaded so far
+  const handleExportHistory = async (format: HistoryExportFormat) => {
+    try {
+      const { items } = await queryHistory(historyQuery, 0, Infinity);
+      downloadFile(exportHistory(items, format));
+    } catch (e) {
+      console.error('Failed to export history', e);
+    }
+  };
+
+  const handleImportHistory = async (file: File) => {
+    try {
+      const { items, skipped } = parseHistoryImport(await file.text());
+      const summary = await importHistoryItems(items);
+      const notice = formatMessage(t.import_done, { added: summary.added, updated: summary.updated }, motherLangCode);
+      setHistoryNotice(skipped > 0 ? `${notice} ${formatMessage(t.import_skipped, { count: skipped }, motherLangCode)}` : notice);
+      setHistoryQuery(prev => ({ ...prev }));
+      refreshHistoryTags();
+    } catch (e) {
+      console.error('Failed to import history', e);
+      setHistoryNotice(t.import_failed);
+    }
+  };
+
+  const openStudy = async () => {
+    cancelTranslation();
+    setMode('study');
+    setStudyReviewed(0);
+    setIsStudyLoading(true);
+    try {
+      setStudyQueue(await loadStudyQueue());
+    } catch (e) {
+      console.error('Failed to load study cards', e);
+      setStudyQueue([]);
+    } finally {
+      setIsStudyLoading(false);
+    }
+  };
+
+  // A lapsed card is relearned at the end of this session as well as rescheduled for tomorrow
+  const handleStudyGrade = async (entry: StudyQueueEntry, grade: StudyGrade) => {
+    try {
+      const card = await recordReview(entry.card, grade);
+      setStudyQueue(prev => {
+        const rest = prev.filter(e => e.card.id !== entry.card.id);
+        return isLapse(grade) ? [...rest, { card, item: entry.item }] : rest;
+      });
+      setStudyReviewed(n => n + 1);
+    } catch (e) {
+      console.error('Failed to save review', e);
+    }
   };
 
-  const speakText = (text: string, locale: string) => {
-    if (!window.speechSynthesis) return;
-    window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = locale;
-    utterance.volume = volume;
-    const voices = window.speechSynthesis.getVoices();
-    const voice = voices.find(v => v.lang.startsWith(locale) || v.lang.includes(locale.replace('-', '_')));
-    if (voice) utterance.voice = voice;
-    window.speechSynthesis.speak(utterance);
+  const handleSaveGlossaryEntry = (entry: GlossaryEntry) =>
+    saveGlossaryEntry(entry)
+      .then(refreshGlossary)
+      .catch(e => console.error('Failed to save glossary entry', e));
+
+  const handleDeleteGlossaryEntry = (id: string) =>
+    deleteGlossaryEntry(id)
+      .then(refreshGlossary)
+      .catch(e => console.error('Failed to delete glossary entry', e));
+
+  const handleExportGlossary = async () => {
+    try {
+      const content = await exportGlossary();
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadFile({ filename: `ivoice-glossary-${stamp}.json`, mimeType: 'application/json', content });
+    } catch (e) {
+      console.error('Failed to export glossary', e);
+    }
   };
 
+  const handleImportGlossary = async (file: File) => {
+    try {
+      const count = await importGlossary(await file.text());
+      setGlossaryNotice(formatMessage(t.glossary_imported, { count }, motherLangCode));
+      await refreshGlossary();
+    } catch (e) {
+      console.error('Failed to import glossary', e);
+      setGlossaryNotice(t.glossary_import_failed);
+    }
+  };
+
+  const handleClearHistory = () => {
+    if (!confirm('Clear history?')) return;
+    clearHistory()
+      .then(() => {
+        setHistory([]);
+        setHistoryHasMore(false);
+        setHistoryTags([]);
+      })
+      .catch(e => console.error('Failed to clear history', e));
+  };
+
+  const parseErrorMessage = (err: unknown): string => {
+    const error = toTranslationError(err);
+    if (error.code === 'unknown') console.error('Unclassified translation error', err);
+    const code = !navigator.onLine && error.code === 'unknown' ? 'network' : error.code;
+    const action = code === 'network' ? 'check_connection' : error.action;
+    return `${t[`error_${code}` as const]} ${t[`action_${action}` as const]}`;
+  };
+
+  // Passing the history entry lets model-generated audio be cached for replay, offline included
+  const speakText = (text: string, locale: string, historyId?: string | Promise<string | null>) => {
+    speak({ text, locale, historyId }, speechSettings, volume).catch(e => console.error('Speech failed', e));
+  };
+
+  const lastHistoryId = () => lastHistoryRef.current?.then(item => item?.id ?? null);
+
   const handleClearResult = () => {
     setTranslationResult(null);
+    setImageSource(null);
     setError(null);
   };
 
+  // History, study cards, the glossary and cached translations and speech go with the account
+  const handleAccountDeleted = () => {
+    handleClearResult();
+    setHistory([]);
+    setHistoryHasMore(false);
+    setHistoryTags([]);
+    setStudyQueue([]);
+    setGlossary([]);
+    clearUserData().catch(e => console.error('Failed to clear local data after deleting the account', e));
+  };
+
   const handleRestorePurchase = () => {
     setAuthModal('signin');
     setShowPremiumModal(false);
   };
 
+  // The session listener drops `user` as soon as the local session is cleared
   const handleLogout = () => {
-    setUser(null);
+    signOut();
     handleClearResult();
   };
 
@@ -374,11 +1048,11 @@ const App: React.FC = () => {
           motherLangCode={motherLangCode}
         />
         {authModal && (
-          <AuthModal 
-            type={authModal} 
-            onClose={() => setAuthModal(null)} 
+          <AuthDialog
+            type={authModal}
+            onClose={() => setAuthModal(null)}
             motherLangCode={motherLangCode}
-            onAuth={(newUser) => { setUser(newUser); setAuthModal(null); }} 
+            onAuthenticated={() => setAuthModal(null)}
           />
         )}
       </>
@@ -416,11 +1090,11 @@ const App: React.FC = () => {
           </div>
           <div className="flex flex-col">
             <h1 className="text-2xl font-black text-white tracking-tighter leading-none">IVoice</h1>
-            {user.isPremium && <span className="text-[8px] font-black text-yellow-500 uppercase tracking-widest mt-0.5">Neural Premium</span>}
+            {isPremium && <span className="text-[8px] font-black text-yellow-500 uppercase tracking-widest mt-0.5">Neural Premium</span>}
           </div>
         </div>
         <div className="flex items-center gap-3">
-          {!user.isPremium && (
+          {!isPremium && (
             <button 
               onClick={() => setShowPremiumModal(true)}
               className="p-3 bg-gradient-to-br from-yellow-500 to-yellow-700 rounded-2xl text-white shadow-lg shadow-yellow-500/20 active:scale-95 border border-white/10"
@@ -431,11 +1105,17 @@ const App: React.FC = () => {
             </button>
           )}
           <button 
-            onClick={() => setMode(mode === 'offline-settings' ? 'voice-to-voice' : 'offline-settings')} 
+            onClick={() => { cancelTranslation(); setMode(mode === 'offline-settings' ? 'voice-to-voice' : 'offline-settings'); }} 
             className={`p-3 border border-white/10 rounded-2xl transition-all active:scale-95 shadow-lg backdrop-blur-md ${mode === 'offline-settings' ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-400'}`}
           >
              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
           </button>
+          <button
+            onClick={() => (mode === 'study' ? setMode('voice-to-voice') : openStudy())}
+            className={`p-3 border border-white/10 rounded-2xl transition-all active:scale-95 shadow-lg backdrop-blur-md ${mode === 'study' ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-400'}`}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+          </button>
           <button onClick={() => setIsHistoryOpen(true)} className="p-3 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white transition-all active:scale-95 shadow-lg backdrop-blur-md">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
           </button>
@@ -453,12 +1133,14 @@ const App: React.FC = () => {
                 { id: 'voice-to-voice', label: t.voice, icon: 'M15.536 8.464a5 5 0 010 7.072M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z' },
                 { id: 'voice-to-text', label: t.dictate, icon: 'M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z' },
                 { id: 'text-to-text', label: t.text, icon: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z' },
-                { id: 'image-to-text', label: t.photo, icon: 'M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z' }
+                { id: 'image-to-text', label: t.photo, icon: 'M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z' },
+                { id: 'document', label: t.document, icon: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z' },
+                { id: 'audio-file', label: t.audio_file, icon: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3' }
               ].map(m => (
                 <button
                   key={m.id}
-                  disabled={!isOnline && m.id === 'image-to-text'}
-                  onClick={() => { setMode(m.id as TranslationMode); setTranslationResult(null); setError(null); }}
+                  disabled={!isOnline && (m.id === 'image-to-text' || m.id === 'document' || m.id === 'audio-file')}
+                  onClick={() => { cancelTranslation(); setMode(m.id as TranslationMode); setTranslationResult(null); setError(null); }}
                   className={`flex items-center gap-3 px-6 py-3 rounded-xl text-sm font-black transition-all flex-1 justify-center whitespace-nowrap disabled:opacity-30 ${mode === m.id ? 'bg-blue-600 text-white shadow-xl shadow-blue-600/20' : 'text-slate-500 hover:text-slate-300'}`}
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d={m.icon} /></svg>
@@ -468,26 +1150,69 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          {mode === 'offline-settings' ? (
-             <OfflinePackManager 
-                onDownload={handleDownloadPack} 
-                downloadedLangs={user?.downloadedLanguages || []} 
-                isPremium={!!user?.isPremium} 
-                motherLangCode={motherLangCode} 
-                onShowPremium={() => setShowPremiumModal(true)}
+          {mode === 'study' ? (
+             <StudySession
+                queue={studyQueue}
+                reviewed={studyReviewed}
+                isLoading={isStudyLoading}
+                onGrade={handleStudyGrade}
+                onPlay={speakText}
+                motherLangCode={motherLangCode}
              />
+          ) : mode === 'offline-settings' ? (
+             <div className="flex flex-col gap-6">
+               <OfflinePackManager 
+                  onDownload={handleDownloadPack} 
+                  downloadedLangs={downloadedLangs} 
+                  isPremium={offlinePacksAllowed} 
+                  motherLangCode={motherLangCode} 
+                  onShowPremium={() => setShowPremiumModal(true)}
+               />
+               <InstalledPacks
+                  packs={offlinePacks}
+                  busyCode={packBusy}
+                  isOnline={isOnline}
+                  onUpdate={handleDownloadPack}
+                  onDelete={handleDeletePack}
+                  motherLangCode={motherLangCode}
+               />
+               <GlossaryManager
+                  entries={glossary}
+                  pair={languagePair}
+                  onSave={handleSaveGlossaryEntry}
+                  onDelete={handleDeleteGlossaryEntry}
+                  onExport={handleExportGlossary}
+                  onImport={handleImportGlossary}
+                  notice={glossaryNotice}
+                  motherLangCode={motherLangCode}
+               />
+               <VoiceSettings
+                  settings={speechSettings}
+                  onChange={setSpeechSettings}
+                  languages={[motherLang, targetLang]}
+                  onPreview={speakText}
+                  motherLangCode={motherLangCode}
+               />
+               <AccountPanel
+                  user={user}
+                  onSignOut={handleLogout}
+                  onDeleted={handleAccountDeleted}
+                  motherLangCode={motherLangCode}
+               />
+             </div>
           ) : (
             <div className="flex flex-col gap-8">
               <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] items-center gap-4">
                 <div className="space-y-3">
-                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ml-2">{t.mother_lang}</p>
-                  <LanguageSelector value={motherLangCode} onChange={setMotherLangCode} disabled={isRecording || isLoading} />
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.mother_lang}</p>
+                  <LanguageSelector value={motherLangCode} onChange={handleMotherLangChange} disabled={isRecording} />
+                  <VariantSelector language={motherLang} onChange={id => handleVariantChange(motherLangCode, id)} disabled={isRecording} />
                 </div>
                 
                 <div className="flex justify-center pt-6">
                   <button 
                     onClick={swapLanguages}
-                    disabled={isRecording || isLoading}
+                    disabled={isRecording}
                     className="p-3 bg-white/5 border border-white/10 rounded-full text-blue-400 hover:text-white hover:bg-blue-600 hover:border-blue-500 transition-all active:scale-90 shadow-lg disabled:opacity-30 disabled:cursor-not-allowed"
                   >
                     <svg className="w-5 h-5 rotate-90 sm:rotate-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -498,59 +1223,150 @@ const App: React.FC = () => {
 
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
-                    <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ml-2">{t.translate_to}</p>
-                    {user?.downloadedLanguages?.includes(targetLangCode) && (
+                    <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.translate_to}</p>
+                    {downloadedLangs.includes(targetLangCode) && (
                       <span className="text-[8px] font-black text-emerald-500 uppercase tracking-widest flex items-center gap-1">
                         <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
                         LOCAL READY
                       </span>
                     )}
                   </div>
-                  <LanguageSelector value={targetLangCode} onChange={setTargetLangCode} disabled={isRecording || isLoading} />
+                  <LanguageSelector value={targetLangCode} onChange={handleTargetLangChange} disabled={isRecording} />
+                  <VariantSelector language={targetLang} onChange={id => handleVariantChange(targetLangCode, id)} disabled={isRecording} />
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-black/20 p-5 rounded-3xl border border-white/5 shadow-inner">
                 {(mode === 'voice-to-voice' || mode === 'voice-to-text') && (
-                  <SensitivityControl value={sensitivity} onChange={setSensitivity} disabled={isRecording || isLoading} motherLangCode={motherLangCode} />
+                  <>
+                    <SensitivityControl value={sensitivity} onChange={setSensitivity} disabled={(isRecording || isLoading) && !isListening} motherLangCode={motherLangCode} />
+                    <HandsFreeControl
+                      enabled={handsFree}
+                      onToggle={handleHandsFreeToggle}
+                      silenceMs={vadSilenceMs}
+                      onSilenceChange={setVadSilenceMs}
+                      disabled={isListening}
+                      motherLangCode={motherLangCode}
+                    />
+                  </>
                 )}
                 <VolumeControl value={volume} onChange={setVolume} disabled={isLoading} motherLangCode={motherLangCode} />
+                <FormalitySelector value={formality} onChange={setFormality} disabled={isRecording || isLoading} motherLangCode={motherLangCode} />
               </div>
               
               <div className="w-full">
                 {mode === 'voice-to-voice' || mode === 'voice-to-text' ? (
                   <div className="flex flex-col items-center gap-2">
-                    <RecordButton isRecording={isRecording} isLoading={isLoading} onStart={startRecording} onStop={stopRecording} motherLangCode={motherLangCode} />
+                    {handsFree ? (
+                      <HandsFreeRecorder
+                        isListening={isListening}
+                        isRecording={isRecording}
+                        isLoading={isLoading}
+                        level={inputLevel}
+                        onStart={startListening}
+                        onStop={stopListening}
+                        motherLangCode={motherLangCode}
+                      />
+                    ) : (
+                      <RecordButton isRecording={isRecording} isLoading={isLoading} onStart={startRecording} onStop={stopRecording} motherLangCode={motherLangCode} />
+                    )}
                   </div>
                 ) : mode === 'text-to-text' ? (
                   <TextTranslator onTranslate={handleTextTranslate} isLoading={isLoading} disabled={isRecording} motherLangCode={motherLangCode} />
+                ) : mode === 'audio-file' ? (
+                  <AudioFileTranslator
+                    job={audioJob}
+                    audioUrl={audioFileUrl}
+                    isReading={isReadingAudio}
+                    isLoading={isLoading}
+                    onSelectFile={handleAudioFileSelect}
+                    onTranslate={handleAudioFileTranslate}
+                    onExport={handleTranscriptExport}
+                    motherLangCode={motherLangCode}
+                  />
+                ) : mode === 'document' ? (
+                  <DocumentTranslator
+                    job={documentJob}
+                    isReading={isReadingDocument}
+                    isLoading={isLoading}
+                    onSelectFile={handleDocumentSelect}
+                    onTranslate={handleDocumentTranslate}
+                    onDownload={handleDocumentDownload}
+                    motherLangCode={motherLangCode}
+                  />
                 ) : (
                   <ImageTranslator onTranslate={handleImageTranslate} isLoading={isLoading} motherLangCode={motherLangCode} />
                 )}
+                {isLoading && (
+                  <div className="flex justify-center mt-4">
+                    <button
+                      onClick={cancelTranslation}
+                      className="flex items-center gap-2 px-5 py-2.5 bg-white/5 border border-white/10 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white hover:border-red-500/50 transition-all active:scale-95"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" /></svg>
+                      {t.cancel}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           )}
         </div>
 
-        {mode !== 'offline-settings' && (
+        {mode !== 'offline-settings' && mode !== 'study' && (
           <TranslationView 
             result={translationResult} 
             error={error}
             targetLang={translationResult?.detected_language === motherLangCode ? targetLang : motherLang} 
-            onPlay={speakText} 
+            onPlay={(text, locale) => speakText(text, locale, lastHistoryId())} 
             onClear={handleClearResult} 
             motherLangCode={motherLangCode} 
           />
         )}
+
+        {mode === 'image-to-text' && imageSource && translationResult?.regions && (
+          <ImageRegionOverlay
+            imageSrc={imageSource}
+            regions={translationResult.regions}
+            targetLang={translationResult.detected_language === motherLangCode ? targetLang : motherLang}
+            onPlay={speakText}
+            onExport={handleExportImage}
+            isExporting={isExportingImage}
+            motherLangCode={motherLangCode}
+          />
+        )}
+
+        {mode !== 'offline-settings' && mode !== 'study' && translationResult?.alternatives && (
+          <AlternativeTranslations
+            alternatives={translationResult.alternatives}
+            onSelect={handleSelectAlternative}
+            motherLangCode={motherLangCode}
+          />
+        )}
+
+        {mode !== 'offline-settings' && mode !== 'study' && translationResult?.glossary_issues && (
+          <GlossaryIssues issues={translationResult.glossary_issues} motherLangCode={motherLangCode} />
+        )}
       </main>
 
-      <HistoryPanel 
-        isOpen={isHistoryOpen} 
-        onClose={() => setIsHistoryOpen(false)} 
-        history={history} 
-        onReplay={speakText} 
-        onDelete={(id) => setHistory(prev => prev.filter(i => i.id !== id))} 
-        onClearAll={() => confirm('Clear history?') && setHistory([])} 
+      <HistoryLibrary
+        isOpen={isHistoryOpen}
+        onClose={() => { setIsHistoryOpen(false); setHistoryNotice(null); }}
+        history={history}
+        hasMore={historyHasMore}
+        tags={historyTags}
+        query={historyQuery}
+        currentPair={{ mother: motherLangCode, target: targetLangCode }}
+        onQueryChange={setHistoryQuery}
+        onLoadMore={loadMoreHistory}
+        onReplay={speakText}
+        onToggleStar={handleToggleStar}
+        onUpdateTags={handleUpdateTags}
+        onDelete={handleDeleteHistoryItem}
+        onClearAll={handleClearHistory}
+        onExport={handleExportHistory}
+        onImport={handleImportHistory}
+        notice={historyNotice}
         motherLangCode={motherLangCode}
       />
     </div>
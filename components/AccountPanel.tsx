@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { I18N } from '../constants';
+import { SupportedLanguageCode, User } from '../types';
+import { AccountError, deleteAccount } from '../services/authClient';
+
+interface AccountPanelProps {
+  user: User;
+  onSignOut: () => void;
+  // Called after the server has deleted the account; the session is already gone by then
+  onDeleted: () => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const AccountPanel: React.FC<AccountPanelProps> = ({ user, onSignOut, onDeleted, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await deleteAccount(password);
+      onDeleted();
+    } catch (err) {
+      setError(t[`auth_error_${err instanceof AccountError ? err.code : 'server'}` as const]);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.account}</p>
+      <div className="flex flex-col gap-4 bg-black/20 p-4 rounded-3xl border border-white/5 shadow-inner">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-black text-white truncate">{user.name}</p>
+            <p className="text-xs text-slate-400 truncate">{user.email}</p>
+          </div>
+          <button
+            onClick={onSignOut}
+            className="shrink-0 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-black text-slate-300 hover:text-white transition-all active:scale-95"
+          >
+            {t.sign_out}
+          </button>
+        </div>
+
+        {confirming ? (
+          <form onSubmit={handleDelete} className="flex flex-col gap-3 p-3 bg-red-500/5 border border-red-500/20 rounded-2xl">
+            <p className="text-xs text-red-200">{t.delete_account_confirm}</p>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              placeholder={t.auth_password}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-red-500"
+            />
+            {error && <p className="text-xs text-red-300">{error}</p>}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => { setConfirming(false); setPassword(''); setError(null); }}
+                className="flex-1 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-black text-slate-300 transition-all active:scale-95"
+              >
+                {t.cancel}
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="flex-1 py-2 bg-red-600 hover:bg-red-500 disabled:opacity-50 rounded-xl text-xs font-black text-white transition-all active:scale-95"
+              >
+                {busy ? t.processing : t.delete_account}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button onClick={() => setConfirming(true)} className="self-start text-xs font-bold text-red-400 hover:text-red-300 transition-colors">
+            {t.delete_account}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountPanel;
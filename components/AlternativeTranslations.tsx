@@ -0,0 +1,33 @@
+import React from 'react';
+import { I18N } from '../constants';
+import { SupportedLanguageCode, TranslationAlternative } from '../types';
+
+interface AlternativeTranslationsProps {
+  alternatives: TranslationAlternative[];
+  onSelect: (index: number) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const AlternativeTranslations: React.FC<AlternativeTranslationsProps> = ({ alternatives, onSelect, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  if (alternatives.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.alternatives}</p>
+      {alternatives.map((alt, i) => (
+        <button
+          key={`${i}-${alt.translated_text}`}
+          onClick={() => onSelect(i)}
+          className="flex flex-col items-start gap-1 text-start bg-black/20 hover:bg-blue-600/10 px-4 py-3 rounded-2xl border border-white/5 hover:border-blue-500/30 transition-all active:scale-[0.99]"
+        >
+          <span className="text-sm font-black text-white">{alt.translated_text}</span>
+          {alt.phonetic && <span className="text-xs italic text-slate-500">{alt.phonetic}</span>}
+          <span className="text-[11px] text-slate-400">{alt.note || t.alternative_previous}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AlternativeTranslations;
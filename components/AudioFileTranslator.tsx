@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { I18N } from '../constants';
+import { formatMessage } from '../i18n';
+import { AudioTranscriptJob, SupportedLanguageCode, TranscriptExportFormat } from '../types';
+import { formatTimestamp } from '../services/audioTranscript';
+
+interface AudioFileTranslatorProps {
+  job: AudioTranscriptJob | null;
+  audioUrl: string | null;
+  isReading: boolean;
+  isLoading: boolean;
+  onSelectFile: (file: File) => void;
+  onTranslate: () => void;
+  onExport: (format: TranscriptExportFormat) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const EXPORT_FORMATS: TranscriptExportFormat[] = ['txt', 'srt', 'vtt'];
+
+// "00:01:23.500" -> "1:23", or "1:02:03" past the hour
+const clock = (seconds: number) => formatTimestamp(seconds).slice(0, 8).replace(/^00:/, '').replace(/^0(\d)/, '$1');
+
+const AudioFileTranslator: React.FC<AudioFileTranslatorProps> = ({ job, audioUrl, isReading, isLoading, onSelectFile, onTranslate, onExport, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const spoken = job?.segments.filter(s => !s.silent) || [];
+  const done = spoken.filter(s => s.status === 'done').length;
+  const failed = spoken.filter(s => s.status === 'failed').length;
+  const started = spoken.some(s => s.status !== 'pending');
+  const complete = spoken.length > 0 && done === spoken.length;
+  const percent = spoken.length > 0 ? Math.round((done / spoken.length) * 100) : 0;
+
+  const playFrom = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play();
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading || isReading}
+        className="flex flex-col items-center justify-center gap-2 min-h-[8rem] bg-black/20 p-6 rounded-3xl border-2 border-dashed border-white/10 hover:border-blue-500/50 text-center transition-all disabled:opacity-30"
+      >
+        <svg className="w-8 h-8 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" /></svg>
+        <span className="text-sm font-black text-white break-all">{isReading ? t.audio_file_reading : job ? job.name : t.audio_file_choose}</span>
+        {job && <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{clock(job.duration)}</span>}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*,video/mp4,video/webm"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onSelectFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      {job && (
+        <div className="flex flex-col gap-3 bg-black/20 p-4 rounded-3xl border border-white/5">
+          {audioUrl && (
+            <audio ref={audioRef} src={audioUrl} controls className="w-full" onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)} />
+          )}
+          <div className="flex items-center justify-between text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            <span>{formatMessage(t.audio_file_progress, { done, total: spoken.length }, motherLangCode)}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          {failed > 0 && !isLoading && (
+            <p className="text-xs text-amber-300">{formatMessage(t.audio_file_failed, { count: failed }, motherLangCode)}</p>
+          )}
+          {complete ? (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest me-auto">{t.export_file}</span>
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase hover:text-white transition-all active:scale-95"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={onTranslate}
+              disabled={isLoading}
+              className="py-3 bg-blue-600 rounded-2xl text-sm font-black text-white transition-all active:scale-95 disabled:opacity-30"
+            >
+              {failed > 0 ? t.audio_file_retry : started ? t.document_resume : t.audio_file_translate}
+            </button>
+          )}
+        </div>
+      )}
+
+      {job && started && (
+        <div className="flex flex-col gap-2">
+          {spoken.map(segment => {
+            const active = currentTime >= segment.start && currentTime < segment.end;
+            return (
+              <button
+                key={segment.index}
+                onClick={() => playFrom(segment.start)}
+                className={`flex gap-3 text-start px-4 py-3 rounded-2xl border transition-all ${active ? 'bg-blue-600/10 border-blue-500/30' : 'bg-black/20 border-white/5 hover:border-white/10'}`}
+              >
+                <span className="text-[10px] font-black text-slate-500 tabular-nums pt-0.5 shrink-0">{clock(segment.start)}</span>
+                <span className="flex flex-col gap-1 min-w-0">
+                  {segment.status === 'done' ? (
+                    segment.result ? (
+                      <>
+                        <span className="text-sm text-slate-300 break-words">{segment.result.original_text}</span>
+                        <span className="text-sm font-bold text-blue-300 break-words">{segment.result.translated_text}</span>
+                      </>
+                    ) : (
+                      <span className="text-xs italic text-slate-600">{t.audio_file_no_speech}</span>
+                    )
+                  ) : segment.status === 'failed' ? (
+                    <span className="text-xs text-amber-300">{t.audio_file_segment_failed}</span>
+                  ) : (
+                    <span className="text-xs text-slate-600">…</span>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioFileTranslator;
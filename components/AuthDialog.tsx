@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { I18N } from '../constants';
+import { SupportedLanguageCode, User } from '../types';
+import { formatMessage } from '../i18n';
+import { AccountError, requestPasswordReset, resetPassword, signIn, signUp } from '../services/authClient';
+
+type AuthView = 'signin' | 'signup' | 'forgot' | 'reset';
+
+interface AuthDialogProps {
+  type: 'signin' | 'signup';
+  onClose: () => void;
+  onAuthenticated: (user: User) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const AuthDialog: React.FC<AuthDialogProps> = ({ type, onClose, onAuthenticated, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [view, setView] = useState<AuthView>(type);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const switchView = (next: AuthView) => {
+    setView(next);
+    setPassword('');
+    setError(null);
+    if (next !== 'reset') setNotice(null);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (view === 'signin') {
+        onAuthenticated(await signIn(email, password));
+      } else if (view === 'signup') {
+        onAuthenticated(await signUp(name, email, password));
+      } else if (view === 'forgot') {
+        await requestPasswordReset(email);
+        switchView('reset');
+        setNotice(formatMessage(t.auth_code_sent, { email: email.trim() }, motherLangCode));
+      } else {
+        await resetPassword(code, password);
+        switchView('signin');
+        setNotice(t.auth_password_changed);
+      }
+    } catch (err) {
+      setError(t[`auth_error_${err instanceof AccountError ? err.code : 'server'}` as const]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const titles: Record<AuthView, string> = {
+    signin: t.sign_in,
+    signup: t.sign_up,
+    forgot: t.auth_reset_title,
+    reset: t.auth_reset_title,
+  };
+  const submitLabels: Record<AuthView, string> = {
+    signin: t.sign_in,
+    signup: t.sign_up,
+    forgot: t.auth_send_code,
+    reset: t.auth_set_password,
+  };
+
+  const inputClass = 'w-full bg-black/30 border border-white/10 rounded-2xl px-4 py-3 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+  const linkClass = 'text-xs font-bold text-blue-400 hover:text-blue-300 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={submit}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-sm flex flex-col gap-4 p-6 bg-slate-950 border border-white/10 rounded-[2rem] shadow-2xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black text-white">{titles[view]}</h2>
+          <button type="button" onClick={onClose} className="p-2 bg-white/5 border border-white/10 rounded-xl text-slate-400 hover:text-white transition-all active:scale-95">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {notice && <p className="text-xs text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded-xl px-3 py-2">{notice}</p>}
+
+        {view === 'signup' && (
+          <input type="text" autoComplete="name" required placeholder={t.auth_name} value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+        )}
+        {view !== 'reset' && (
+          <input type="email" autoComplete="email" required placeholder={t.auth_email} value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+        )}
+        {view === 'reset' && (
+          <input type="text" autoComplete="one-time-code" required placeholder={t.auth_reset_code} value={code} onChange={e => setCode(e.target.value)} className={`${inputClass} font-mono uppercase tracking-widest`} />
+        )}
+        {view !== 'forgot' && (
+          <div className="flex flex-col gap-1">
+            <input
+              type="password"
+              autoComplete={view === 'signin' ? 'current-password' : 'new-password'}
+              required
+              placeholder={view === 'reset' ? t.auth_new_password : t.auth_password}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className={inputClass}
+            />
+            {view !== 'signin' && <span className="text-[10px] text-slate-500 ms-2">{t.auth_password_hint}</span>}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-2xl text-sm font-black text-white shadow-lg shadow-blue-600/20 transition-all active:scale-95"
+        >
+          {busy ? t.processing : submitLabels[view]}
+        </button>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {view === 'signin' && (
+            <>
+              <button type="button" onClick={() => switchView('forgot')} className={linkClass}>{t.auth_forgot}</button>
+              <button type="button" onClick={() => switchView('signup')} className={linkClass}>{t.auth_no_account} {t.sign_up}</button>
+            </>
+          )}
+          {view === 'signup' && (
+            <button type="button" onClick={() => switchView('signin')} className={linkClass}>{t.auth_have_account} {t.sign_in}</button>
+          )}
+          {(view === 'forgot' || view === 'reset') && (
+            <button type="button" onClick={() => switchView('signin')} className={linkClass}>{t.auth_back}</button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AuthDialog;
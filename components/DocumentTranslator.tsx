@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { I18N } from '../constants';
+import { formatMessage } from '../i18n';
+import { DocumentJob, SupportedLanguageCode } from '../types';
+import { DOCUMENT_ACCEPT } from '../services/documentParser';
+import { documentProgress } from '../services/documentTranslation';
+import { DocumentOutputOptions } from '../services/documentBuilder';
+
+interface DocumentTranslatorProps {
+  job: DocumentJob | null;
+  isReading: boolean;
+  isLoading: boolean;
+  onSelectFile: (file: File) => void;
+  onTranslate: () => void;
+  onDownload: (options: DocumentOutputOptions) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const DocumentTranslator: React.FC<DocumentTranslatorProps> = ({ job, isReading, isLoading, onSelectFile, onTranslate, onDownload, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bilingual, setBilingual] = useState(false);
+  const progress = job ? documentProgress(job) : null;
+  const started = !!job?.chunks.some(c => c.status !== 'pending');
+  const complete = !!progress && progress.total > 0 && progress.done === progress.total;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading || isReading}
+        className="flex flex-col items-center justify-center gap-2 min-h-[8rem] bg-black/20 p-6 rounded-3xl border-2 border-dashed border-white/10 hover:border-blue-500/50 text-center transition-all disabled:opacity-30"
+      >
+        <svg className="w-8 h-8 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+        <span className="text-sm font-black text-white break-all">{isReading ? t.document_reading : job ? job.document.name : t.document_choose}</span>
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t.document_formats}</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={DOCUMENT_ACCEPT}
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onSelectFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      {job && progress && (
+        <div className="flex flex-col gap-3 bg-black/20 p-4 rounded-3xl border border-white/5">
+          <div className="flex items-center justify-between text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            <span>{formatMessage(t.document_progress, { done: progress.done, total: progress.total }, motherLangCode)}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          {job.document.subtitles && (
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-400">
+              <input type="checkbox" checked={bilingual} onChange={e => setBilingual(e.target.checked)} className="accent-blue-600" />
+              {t.subtitle_bilingual}
+            </label>
+          )}
+          {progress.failed > 0 && !isLoading && (
+            <p className="text-xs text-amber-300">{formatMessage(t.document_failed, { count: progress.failed }, motherLangCode)}</p>
+          )}
+          <div className="flex gap-2">
+            {!complete && (
+              <button
+                onClick={onTranslate}
+                disabled={isLoading}
+                className="flex-1 py-3 bg-blue-600 rounded-2xl text-sm font-black text-white transition-all active:scale-95 disabled:opacity-30"
+              >
+                {progress.failed > 0 ? t.document_retry : started ? t.document_resume : t.document_translate}
+              </button>
+            )}
+            {complete && (
+              <button
+                onClick={() => onDownload({ bilingual })}
+                className="flex-1 py-3 bg-emerald-600 rounded-2xl text-sm font-black text-white transition-all active:scale-95"
+              >
+                {t.document_download}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentTranslator;
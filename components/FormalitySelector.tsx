@@ -0,0 +1,36 @@
+import React from 'react';
+import { I18N } from '../constants';
+import { Formality, SupportedLanguageCode } from '../types';
+
+interface FormalitySelectorProps {
+  value: Formality;
+  onChange: (value: Formality) => void;
+  disabled?: boolean;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const LEVELS: Formality[] = ['formal', 'neutral', 'casual'];
+
+const FormalitySelector: React.FC<FormalitySelectorProps> = ({ value, onChange, disabled, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+
+  return (
+    <div className="flex flex-col gap-2 md:col-span-2">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-1">{t.formality}</p>
+      <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+        {LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => onChange(level)}
+            disabled={disabled}
+            className={`flex-1 py-2 rounded-lg text-xs font-black transition-all disabled:opacity-30 ${value === level ? 'bg-blue-600 text-white shadow-lg shadow-blue-600/20' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            {t[`formality_${level}` as const]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FormalitySelector;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { I18N } from '../constants';
+import { formatMessage } from '../i18n';
+import { GlossaryIssue, SupportedLanguageCode } from '../types';
+
+interface GlossaryIssuesProps {
+  issues: GlossaryIssue[];
+  motherLangCode: SupportedLanguageCode;
+}
+
+const GlossaryIssues: React.FC<GlossaryIssuesProps> = ({ issues, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 bg-amber-500/10 border border-amber-500/20 p-4 rounded-3xl">
+      <p className="text-[10px] font-black text-amber-400 uppercase tracking-[0.2em]">{t.glossary_issues}</p>
+      {issues.map(issue => (
+        <p key={issue.entryId} className="text-sm text-amber-200">
+          {formatMessage(t.glossary_issue, { term: issue.term, expected: issue.expected }, motherLangCode)}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default GlossaryIssues;
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { I18N } from '../constants';
+import { GlossaryEntry, LanguagePair, SupportedLanguageCode } from '../types';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  pair: LanguagePair;
+  onSave: (entry: GlossaryEntry) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  notice: string | null;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, pair, onSave, onDelete, onExport, onImport, notice, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [source, setSource] = useState('');
+  const [translation, setTranslation] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canAdd = source.trim() !== '' && (doNotTranslate || translation.trim() !== '');
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onSave({
+      id: crypto.randomUUID(),
+      mother: pair.mother.code,
+      target: pair.target.code,
+      source: source.trim(),
+      translation: doNotTranslate ? source.trim() : translation.trim(),
+      doNotTranslate,
+    });
+    setSource('');
+    setTranslation('');
+    setDoNotTranslate(false);
+  };
+
+  const inputClass = 'flex-1 min-w-0 bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-30';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between ms-2">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+          {t.glossary} · {pair.mother.flag} ↔ {pair.target.flag}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onExport}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 hover:text-white transition-all active:scale-95"
+          >
+            {t.export_file}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 hover:text-white transition-all active:scale-95"
+          >
+            {t.import_file}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 bg-black/20 p-4 rounded-3xl border border-white/5 shadow-inner">
+        <div className="flex gap-2">
+          <input value={source} onChange={e => setSource(e.target.value)} placeholder={`${pair.mother.flag} ${t.glossary_term}`} className={inputClass} />
+          <input
+            value={doNotTranslate ? source : translation}
+            onChange={e => setTranslation(e.target.value)}
+            disabled={doNotTranslate}
+            placeholder={`${pair.target.flag} ${t.glossary_translation}`}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-400">
+            <input type="checkbox" checked={doNotTranslate} onChange={e => setDoNotTranslate(e.target.checked)} className="accent-blue-600" />
+            {t.glossary_keep}
+          </label>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="px-4 py-2 bg-blue-600 rounded-xl text-xs font-black text-white transition-all active:scale-95 disabled:opacity-30"
+          >
+            {t.glossary_add}
+          </button>
+        </div>
+      </div>
+
+      {notice && <p className="text-xs text-slate-400 text-center">{notice}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500 bg-black/20 p-5 rounded-3xl border border-white/5 text-center">{t.glossary_empty}</p>
+      ) : (
+        entries.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between gap-4 bg-black/20 px-4 py-3 rounded-2xl border border-white/5">
+            <div className="flex items-center gap-2 min-w-0 text-sm">
+              <span className="font-black text-white truncate">{entry.source}</span>
+              {entry.doNotTranslate ? (
+                <span className="text-[9px] font-black text-amber-400 uppercase tracking-widest">{t.glossary_keep}</span>
+              ) : (
+                <>
+                  <span className="text-slate-600">→</span>
+                  <span className="font-bold text-blue-300 truncate">{entry.translation}</span>
+                </>
+              )}
+            </div>
+            <button
+              onClick={() => onDelete(entry.id)}
+              className="p-2 rounded-xl text-slate-600 hover:text-red-400 transition-all active:scale-95 shrink-0"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default GlossaryManager;
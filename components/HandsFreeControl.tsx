@@ -0,0 +1,52 @@
+import React from 'react';
+import { I18N } from '../constants';
+import { SupportedLanguageCode } from '../types';
+import { MAX_VAD_SILENCE_MS, MIN_VAD_SILENCE_MS } from '../services/voiceActivity';
+
+interface HandsFreeControlProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  silenceMs: number;
+  onSilenceChange: (ms: number) => void;
+  disabled?: boolean;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const HandsFreeControl: React.FC<HandsFreeControlProps> = ({ enabled, onToggle, silenceMs, onSilenceChange, disabled, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+
+  return (
+    <div className="flex flex-col gap-2 md:col-span-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-1">{t.hands_free}</p>
+        <button
+          role="switch"
+          aria-checked={enabled}
+          aria-label={t.hands_free}
+          onClick={() => onToggle(!enabled)}
+          className={`relative w-10 h-6 rounded-full transition-all ${enabled ? 'bg-blue-600' : 'bg-white/10'}`}
+        >
+          <span className={`absolute top-1 start-1 w-4 h-4 rounded-full bg-white transition-all ${enabled ? 'translate-x-4 rtl:-translate-x-4' : ''}`} />
+        </button>
+      </div>
+      {enabled && (
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold text-slate-400 shrink-0">{t.vad_silence}</span>
+          <input
+            type="range"
+            min={MIN_VAD_SILENCE_MS}
+            max={MAX_VAD_SILENCE_MS}
+            step={100}
+            value={silenceMs}
+            onChange={e => onSilenceChange(Number(e.target.value))}
+            disabled={disabled}
+            className="flex-1 accent-blue-600 disabled:opacity-30"
+          />
+          <span className="text-xs font-black text-slate-300 tabular-nums w-10 text-end">{(silenceMs / 1000).toFixed(1)}s</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HandsFreeControl;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { I18N } from '../constants';
+import { SupportedLanguageCode } from '../types';
+import { VAD_THRESHOLD, levelToMeter } from '../services/voiceActivity';
+
+interface HandsFreeRecorderProps {
+  isListening: boolean;
+  isRecording: boolean;
+  isLoading: boolean;
+  level: number;
+  onStart: () => void;
+  onStop: () => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const HandsFreeRecorder: React.FC<HandsFreeRecorderProps> = ({ isListening, isRecording, isLoading, level, onStart, onStop, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const meter = isListening ? levelToMeter(level) * 100 : 0;
+  const status = !isListening ? null : isRecording ? t.listening : isLoading ? t.processing : t.hands_free_waiting;
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-sm">
+      <button
+        onClick={isListening ? onStop : onStart}
+        className={`w-24 h-24 rounded-full flex items-center justify-center shadow-2xl transition-all active:scale-95 ${isRecording ? 'bg-red-600 shadow-red-600/30 animate-pulse' : isListening ? 'bg-blue-600 shadow-blue-600/30' : 'bg-white/5 border-2 border-white/10 hover:border-blue-500/50'}`}
+        aria-label={isListening ? t.hands_free_stop : t.hands_free_start}
+      >
+        {isListening ? (
+          <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+        ) : (
+          <svg className="w-10 h-10 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+        )}
+      </button>
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{status || t.hands_free_start}</p>
+      {isListening && (
+        <div className="relative h-2 w-full bg-white/5 rounded-full overflow-hidden" aria-label={t.input_level}>
+          <div className={`h-full transition-all duration-75 ${isRecording ? 'bg-red-500' : 'bg-blue-600'}`} style={{ width: `${meter}%` }} />
+          {/* Speech threshold; raising the mic sensitivity pushes the same voice further past it */}
+          <div className="absolute inset-y-0 w-0.5 bg-white/40" style={{ insetInlineStart: `${levelToMeter(VAD_THRESHOLD) * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HandsFreeRecorder;
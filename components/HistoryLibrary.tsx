@@ -0,0 +1,228 @@
+import React, { useRef, useState } from 'react';
+import { I18N } from '../constants';
+import { HistoryItem, HistoryMode, HistoryQuery, SupportedLanguageCode } from '../types';
+import { HistoryExportFormat } from '../services/historyExport';
+
+interface HistoryLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  history: HistoryItem[];
+  hasMore: boolean;
+  tags: string[];
+  query: HistoryQuery;
+  currentPair: { mother: SupportedLanguageCode; target: SupportedLanguageCode };
+  onQueryChange: (query: HistoryQuery) => void;
+  onLoadMore: () => void;
+  onReplay: (text: string, locale: string, historyId: string) => void;
+  onToggleStar: (item: HistoryItem) => void;
+  onUpdateTags: (item: HistoryItem, tags: string[]) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onExport: (format: HistoryExportFormat) => void;
+  onImport: (file: File) => void;
+  notice: string | null;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const MODES: HistoryMode[] = ['voice', 'text', 'image'];
+const EXPORT_FORMATS: { id: HistoryExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'json', label: 'JSON' },
+  { id: 'anki', label: 'Anki' },
+];
+
+// Date inputs give local-midnight boundaries; `to` is extended to the end of that day
+const toDateInput = (ts?: number) => (ts === undefined ? '' : new Date(ts).toLocaleDateString('en-CA'));
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+const HistoryLibrary: React.FC<HistoryLibraryProps> = ({
+  isOpen, onClose, history, hasMore, tags, query, currentPair, onQueryChange, onLoadMore,
+  onReplay, onToggleStar, onUpdateTags, onDelete, onClearAll, onExport, onImport, notice, motherLangCode
+}) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const modeLabels: Record<HistoryMode, string> = { voice: t.voice, text: t.text, image: t.photo };
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<HistoryQuery>) => onQueryChange({ ...query, ...patch });
+
+  const addTag = (item: HistoryItem) => {
+    const tag = (tagDrafts[item.id] || '').trim().toLowerCase();
+    if (!tag) return;
+    if (!item.tags?.includes(tag)) onUpdateTags(item, [...(item.tags || []), tag]);
+    setTagDrafts(prev => ({ ...prev, [item.id]: '' }));
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all active:scale-95 ${active ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-slate-950 border-s border-white/10 flex flex-col shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div>
+            <h2 className="text-xl font-black text-white">{t.history}</h2>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{t.saved_entries}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 border border-white/10 rounded-xl text-slate-400 hover:text-white transition-all active:scale-95">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3 p-6 border-b border-white/5">
+          <input
+            type="search"
+            value={query.search || ''}
+            onChange={e => update({ search: e.target.value })}
+            placeholder={t.search_history}
+            className="w-full bg-black/30 border border-white/10 rounded-2xl px-4 py-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => update({ mode: undefined })} className={chipClass(!query.mode)}>{t.all_modes}</button>
+            {MODES.map(m => (
+              <button key={m} onClick={() => update({ mode: m })} className={chipClass(query.mode === m)}>{modeLabels[m]}</button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => update({ languagePair: query.languagePair ? undefined : currentPair })}
+              className={chipClass(!!query.languagePair)}
+            >
+              {t.current_pair}
+            </button>
+            <button onClick={() => update({ starredOnly: !query.starredOnly })} className={chipClass(!!query.starredOnly)}>
+              ★ {t.starred_only}
+            </button>
+            {tags.map(tag => (
+              <button key={tag} onClick={() => update({ tag: query.tag === tag ? undefined : tag })} className={chipClass(query.tag === tag)}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <label className="flex-1 flex flex-col gap-1 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+              {t.date_from}
+              <input
+                type="date"
+                value={toDateInput(query.from)}
+                onChange={e => update({ from: fromDateInput(e.target.value, false) })}
+                className="bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <label className="flex-1 flex flex-col gap-1 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+              {t.date_to}
+              <input
+                type="date"
+                value={toDateInput(query.to)}
+                onChange={e => update({ to: fromDateInput(e.target.value, true) })}
+                className="bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-3">
+          {history.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-12">{t.history_empty}</p>
+          ) : (
+            history.map(item => (
+              <div key={item.id} className="bg-black/20 p-4 rounded-3xl border border-white/5 shadow-inner flex flex-col gap-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-xs text-slate-500 break-words">{item.original_text}</span>
+                    <span className="text-sm font-black text-white break-words">{item.targetLangFlag} {item.translated_text}</span>
+                    {item.phonetic && <span className="text-xs italic text-slate-500">{item.phonetic}</span>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => onToggleStar(item)}
+                      className={`p-2 rounded-xl transition-all active:scale-95 ${item.starred ? 'text-amber-400' : 'text-slate-600 hover:text-amber-400'}`}
+                    >
+                      ★
+                    </button>
+                    <button onClick={() => onReplay(item.translated_text, item.targetLangLocale, item.id)} className="p-2 rounded-xl text-slate-400 hover:text-white transition-all active:scale-95">
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+                    </button>
+                    <button onClick={() => onDelete(item.id)} className="p-2 rounded-xl text-slate-600 hover:text-red-400 transition-all active:scale-95">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest me-1">
+                    {new Date(item.timestamp).toLocaleString()}{item.mode ? ` · ${modeLabels[item.mode]}` : ''}
+                  </span>
+                  {item.tags?.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => onUpdateTags(item, item.tags!.filter(x => x !== tag))}
+                      className="px-2 py-0.5 bg-blue-600/20 rounded-lg text-[10px] font-bold text-blue-300 hover:bg-red-500/20 hover:text-red-300 transition-all"
+                    >
+                      #{tag} ×
+                    </button>
+                  ))}
+                  <input
+                    value={tagDrafts[item.id] || ''}
+                    onChange={e => setTagDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    onKeyDown={e => e.key === 'Enter' && addTag(item)}
+                    placeholder={t.add_tag}
+                    className="w-20 bg-transparent text-[10px] text-slate-400 placeholder-slate-700 focus:outline-none"
+                  />
+                </div>
+              </div>
+            ))
+          )}
+          {hasMore && (
+            <button onClick={onLoadMore} className="py-3 bg-white/5 border border-white/10 rounded-2xl text-xs font-black text-slate-400 hover:text-white transition-all active:scale-95">
+              {t.load_more}
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3 p-6 border-t border-white/5">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest me-auto">{t.export_file}</span>
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => onExport(f.id)}
+                className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 hover:text-white transition-all active:scale-95"
+              >
+                {f.label}
+              </button>
+            ))}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 bg-blue-600 rounded-xl text-[10px] font-black text-white transition-all active:scale-95"
+            >
+              {t.import_file}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {notice && <p className="text-xs text-slate-400 text-center">{notice}</p>}
+          <button onClick={onClearAll} className="w-full py-3 bg-red-500/10 border border-red-500/20 rounded-2xl text-xs font-black text-red-400 transition-all active:scale-95">
+            {t.clear_history}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryLibrary;
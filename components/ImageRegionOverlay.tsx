@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { I18N } from '../constants';
+import { LanguageOption, SupportedLanguageCode, TextRegion } from '../types';
+
+interface ImageRegionOverlayProps {
+  imageSrc: string;
+  regions: TextRegion[];
+  targetLang: LanguageOption;
+  onPlay: (text: string, locale: string) => void;
+  onExport: () => void;
+  isExporting: boolean;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const percent = (value: number) => `${value * 100}%`;
+
+const ImageRegionOverlay: React.FC<ImageRegionOverlayProps> = ({ imageSrc, regions, targetLang, onPlay, onExport, isExporting, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [selected, setSelected] = useState<number | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  useEffect(() => setSelected(null), [imageSrc, regions]);
+
+  if (regions.length === 0) return null;
+  const region = selected !== null ? regions[selected] : null;
+  const dir = targetLang.rtl ? 'rtl' : 'ltr';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between ms-2">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{t.image_regions}</p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowOriginal(prev => !prev)}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 hover:text-white transition-all active:scale-95"
+          >
+            {showOriginal ? t.region_show_translation : t.region_show_original}
+          </button>
+          <button
+            onClick={onExport}
+            disabled={isExporting}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 hover:text-white transition-all active:scale-95 disabled:opacity-30"
+          >
+            {t.export_image}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative w-full overflow-hidden rounded-3xl border border-white/5 bg-black/20">
+        <img src={imageSrc} alt="" className="block w-full h-auto" />
+        {!showOriginal && regions.map((r, i) => (
+          <button
+            key={i}
+            onClick={() => setSelected(i === selected ? null : i)}
+            dir={dir}
+            style={{ left: percent(r.box.x), top: percent(r.box.y), width: percent(r.box.width), height: percent(r.box.height) }}
+            className={`absolute flex items-center justify-center overflow-hidden px-1 rounded-md border text-[10px] leading-tight font-bold text-white text-center transition-all ${
+              i === selected ? 'bg-blue-600/90 border-blue-300 z-10' : 'bg-slate-900/80 border-white/20 hover:border-blue-400'
+            }`}
+          >
+            {r.translated_text}
+          </button>
+        ))}
+      </div>
+
+      {region ? (
+        <div className="flex flex-col gap-2 bg-black/20 px-4 py-3 rounded-2xl border border-white/5">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex flex-col gap-1 min-w-0">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{t.region_original}</span>
+              <span className="text-sm text-slate-300 break-words">{region.original_text}</span>
+            </div>
+            <button
+              onClick={() => onPlay(region.translated_text, targetLang.ttsLocale)}
+              className="p-2 rounded-xl bg-white/5 border border-white/10 text-slate-300 hover:text-white transition-all active:scale-95 shrink-0"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            </button>
+          </div>
+          <span className="text-base font-black text-blue-300 break-words" dir={dir}>{targetLang.flag} {region.translated_text}</span>
+          {region.phonetic && <span className="text-xs italic text-slate-500">{region.phonetic}</span>}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 text-center">{t.region_hint}</p>
+      )}
+    </div>
+  );
+};
+
+export default ImageRegionOverlay;
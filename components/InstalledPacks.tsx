@@ -0,0 +1,68 @@
+import React from 'react';
+import { SUPPORTED_LANGUAGES, I18N } from '../constants';
+import { formatMessage } from '../i18n';
+import { OfflinePack, SupportedLanguageCode } from '../types';
+
+interface InstalledPacksProps {
+  packs: OfflinePack[];
+  busyCode: SupportedLanguageCode | null;
+  isOnline: boolean;
+  onUpdate: (code: SupportedLanguageCode) => void;
+  onDelete: (code: SupportedLanguageCode) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const InstalledPacks: React.FC<InstalledPacksProps> = ({ packs, busyCode, isOnline, onUpdate, onDelete, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const installed = packs.filter(p => p.isDownloaded);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.installed_packs}</p>
+      {installed.length === 0 ? (
+        <p className="text-sm text-slate-500 bg-black/20 p-5 rounded-3xl border border-white/5 text-center">{t.no_packs_installed}</p>
+      ) : (
+        installed.map(pack => {
+          const lang = SUPPORTED_LANGUAGES.find(l => l.code === pack.code);
+          const isBusy = busyCode === pack.code;
+          return (
+            <div key={pack.code} className="flex items-center justify-between gap-4 bg-black/20 p-4 rounded-3xl border border-white/5 shadow-inner">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-2xl">{lang?.flag}</span>
+                <div className="flex flex-col min-w-0">
+                  <span className="text-sm font-black text-white truncate">{lang?.nativeName || pack.name}</span>
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    {t.pack_version} {pack.installedVersion} · {pack.size} · {formatMessage(t.pack_phrases, { count: pack.phraseCount ?? 0 }, motherLangCode)}
+                  </span>
+                  {pack.updateAvailable && (
+                    <span className="text-[9px] font-black text-emerald-500 uppercase tracking-widest">{t.pack_update_available} ({pack.latestVersion})</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {pack.updateAvailable && (
+                  <button
+                    onClick={() => onUpdate(pack.code)}
+                    disabled={!isOnline || busyCode !== null}
+                    className="px-4 py-2 bg-blue-600 rounded-xl text-xs font-black text-white transition-all active:scale-95 disabled:opacity-30"
+                  >
+                    {isBusy ? t.downloading : t.pack_update}
+                  </button>
+                )}
+                <button
+                  onClick={() => onDelete(pack.code)}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-black text-slate-400 hover:text-red-400 transition-all active:scale-95 disabled:opacity-30"
+                >
+                  {t.pack_delete}
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default InstalledPacks;
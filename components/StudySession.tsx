@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { I18N } from '../constants';
+import { formatMessage } from '../i18n';
+import { StudyGrade, StudyQueueEntry, SupportedLanguageCode } from '../types';
+
+interface StudySessionProps {
+  queue: StudyQueueEntry[];
+  reviewed: number;
+  isLoading: boolean;
+  onGrade: (entry: StudyQueueEntry, grade: StudyGrade) => void;
+  onPlay: (text: string, locale: string, historyId: string) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const GRADES: { id: StudyGrade; className: string }[] = [
+  { id: 'again', className: 'bg-red-500/10 border-red-500/20 text-red-400' },
+  { id: 'hard', className: 'bg-amber-500/10 border-amber-500/20 text-amber-400' },
+  { id: 'good', className: 'bg-blue-600/20 border-blue-500/30 text-blue-300' },
+  { id: 'easy', className: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' },
+];
+
+const StudySession: React.FC<StudySessionProps> = ({ queue, reviewed, isLoading, onGrade, onPlay, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const [revealed, setRevealed] = useState(false);
+  const current = queue[0];
+
+  useEffect(() => setRevealed(false), [current?.card.id, reviewed]);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500 text-center py-12">{t.study_loading}</p>;
+  }
+
+  if (!current) {
+    return (
+      <div className="flex flex-col items-center gap-2 bg-black/20 p-8 rounded-3xl border border-white/5 text-center">
+        <p className="text-lg font-black text-white">{reviewed > 0 ? t.study_done : t.study_empty}</p>
+        <p className="text-sm text-slate-500">{t.study_hint}</p>
+      </div>
+    );
+  }
+
+  const { item } = current;
+  const play = () => onPlay(item.translated_text, item.targetLangLocale, item.id);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between px-2">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{t.study}</p>
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+          {formatMessage(t.study_remaining, { count: queue.length }, motherLangCode)}
+        </p>
+      </div>
+
+      <button
+        onClick={() => setRevealed(true)}
+        disabled={revealed}
+        className="flex flex-col items-center justify-center gap-4 min-h-[14rem] bg-black/20 p-8 rounded-3xl border border-white/5 shadow-inner text-center transition-all"
+      >
+        <span className="text-xl font-black text-white break-words">{item.original_text}</span>
+        {revealed ? (
+          <>
+            <span className="w-12 h-px bg-white/10" />
+            <span className="text-2xl font-black text-blue-300 break-words">{item.targetLangFlag} {item.translated_text}</span>
+            {item.phonetic && <span className="text-sm italic text-slate-400">{item.phonetic}</span>}
+          </>
+        ) : (
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">{t.study_reveal}</span>
+        )}
+      </button>
+
+      {revealed && (
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={play}
+            className="flex items-center justify-center gap-2 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-black text-slate-300 hover:text-white transition-all active:scale-95"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            {t.study_listen}
+          </button>
+          <div className="grid grid-cols-4 gap-2">
+            {GRADES.map(g => (
+              <button
+                key={g.id}
+                onClick={() => onGrade(current, g.id)}
+                className={`py-3 border rounded-2xl text-xs font-black transition-all active:scale-95 ${g.className}`}
+              >
+                {t[`grade_${g.id}` as const]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudySession;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { LanguageOption } from '../types';
+
+interface VariantSelectorProps {
+  language: LanguageOption;
+  onChange: (variantId: string) => void;
+  disabled?: boolean;
+}
+
+// Shown under a language selector when that language has regional variants or scripts
+const VariantSelector: React.FC<VariantSelectorProps> = ({ language, onChange, disabled }) => {
+  if (!language.variants || language.variants.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5 ms-1">
+      {language.variants.map(variant => (
+        <button
+          key={variant.id}
+          onClick={() => onChange(variant.id)}
+          disabled={disabled}
+          className={`px-3 py-1 rounded-lg text-[10px] font-black tracking-wide border transition-all active:scale-95 disabled:opacity-30 ${language.variant?.id === variant.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+        >
+          {variant.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default VariantSelector;
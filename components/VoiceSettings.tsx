@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { I18N } from '../constants';
+import { LanguageOption, SpeechSettings, SpeechVoice, SupportedLanguageCode } from '../types';
+import { getSpeechProvider, listSpeechProviders } from '../services/speech';
+
+interface VoiceSettingsProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+  languages: LanguageOption[];
+  onPreview: (text: string, locale: string) => void;
+  motherLangCode: SupportedLanguageCode;
+}
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ settings, onChange, languages, onPreview, motherLangCode }) => {
+  const t = I18N[motherLangCode] || I18N.en;
+  const providers = listSpeechProviders();
+  const [voices, setVoices] = useState<Partial<Record<SupportedLanguageCode, SpeechVoice[]>>>({});
+  const localeKey = languages.map(l => l.ttsLocale).join(',');
+
+  useEffect(() => {
+    let stale = false;
+    const provider = getSpeechProvider(settings.provider);
+    Promise.all(languages.map(async l => [l.code, await provider.listVoices(l.ttsLocale)] as const))
+      .then(entries => !stale && setVoices(Object.fromEntries(entries)))
+      .catch(e => console.error('Failed to list voices', e));
+    return () => {
+      stale = true;
+    };
+  }, [settings.provider, localeKey]);
+
+  const setVoice = (code: SupportedLanguageCode, voiceId: string) =>
+    onChange({
+      ...settings,
+      voices: { ...settings.voices, [settings.provider]: { ...settings.voices[settings.provider], [code]: voiceId || undefined } },
+    });
+
+  const selectClass = 'flex-1 min-w-0 bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] ms-2">{t.voice}</p>
+      <div className="flex flex-col gap-4 bg-black/20 p-4 rounded-3xl border border-white/5 shadow-inner">
+        {providers.length > 1 && (
+          <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+            {providers.map(p => (
+              <button
+                key={p.id}
+                onClick={() => onChange({ ...settings, provider: p.id })}
+                className={`flex-1 py-2 rounded-lg text-xs font-black transition-all ${settings.provider === p.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-600/20' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {t[`voice_provider_${p.id}` as const]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {languages.map(lang => (
+          <div key={lang.code} className="flex items-center gap-2">
+            <span className="text-lg shrink-0">{lang.flag}</span>
+            <select
+              value={settings.voices[settings.provider]?.[lang.code] || ''}
+              onChange={e => setVoice(lang.code, e.target.value)}
+              className={selectClass}
+              aria-label={`${t.voice} · ${lang.nativeName}`}
+            >
+              <option value="">{t.voice_automatic}</option>
+              {(voices[lang.code] || []).map(v => (
+                <option key={v.id} value={v.id}>{v.locale ? `${v.name} (${v.locale})` : v.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onPreview(lang.nativeName, lang.ttsLocale)}
+              className="p-2 bg-white/5 border border-white/10 rounded-xl text-slate-400 hover:text-white transition-all active:scale-95"
+              aria-label={t.voice_preview}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            </button>
+          </div>
+        ))}
+        {settings.provider === 'browser' && languages.some(l => voices[l.code]?.length === 0) && (
+          <p className="text-xs text-amber-300">{t.voice_missing}</p>
+        )}
+
+        {(['rate', 'pitch'] as const).map(field => (
+          <label key={field} className="flex items-center gap-3">
+            <span className="text-xs font-bold text-slate-400 w-20 shrink-0">{t[`voice_${field}` as const]}</span>
+            <input
+              type="range"
+              min={0.5}
+              max={2}
+              step={0.05}
+              value={settings[field]}
+              onChange={e => onChange({ ...settings, [field]: Number(e.target.value) })}
+              className="flex-1 accent-blue-600"
+            />
+            <span className="text-xs font-black text-slate-300 tabular-nums w-10 text-end">{settings[field].toFixed(2)}×</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettings;
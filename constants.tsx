@@ -1,53 +1,208 @@
 
 import { LanguageOption, SupportedLanguageCode } from './types';
+import { LANGUAGE_REGISTRY } from './languages';
 
-export const SUPPORTED_LANGUAGES: LanguageOption[] = [
-  { code: 'en', name: 'English', nativeName: 'English', ttsLocale: 'en-US', flag: '🇺🇸' },
-  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', ttsLocale: 'id-ID', flag: '🇮🇩' },
-  { code: 'zh', name: 'Chinese', nativeName: '普通话', ttsLocale: 'zh-CN', flag: '🇨🇳' },
-  { code: 'es', name: 'Spanish', nativeName: 'Español', ttsLocale: 'es-ES', flag: '🇪🇸' },
-  { code: 'ko', name: 'Korean', nativeName: '한국어', ttsLocale: 'ko-KR', flag: '🇰🇷' },
-  { code: 'ja', name: 'Japanese', nativeName: '日本語', ttsLocale: 'ja-JP', flag: '🇯🇵' },
-  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', ttsLocale: 'nl-NL', flag: '🇳🇱' },
-  { code: 'ar', name: 'Arabic', nativeName: 'العربية', ttsLocale: 'ar-SA', flag: '🇸🇦' },
-];
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [...LANGUAGE_REGISTRY];
 
-export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
-  en: {
-    voice: "Voice", dictate: "Dictate", text: "Text", photo: "Photo",
-    mother_lang: "Your Language (Auto-Detect)", translate_to: "Translate To",
-    mic_sensitivity: "Mic Sensitivity", playback_volume: "Playback Volume",
-    hold_to_speak: "Hold to Speak", listening: "Listening Now", processing: "Processing...",
-    scanning: "Scanning Image...", retry: "Retry", translate_photo: "Translate Photo",
-    translate: "Translate", type_placeholder: "Type or paste text...",
-    history: "History", saved_entries: "Saved Entries", history_empty: "History is empty",
-    clear_history: "Clear Entire History", dismiss: "Dismiss", detected: "Detected",
-    sign_in: "Sign In", sign_up: "Sign Up", start_now: "Start Now",
-    welcome: "Welcome to IVoice", choose_lang: "Choose your language to start",
-    step_config: "Step 1: Configuration", ctrl_enter: "Ctrl + Enter to send",
-    quiet: "Quiet", standard: "Standard", boost: "Boost",
-    muted: "Muted", half: "Half", full: "Full",
-    capture_hint: "Take a photo or upload a screenshot",
-    empty_hint: "Speak or type to translate",
-    auto_detect: "Auto-Detect Active",
-    premium_title: "Unlock Global Limits",
-    premium_desc: "You've reached your daily free limit. Upgrade to IVoice Premium for unlimited magical translations.",
-    premium_button: "Unlock Premium for $11/week",
-    restore_purchase: "Restore Purchase",
-    daily_limit_hit: "Daily limit reached. Upgrade for more!",
-    premium_feature_1: "Unlimited Daily Translations",
-    premium_feature_2: "Full Voice Synthesis Quality",
-    premium_feature_3: "Ad-Free Magical Experience",
-    premium_feature_4: "Offline Translation Mode",
-    offline_mode: "Offline Mode",
-    offline_active: "Local Engine Active",
-    download_packs: "Offline Language Packs",
-    download: "Download",
-    downloading: "Downloading...",
-    downloaded: "Downloaded",
-    premium_only: "Premium Feature Only",
-    offline_engine_ready: "Offline translation ready for this language"
-  },
+// Resolves a language with the user's chosen variant applied, falling back to its default variant
+export const resolveLanguage = (code: SupportedLanguageCode, variantId?: string): LanguageOption => {
+  const lang = SUPPORTED_LANGUAGES.find(l => l.code === code)!;
+  const variant = lang.variants?.find(v => v.id === variantId) || lang.variants?.[0];
+  return variant ? { ...lang, variant, ttsLocale: variant.ttsLocale } : lang;
+};
+
+// English is the message schema: other blocks may only use its keys (see i18n.ts for the missing-key check)
+const EN_MESSAGES = {
+  voice: "Voice", dictate: "Dictate", text: "Text", photo: "Photo",
+  mother_lang: "Your Language (Auto-Detect)", translate_to: "Translate To",
+  mic_sensitivity: "Mic Sensitivity", playback_volume: "Playback Volume",
+  hold_to_speak: "Hold to Speak", listening: "Listening Now", processing: "Processing...",
+  scanning: "Scanning Image...", retry: "Retry", translate_photo: "Translate Photo",
+  translate: "Translate", type_placeholder: "Type or paste text...",
+  history: "History", saved_entries: "Saved Entries", history_empty: "History is empty",
+  clear_history: "Clear Entire History", dismiss: "Dismiss", detected: "Detected",
+  sign_in: "Sign In", sign_up: "Sign Up", start_now: "Start Now",
+  welcome: "Welcome to IVoice", choose_lang: "Choose your language to start",
+  step_config: "Step 1: Configuration", ctrl_enter: "Ctrl + Enter to send",
+  quiet: "Quiet", standard: "Standard", boost: "Boost",
+  muted: "Muted", half: "Half", full: "Full",
+  capture_hint: "Take a photo or upload a screenshot",
+  empty_hint: "Speak or type to translate",
+  auto_detect: "Auto-Detect Active",
+  premium_title: "Unlock Global Limits",
+  premium_desc: "You've reached your daily free limit. Upgrade to IVoice Premium for unlimited magical translations.",
+  premium_button: "Unlock Premium for $11/week",
+  restore_purchase: "Restore Purchase",
+  daily_limit_hit: "Daily limit reached. Upgrade for more!",
+  premium_feature_1: "Unlimited Daily Translations",
+  premium_feature_2: "Full Voice Synthesis Quality",
+  premium_feature_3: "Ad-Free Magical Experience",
+  premium_feature_4: "Offline Translation Mode",
+  offline_mode: "Offline Mode",
+  offline_active: "Local Engine Active",
+  download_packs: "Offline Language Packs",
+  download: "Download",
+  downloading: "Downloading...",
+  downloaded: "Downloaded",
+  premium_only: "Premium Feature Only",
+  offline_engine_ready: "Offline translation ready for this language",
+  installed_packs: "Installed Packs",
+  no_packs_installed: "No language packs installed yet",
+  pack_version: "Version",
+  pack_phrases: "{count, plural, one {# phrase} other {# phrases}}",
+  pack_update: "Update",
+  pack_update_available: "Update available",
+  pack_delete: "Delete",
+  error_safety_block: "The content was blocked for safety reasons.",
+  error_recitation_block: "The engine detected copyrighted material and cannot translate it.",
+  error_quota_exceeded: "The translation engine is over capacity right now.",
+  error_network: "The translation engine could not be reached.",
+  error_server: "The translation engine ran into a problem.",
+  error_invalid_response: "The translation engine returned an unreadable answer.",
+  error_unsupported_media: "This kind of input is not supported by the current engine.",
+  error_auth: "The translation engine rejected the app's credentials.",
+  error_offline_unavailable: "This feature is not available offline.",
+  error_no_speech: "No speech was recognized.",
+  error_unknown: "An unexpected error occurred in the translation engine.",
+  action_rephrase: "Try using more common words.",
+  action_wait_and_retry: "Please wait a moment and try again.",
+  action_check_connection: "Check your internet connection and try again.",
+  action_retry: "Please try again.",
+  action_switch_mode: "Try another mode, such as text.",
+  action_check_settings: "Check the engine settings or contact support.",
+  action_speak_again: "Speak closer to the microphone or try a phrase from your language pack.",
+  error_microphone: "Microphone access denied or not found.",
+  error_offline_premium: "Offline translation is a Premium feature. Please connect to the internet to upgrade.",
+  error_pack_missing: "The {lang} pack is not downloaded. Connect to the internet and go to Settings to download it for offline use.",
+  error_image_offline: "Visual intelligence requires a cloud connection. Please connect to the internet to scan images.",
+  cancel: "Cancel",
+  error_timeout: "The translation took too long.",
+  error_cancelled: "The translation was cancelled.",
+  search_history: "Search history",
+  all_modes: "All",
+  current_pair: "Current pair",
+  starred_only: "Starred",
+  date_from: "From",
+  date_to: "To",
+  add_tag: "+ tag",
+  load_more: "Load more",
+  export_file: "Export",
+  import_file: "Import",
+  import_done: "Imported {added} new and {updated} updated entries.",
+  import_failed: "This file couldn't be imported. Choose a JSON history export from IVoice.",
+  study: "Study",
+  study_loading: "Loading cards...",
+  study_empty: "No cards are due",
+  study_done: "Session complete",
+  study_hint: "Star phrases in your history to add them to your deck.",
+  study_remaining: "{count, plural, one {# card left} other {# cards left}}",
+  study_reveal: "Tap to reveal",
+  study_listen: "Listen",
+  grade_again: "Again",
+  grade_hard: "Hard",
+  grade_good: "Good",
+  grade_easy: "Easy",
+  glossary: "Glossary",
+  glossary_term: "Term",
+  glossary_translation: "Always translate as",
+  glossary_keep: "Don't translate",
+  glossary_add: "Add",
+  glossary_empty: "No glossary entries for this language pair yet.",
+  glossary_imported: "{count, plural, one {Imported # glossary entry.} other {Imported # glossary entries.}}",
+  glossary_import_failed: "This file couldn't be imported. Choose a JSON glossary export from IVoice.",
+  glossary_issues: "Glossary not followed",
+  glossary_issue: "\"{term}\" should be rendered as \"{expected}\".",
+  formality: "Register",
+  formality_formal: "Formal",
+  formality_neutral: "Neutral",
+  formality_casual: "Casual",
+  alternatives: "Other ways to say it",
+  alternative_previous: "Previous suggestion",
+  image_regions: "Text in photo",
+  region_hint: "Tap a highlighted area to see its details.",
+  region_original: "Original",
+  region_show_original: "Show photo",
+  region_show_translation: "Show translations",
+  export_image: "Save image",
+  document: "Document",
+  document_choose: "Choose a document",
+  document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+  document_reading: "Reading document…",
+  document_progress: "{done} of {total} parts",
+  document_failed: "{count, plural, one {# part could not be translated.} other {# parts could not be translated.}}",
+  document_translate: "Translate document",
+  document_resume: "Continue",
+  document_retry: "Retry failed parts",
+  document_download: "Download translation",
+  document_build_failed: "The translated file could not be created.",
+  error_document_offline: "Document translation requires a cloud connection. Please connect to the internet.",
+  subtitle_bilingual: "Bilingual subtitles (original above translation)",
+  audio_file: "Audio file",
+  audio_file_choose: "Choose a recording",
+  audio_file_reading: "Preparing recording…",
+  audio_file_progress: "{done} of {total} segments",
+  audio_file_failed: "{count, plural, one {# segment could not be translated.} other {# segments could not be translated.}}",
+  audio_file_translate: "Transcribe and translate",
+  audio_file_retry: "Retry failed segments",
+  audio_file_no_speech: "No speech",
+  audio_file_segment_failed: "This segment could not be translated.",
+  audio_file_unreadable: "This audio file could not be read. Try MP3, M4A, WAV, OGG or WebM.",
+  error_audio_file_offline: "Translating recordings requires a cloud connection. Please connect to the internet.",
+  hands_free: "Hands-free",
+  vad_silence: "Stop after silence",
+  hands_free_start: "Start listening",
+  hands_free_stop: "Stop listening",
+  hands_free_waiting: "Waiting for speech…",
+  input_level: "Input level",
+  error_audio_too_large: "The recording is too long to translate in one go.",
+  action_record_shorter: "Record a shorter message, or use the Audio file mode for long recordings.",
+  voice_automatic: "Automatic",
+  voice_preview: "Preview voice",
+  voice_missing: "This device has no voice for one of these languages. Natural voices are used for it while online.",
+  voice_rate: "Speed",
+  voice_pitch: "Pitch",
+  voice_provider_browser: "Device voices",
+  voice_provider_gemini: "Natural voices",
+  auth_name: "Name",
+  auth_email: "Email",
+  auth_password: "Password",
+  auth_new_password: "New password",
+  auth_password_hint: "At least 8 characters",
+  auth_forgot: "Forgot password?",
+  auth_reset_title: "Reset Password",
+  auth_send_code: "Send Reset Code",
+  auth_code_sent: "If an account exists for {email}, a reset code is on its way.",
+  auth_reset_code: "Reset code",
+  auth_set_password: "Set New Password",
+  auth_password_changed: "Password changed. Sign in with your new password.",
+  auth_back: "Back to sign in",
+  auth_no_account: "No account yet?",
+  auth_have_account: "Already have an account?",
+  account: "Account",
+  sign_out: "Sign Out",
+  delete_account: "Delete Account",
+  delete_account_confirm: "This permanently deletes your account, along with the history, study cards, glossary and cached translations on this device. Enter your password to confirm.",
+  auth_error_invalid_request: "Please fill in every field.",
+  auth_error_invalid_credentials: "Wrong email or password.",
+  auth_error_email_taken: "An account with this email already exists.",
+  auth_error_weak_password: "Passwords need at least 8 characters.",
+  auth_error_invalid_token: "Your session has expired. Please sign in again.",
+  auth_error_invalid_code: "The reset code is wrong or has expired.",
+  auth_error_network: "Can't reach the account server. Check your connection.",
+  auth_error_server: "The account server ran into a problem. Try again shortly.",
+  auth_error_quota_exceeded: "You've used today's free translations.",
+  error_offline_no_match: "No offline phrase matches what you said or typed.",
+  error_offline_voice_not_ready: "Offline voice isn't ready yet. Connect to the internet once so the speech model can download.",
+  import_skipped: "{count, plural, one {# entry was} other {# entries were}} skipped because they could not be read.",
+  error_usage_unavailable: "Can't confirm your daily allowance with the server. Check your connection and try again."
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+export type Messages = Record<MessageKey, string>;
+
+// Languages without a block here use the English strings
+const UI_STRINGS: { en: Messages } & Partial<Record<SupportedLanguageCode, Partial<Messages>>> = {
+  en: EN_MESSAGES,
   id: {
     voice: "Suara", dictate: "Dikte", text: "Teks", photo: "Foto",
     mother_lang: "Bahasa Anda (Deteksi Otomatis)", translate_to: "Terjemahkan Ke",
@@ -81,7 +236,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "Mengunduh...",
     downloaded: "Terunduh",
     premium_only: "Fitur Khusus Premium",
-    offline_engine_ready: "Terjemahan offline siap untuk bahasa ini"
+    offline_engine_ready: "Terjemahan offline siap untuk bahasa ini",
+    installed_packs: "Paket Terpasang",
+    no_packs_installed: "Belum ada paket bahasa yang terpasang",
+    pack_version: "Versi",
+    pack_phrases: "{count, plural, other {# frasa}}",
+    pack_update: "Perbarui",
+    pack_update_available: "Pembaruan tersedia",
+    pack_delete: "Hapus",
+    error_safety_block: "Konten diblokir karena alasan keamanan.",
+    error_recitation_block: "Mesin mendeteksi materi berhak cipta dan tidak dapat menerjemahkannya.",
+    error_quota_exceeded: "Mesin terjemahan sedang kelebihan beban.",
+    error_network: "Mesin terjemahan tidak dapat dihubungi.",
+    error_server: "Mesin terjemahan mengalami masalah.",
+    error_invalid_response: "Mesin terjemahan memberikan jawaban yang tidak terbaca.",
+    error_unsupported_media: "Jenis input ini tidak didukung oleh mesin saat ini.",
+    error_auth: "Mesin terjemahan menolak kredensial aplikasi.",
+    error_offline_unavailable: "Fitur ini tidak tersedia secara offline.",
+    error_no_speech: "Tidak ada ucapan yang dikenali.",
+    error_unknown: "Terjadi kesalahan tak terduga pada mesin terjemahan.",
+    action_rephrase: "Coba gunakan kata-kata yang lebih umum.",
+    action_wait_and_retry: "Harap tunggu sebentar lalu coba lagi.",
+    action_check_connection: "Periksa koneksi internet Anda lalu coba lagi.",
+    action_retry: "Silakan coba lagi.",
+    action_switch_mode: "Coba mode lain, misalnya teks.",
+    action_check_settings: "Periksa pengaturan mesin atau hubungi dukungan.",
+    action_speak_again: "Bicaralah lebih dekat ke mikrofon atau coba frasa dari paket bahasa Anda.",
+    error_microphone: "Akses mikrofon ditolak atau tidak ditemukan.",
+    error_offline_premium: "Terjemahan offline adalah fitur Premium. Sambungkan ke internet untuk meningkatkan.",
+    error_pack_missing: "Paket {lang} belum diunduh. Sambungkan ke internet dan buka Pengaturan untuk mengunduhnya.",
+    error_image_offline: "Pemindaian gambar memerlukan koneksi cloud. Sambungkan ke internet untuk memindai gambar.",
+    cancel: "Batal",
+    error_timeout: "Terjemahan memakan waktu terlalu lama.",
+    error_cancelled: "Terjemahan dibatalkan.",
+    search_history: "Cari riwayat",
+    all_modes: "Semua",
+    current_pair: "Pasangan saat ini",
+    starred_only: "Berbintang",
+    date_from: "Dari",
+    date_to: "Sampai",
+    add_tag: "+ tag",
+    load_more: "Muat lebih banyak",
+    export_file: "Ekspor",
+    import_file: "Impor",
+    import_done: "Berhasil mengimpor {added} entri baru dan {updated} entri yang diperbarui.",
+    import_failed: "File ini tidak dapat diimpor. Pilih file ekspor riwayat JSON dari IVoice.",
+    study: "Belajar",
+    study_loading: "Memuat kartu...",
+    study_empty: "Tidak ada kartu yang jatuh tempo",
+    study_done: "Sesi selesai",
+    study_hint: "Beri bintang pada frasa di riwayat untuk menambahkannya ke dek Anda.",
+    study_remaining: "{count, plural, other {# kartu tersisa}}",
+    study_reveal: "Ketuk untuk melihat",
+    study_listen: "Dengarkan",
+    grade_again: "Lagi",
+    grade_hard: "Sulit",
+    grade_good: "Baik",
+    grade_easy: "Mudah",
+    glossary: "Glosarium",
+    glossary_term: "Istilah",
+    glossary_translation: "Selalu terjemahkan sebagai",
+    glossary_keep: "Jangan terjemahkan",
+    glossary_add: "Tambah",
+    glossary_empty: "Belum ada entri glosarium untuk pasangan bahasa ini.",
+    glossary_imported: "{count, plural, other {Berhasil mengimpor # entri glosarium.}}",
+    glossary_import_failed: "File ini tidak dapat diimpor. Pilih file ekspor glosarium JSON dari IVoice.",
+    glossary_issues: "Glosarium tidak diikuti",
+    glossary_issue: "\"{term}\" seharusnya diterjemahkan sebagai \"{expected}\".",
+    formality: "Ragam bahasa",
+    formality_formal: "Formal",
+    formality_neutral: "Netral",
+    formality_casual: "Santai",
+    alternatives: "Cara lain untuk mengatakannya",
+    alternative_previous: "Saran sebelumnya",
+    image_regions: "Teks di foto",
+    region_hint: "Ketuk area yang disorot untuk melihat detailnya.",
+    region_original: "Asli",
+    region_show_original: "Lihat foto",
+    region_show_translation: "Lihat terjemahan",
+    export_image: "Simpan gambar",
+    document: "Dokumen",
+    document_choose: "Pilih dokumen",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "Membaca dokumen…",
+    document_progress: "{done} dari {total} bagian",
+    document_failed: "{count, plural, other {# bagian tidak dapat diterjemahkan.}}",
+    document_translate: "Terjemahkan dokumen",
+    document_resume: "Lanjutkan",
+    document_retry: "Coba lagi bagian yang gagal",
+    document_download: "Unduh terjemahan",
+    document_build_failed: "File terjemahan tidak dapat dibuat.",
+    error_document_offline: "Terjemahan dokumen memerlukan koneksi cloud. Sambungkan ke internet.",
+    subtitle_bilingual: "Subtitle dwibahasa (asli di atas terjemahan)",
+    audio_file: "File audio",
+    audio_file_choose: "Pilih rekaman",
+    audio_file_reading: "Menyiapkan rekaman…",
+    audio_file_progress: "{done} dari {total} segmen",
+    audio_file_failed: "{count, plural, other {# segmen tidak dapat diterjemahkan.}}",
+    audio_file_translate: "Transkripsi dan terjemahkan",
+    audio_file_retry: "Coba lagi segmen yang gagal",
+    audio_file_no_speech: "Tidak ada ucapan",
+    audio_file_segment_failed: "Segmen ini tidak dapat diterjemahkan.",
+    audio_file_unreadable: "File audio ini tidak dapat dibaca. Coba MP3, M4A, WAV, OGG, atau WebM.",
+    error_audio_file_offline: "Menerjemahkan rekaman memerlukan koneksi cloud. Sambungkan ke internet.",
+    hands_free: "Tanpa Tangan",
+    vad_silence: "Berhenti setelah hening",
+    hands_free_start: "Mulai mendengarkan",
+    hands_free_stop: "Berhenti mendengarkan",
+    hands_free_waiting: "Menunggu suara…",
+    input_level: "Level masukan",
+    error_audio_too_large: "Rekaman terlalu panjang untuk diterjemahkan sekaligus.",
+    action_record_shorter: "Rekam pesan yang lebih pendek, atau gunakan mode File audio untuk rekaman panjang.",
+    voice_automatic: "Otomatis",
+    voice_preview: "Dengarkan contoh suara",
+    voice_missing: "Perangkat ini tidak memiliki suara untuk salah satu bahasa ini. Suara alami digunakan saat online.",
+    voice_rate: "Kecepatan",
+    voice_pitch: "Nada",
+    voice_provider_browser: "Suara perangkat",
+    voice_provider_gemini: "Suara alami",
+    auth_name: "Nama",
+    auth_email: "Email",
+    auth_password: "Kata sandi",
+    auth_new_password: "Kata sandi baru",
+    auth_password_hint: "Minimal 8 karakter",
+    auth_forgot: "Lupa kata sandi?",
+    auth_reset_title: "Atur Ulang Kata Sandi",
+    auth_send_code: "Kirim Kode Reset",
+    auth_code_sent: "Jika ada akun untuk {email}, kode reset sedang dikirim.",
+    auth_reset_code: "Kode reset",
+    auth_set_password: "Simpan Kata Sandi Baru",
+    auth_password_changed: "Kata sandi diubah. Masuk dengan kata sandi baru Anda.",
+    auth_back: "Kembali ke masuk",
+    auth_no_account: "Belum punya akun?",
+    auth_have_account: "Sudah punya akun?",
+    account: "Akun",
+    sign_out: "Keluar",
+    delete_account: "Hapus Akun",
+    delete_account_confirm: "Ini menghapus akun Anda secara permanen, beserta riwayat, kartu belajar, glosarium, dan terjemahan tersimpan di perangkat ini. Masukkan kata sandi untuk konfirmasi.",
+    auth_error_invalid_request: "Harap isi semua kolom.",
+    auth_error_invalid_credentials: "Email atau kata sandi salah.",
+    auth_error_email_taken: "Akun dengan email ini sudah ada.",
+    auth_error_weak_password: "Kata sandi minimal 8 karakter.",
+    auth_error_invalid_token: "Sesi Anda telah berakhir. Silakan masuk lagi.",
+    auth_error_invalid_code: "Kode reset salah atau kedaluwarsa.",
+    auth_error_network: "Server akun tidak dapat dijangkau. Periksa koneksi Anda.",
+    auth_error_server: "Server akun mengalami masalah. Coba lagi sebentar lagi.",
+    auth_error_quota_exceeded: "Terjemahan gratis hari ini sudah habis.",
+    error_offline_no_match: "Tidak ada frasa offline yang cocok dengan ucapan atau ketikan Anda.",
+    error_offline_voice_not_ready: "Suara offline belum siap. Sambungkan ke internet sekali agar model suara dapat diunduh.",
+    import_skipped: "{count, plural, other {# entri}} dilewati karena tidak dapat dibaca.",
+    error_usage_unavailable: "Kuota harian Anda tidak dapat dikonfirmasi dengan server. Periksa koneksi Anda lalu coba lagi."
   },
   zh: {
     voice: "语音", dictate: "听写", text: "文本", photo: "照片",
@@ -116,7 +420,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "正在下载...",
     downloaded: "已下载",
     premium_only: "仅限高级功能",
-    offline_engine_ready: "该语言的离线翻译已就绪"
+    offline_engine_ready: "该语言的离线翻译已就绪",
+    installed_packs: "已安装的语言包",
+    no_packs_installed: "尚未安装任何语言包",
+    pack_version: "版本",
+    pack_phrases: "{count, plural, other {# 个短语}}",
+    pack_update: "更新",
+    pack_update_available: "有可用更新",
+    pack_delete: "删除",
+    error_safety_block: "内容因安全原因被拦截。",
+    error_recitation_block: "引擎检测到受版权保护的内容，无法翻译。",
+    error_quota_exceeded: "翻译引擎当前负载过高。",
+    error_network: "无法连接到翻译引擎。",
+    error_server: "翻译引擎出现问题。",
+    error_invalid_response: "翻译引擎返回了无法读取的结果。",
+    error_unsupported_media: "当前引擎不支持此类输入。",
+    error_auth: "翻译引擎拒绝了应用的凭据。",
+    error_offline_unavailable: "此功能无法离线使用。",
+    error_no_speech: "未识别到语音。",
+    error_unknown: "翻译引擎发生意外错误。",
+    action_rephrase: "请尝试使用更常见的词语。",
+    action_wait_and_retry: "请稍候再试。",
+    action_check_connection: "请检查网络连接后重试。",
+    action_retry: "请重试。",
+    action_switch_mode: "请尝试其他模式，例如文本。",
+    action_check_settings: "请检查引擎设置或联系支持。",
+    action_speak_again: "请靠近麦克风说话，或尝试语言包中的短语。",
+    error_microphone: "麦克风访问被拒绝或未找到。",
+    error_offline_premium: "离线翻译是高级功能。请连接互联网以升级。",
+    error_pack_missing: "尚未下载{lang}语言包。请连接互联网并前往设置下载以供离线使用。",
+    error_image_offline: "图像识别需要云端连接。请连接互联网以扫描图像。",
+    cancel: "取消",
+    error_timeout: "翻译耗时过长。",
+    error_cancelled: "翻译已取消。",
+    search_history: "搜索历史记录",
+    all_modes: "全部",
+    current_pair: "当前语言对",
+    starred_only: "已加星标",
+    date_from: "从",
+    date_to: "至",
+    add_tag: "+ 标签",
+    load_more: "加载更多",
+    export_file: "导出",
+    import_file: "导入",
+    import_done: "已导入 {added} 条新条目，更新 {updated} 条条目。",
+    import_failed: "无法导入此文件。请选择从 IVoice 导出的 JSON 历史记录文件。",
+    study: "学习",
+    study_loading: "正在加载卡片...",
+    study_empty: "没有到期的卡片",
+    study_done: "本次学习完成",
+    study_hint: "在历史记录中为短语加星标，即可将其加入卡组。",
+    study_remaining: "{count, plural, other {剩余 # 张}}",
+    study_reveal: "点击显示",
+    study_listen: "收听",
+    grade_again: "重来",
+    grade_hard: "困难",
+    grade_good: "良好",
+    grade_easy: "简单",
+    glossary: "术语表",
+    glossary_term: "术语",
+    glossary_translation: "始终翻译为",
+    glossary_keep: "不翻译",
+    glossary_add: "添加",
+    glossary_empty: "此语言对还没有术语条目。",
+    glossary_imported: "{count, plural, other {已导入 # 条术语。}}",
+    glossary_import_failed: "无法导入此文件。请选择从 IVoice 导出的 JSON 术语表文件。",
+    glossary_issues: "未遵循术语表",
+    glossary_issue: "“{term}”应译为“{expected}”。",
+    formality: "语体",
+    formality_formal: "正式",
+    formality_neutral: "中性",
+    formality_casual: "随意",
+    alternatives: "其他说法",
+    alternative_previous: "之前的建议",
+    image_regions: "照片中的文字",
+    region_hint: "点击高亮区域查看详情。",
+    region_original: "原文",
+    region_show_original: "查看原图",
+    region_show_translation: "查看译文",
+    export_image: "保存图片",
+    document: "文档",
+    document_choose: "选择文档",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "正在读取文档…",
+    document_progress: "第 {done} / {total} 部分",
+    document_failed: "{count, plural, other {有 # 个部分未能翻译。}}",
+    document_translate: "翻译文档",
+    document_resume: "继续",
+    document_retry: "重试失败的部分",
+    document_download: "下载译文",
+    document_build_failed: "无法生成翻译文件。",
+    error_document_offline: "文档翻译需要联网。请连接互联网。",
+    subtitle_bilingual: "双语字幕（原文在上，译文在下）",
+    audio_file: "音频文件",
+    audio_file_choose: "选择录音",
+    audio_file_reading: "正在准备录音…",
+    audio_file_progress: "第 {done} / {total} 段",
+    audio_file_failed: "{count, plural, other {有 # 段未能翻译。}}",
+    audio_file_translate: "转写并翻译",
+    audio_file_retry: "重试失败的片段",
+    audio_file_no_speech: "无语音",
+    audio_file_segment_failed: "此片段未能翻译。",
+    audio_file_unreadable: "无法读取此音频文件。请尝试 MP3、M4A、WAV、OGG 或 WebM。",
+    error_audio_file_offline: "翻译录音需要联网。请连接互联网。",
+    hands_free: "免提",
+    vad_silence: "静音后停止",
+    hands_free_start: "开始聆听",
+    hands_free_stop: "停止聆听",
+    hands_free_waiting: "等待说话…",
+    input_level: "输入音量",
+    error_audio_too_large: "录音太长，无法一次翻译。",
+    action_record_shorter: "请录制更短的内容，或使用音频文件模式翻译长录音。",
+    voice_automatic: "自动",
+    voice_preview: "试听语音",
+    voice_missing: "此设备缺少其中一种语言的语音。联网时将改用自然语音。",
+    voice_rate: "语速",
+    voice_pitch: "音调",
+    voice_provider_browser: "设备语音",
+    voice_provider_gemini: "自然语音",
+    auth_name: "姓名",
+    auth_email: "邮箱",
+    auth_password: "密码",
+    auth_new_password: "新密码",
+    auth_password_hint: "至少 8 个字符",
+    auth_forgot: "忘记密码？",
+    auth_reset_title: "重置密码",
+    auth_send_code: "发送重置码",
+    auth_code_sent: "如果 {email} 存在账户，重置码已在发送途中。",
+    auth_reset_code: "重置码",
+    auth_set_password: "设置新密码",
+    auth_password_changed: "密码已更改。请使用新密码登录。",
+    auth_back: "返回登录",
+    auth_no_account: "还没有账户？",
+    auth_have_account: "已有账户？",
+    account: "账户",
+    sign_out: "退出登录",
+    delete_account: "删除账户",
+    delete_account_confirm: "这将永久删除您的账户，以及本设备上的历史记录、学习卡片、术语表和缓存的翻译。请输入密码以确认。",
+    auth_error_invalid_request: "请填写所有字段。",
+    auth_error_invalid_credentials: "邮箱或密码错误。",
+    auth_error_email_taken: "该邮箱已注册账户。",
+    auth_error_weak_password: "密码至少需要 8 个字符。",
+    auth_error_invalid_token: "会话已过期，请重新登录。",
+    auth_error_invalid_code: "重置码错误或已过期。",
+    auth_error_network: "无法连接账户服务器，请检查网络。",
+    auth_error_server: "账户服务器出现问题，请稍后重试。",
+    auth_error_quota_exceeded: "今天的免费翻译次数已用完。",
+    error_offline_no_match: "没有与您所说或输入的内容匹配的离线短语。",
+    error_offline_voice_not_ready: "离线语音尚未就绪。请联网一次以下载语音模型。",
+    import_skipped: "{count, plural, other {# 条条目}}因无法读取而被跳过。",
+    error_usage_unavailable: "无法向服务器确认您的每日额度。请检查网络后重试。"
   },
   es: {
     voice: "Voz", dictate: "Dictado", text: "Texto", photo: "Foto",
@@ -151,7 +604,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "Descargando...",
     downloaded: "Descargado",
     premium_only: "Solo para Usuarios Premium",
-    offline_engine_ready: "Traducción offline lista para este idioma"
+    offline_engine_ready: "Traducción offline lista para este idioma",
+    installed_packs: "Paquetes Instalados",
+    no_packs_installed: "Aún no hay paquetes de idioma instalados",
+    pack_version: "Versión",
+    pack_phrases: "{count, plural, one {# frase} other {# frases}}",
+    pack_update: "Actualizar",
+    pack_update_available: "Actualización disponible",
+    pack_delete: "Eliminar",
+    error_safety_block: "El contenido fue bloqueado por motivos de seguridad.",
+    error_recitation_block: "El motor detectó material con derechos de autor y no puede traducirlo.",
+    error_quota_exceeded: "El motor de traducción está saturado en este momento.",
+    error_network: "No se pudo conectar con el motor de traducción.",
+    error_server: "El motor de traducción tuvo un problema.",
+    error_invalid_response: "El motor de traducción devolvió una respuesta ilegible.",
+    error_unsupported_media: "El motor actual no admite este tipo de entrada.",
+    error_auth: "El motor de traducción rechazó las credenciales de la app.",
+    error_offline_unavailable: "Esta función no está disponible sin conexión.",
+    error_no_speech: "No se reconoció ninguna voz.",
+    error_unknown: "Ocurrió un error inesperado en el motor de traducción.",
+    action_rephrase: "Intenta usar palabras más comunes.",
+    action_wait_and_retry: "Espera un momento e inténtalo de nuevo.",
+    action_check_connection: "Revisa tu conexión a internet e inténtalo de nuevo.",
+    action_retry: "Inténtalo de nuevo.",
+    action_switch_mode: "Prueba otro modo, como texto.",
+    action_check_settings: "Revisa la configuración del motor o contacta con soporte.",
+    action_speak_again: "Habla más cerca del micrófono o prueba una frase de tu paquete de idioma.",
+    error_microphone: "Acceso al micrófono denegado o no encontrado.",
+    error_offline_premium: "La traducción offline es una función Premium. Conéctate a internet para actualizar.",
+    error_pack_missing: "El paquete de {lang} no está descargado. Conéctate a internet y ve a Ajustes para descargarlo.",
+    error_image_offline: "El análisis de imágenes requiere conexión a la nube. Conéctate a internet para escanear imágenes.",
+    cancel: "Cancelar",
+    error_timeout: "La traducción tardó demasiado.",
+    error_cancelled: "La traducción fue cancelada.",
+    search_history: "Buscar en el historial",
+    all_modes: "Todo",
+    current_pair: "Par actual",
+    starred_only: "Destacados",
+    date_from: "Desde",
+    date_to: "Hasta",
+    add_tag: "+ etiqueta",
+    load_more: "Cargar más",
+    export_file: "Exportar",
+    import_file: "Importar",
+    import_done: "Se importaron {added} entradas nuevas y {updated} actualizadas.",
+    import_failed: "No se pudo importar este archivo. Elige una exportación JSON del historial de IVoice.",
+    study: "Estudiar",
+    study_loading: "Cargando tarjetas...",
+    study_empty: "No hay tarjetas pendientes",
+    study_done: "Sesión completada",
+    study_hint: "Destaca frases en tu historial para añadirlas a tu mazo.",
+    study_remaining: "{count, plural, one {Queda # tarjeta} other {Quedan # tarjetas}}",
+    study_reveal: "Toca para mostrar",
+    study_listen: "Escuchar",
+    grade_again: "Otra vez",
+    grade_hard: "Difícil",
+    grade_good: "Bien",
+    grade_easy: "Fácil",
+    glossary: "Glosario",
+    glossary_term: "Término",
+    glossary_translation: "Traducir siempre como",
+    glossary_keep: "No traducir",
+    glossary_add: "Añadir",
+    glossary_empty: "Aún no hay entradas de glosario para este par de idiomas.",
+    glossary_imported: "{count, plural, one {Se importó # entrada del glosario.} other {Se importaron # entradas del glosario.}}",
+    glossary_import_failed: "No se pudo importar este archivo. Elige una exportación JSON del glosario de IVoice.",
+    glossary_issues: "No se respetó el glosario",
+    glossary_issue: "\"{term}\" debería traducirse como \"{expected}\".",
+    formality: "Registro",
+    formality_formal: "Formal",
+    formality_neutral: "Neutro",
+    formality_casual: "Informal",
+    alternatives: "Otras formas de decirlo",
+    alternative_previous: "Sugerencia anterior",
+    image_regions: "Texto en la foto",
+    region_hint: "Toca un área resaltada para ver los detalles.",
+    region_original: "Original",
+    region_show_original: "Ver foto",
+    region_show_translation: "Ver traducciones",
+    export_image: "Guardar imagen",
+    document: "Documento",
+    document_choose: "Elige un documento",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "Leyendo documento…",
+    document_progress: "{done} de {total} partes",
+    document_failed: "{count, plural, one {No se pudo traducir # parte.} other {No se pudieron traducir # partes.}}",
+    document_translate: "Traducir documento",
+    document_resume: "Continuar",
+    document_retry: "Reintentar partes fallidas",
+    document_download: "Descargar traducción",
+    document_build_failed: "No se pudo crear el archivo traducido.",
+    error_document_offline: "La traducción de documentos requiere conexión a la nube. Conéctate a internet.",
+    subtitle_bilingual: "Subtítulos bilingües (original sobre la traducción)",
+    audio_file: "Archivo de audio",
+    audio_file_choose: "Elige una grabación",
+    audio_file_reading: "Preparando grabación…",
+    audio_file_progress: "{done} de {total} segmentos",
+    audio_file_failed: "{count, plural, one {No se pudo traducir # segmento.} other {No se pudieron traducir # segmentos.}}",
+    audio_file_translate: "Transcribir y traducir",
+    audio_file_retry: "Reintentar segmentos fallidos",
+    audio_file_no_speech: "Sin voz",
+    audio_file_segment_failed: "Este segmento no se pudo traducir.",
+    audio_file_unreadable: "No se pudo leer este archivo de audio. Prueba con MP3, M4A, WAV, OGG o WebM.",
+    error_audio_file_offline: "Traducir grabaciones requiere conexión a la nube. Conéctate a internet.",
+    hands_free: "Manos libres",
+    vad_silence: "Parar tras silencio",
+    hands_free_start: "Empezar a escuchar",
+    hands_free_stop: "Dejar de escuchar",
+    hands_free_waiting: "Esperando voz…",
+    input_level: "Nivel de entrada",
+    error_audio_too_large: "La grabación es demasiado larga para traducirla de una vez.",
+    action_record_shorter: "Graba un mensaje más corto o usa el modo Archivo de audio para grabaciones largas.",
+    voice_automatic: "Automática",
+    voice_preview: "Probar voz",
+    voice_missing: "Este dispositivo no tiene voz para uno de estos idiomas. Con conexión se usan voces naturales.",
+    voice_rate: "Velocidad",
+    voice_pitch: "Tono",
+    voice_provider_browser: "Voces del dispositivo",
+    voice_provider_gemini: "Voces naturales",
+    auth_name: "Nombre",
+    auth_email: "Correo electrónico",
+    auth_password: "Contraseña",
+    auth_new_password: "Nueva contraseña",
+    auth_password_hint: "Al menos 8 caracteres",
+    auth_forgot: "¿Olvidaste tu contraseña?",
+    auth_reset_title: "Restablecer Contraseña",
+    auth_send_code: "Enviar Código",
+    auth_code_sent: "Si existe una cuenta para {email}, el código de restablecimiento va en camino.",
+    auth_reset_code: "Código de restablecimiento",
+    auth_set_password: "Guardar Nueva Contraseña",
+    auth_password_changed: "Contraseña cambiada. Inicia sesión con tu nueva contraseña.",
+    auth_back: "Volver a iniciar sesión",
+    auth_no_account: "¿Aún no tienes cuenta?",
+    auth_have_account: "¿Ya tienes cuenta?",
+    account: "Cuenta",
+    sign_out: "Cerrar Sesión",
+    delete_account: "Eliminar Cuenta",
+    delete_account_confirm: "Esto elimina tu cuenta de forma permanente, junto con el historial, las tarjetas de estudio, el glosario y las traducciones guardadas en este dispositivo. Introduce tu contraseña para confirmar.",
+    auth_error_invalid_request: "Rellena todos los campos.",
+    auth_error_invalid_credentials: "Correo o contraseña incorrectos.",
+    auth_error_email_taken: "Ya existe una cuenta con este correo.",
+    auth_error_weak_password: "La contraseña necesita al menos 8 caracteres.",
+    auth_error_invalid_token: "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+    auth_error_invalid_code: "El código es incorrecto o ha caducado.",
+    auth_error_network: "No se puede conectar con el servidor de cuentas. Revisa tu conexión.",
+    auth_error_server: "El servidor de cuentas tuvo un problema. Inténtalo de nuevo en breve.",
+    auth_error_quota_exceeded: "Has usado las traducciones gratuitas de hoy.",
+    error_offline_no_match: "Ninguna frase sin conexión coincide con lo que dijiste o escribiste.",
+    error_offline_voice_not_ready: "La voz sin conexión aún no está lista. Conéctate a internet una vez para descargar el modelo de voz.",
+    import_skipped: "Se {count, plural, one {omitió # entrada} other {omitieron # entradas}} porque no se pudieron leer.",
+    error_usage_unavailable: "No se puede confirmar tu cupo diario con el servidor. Revisa tu conexión e inténtalo de nuevo."
   },
   ko: {
     voice: "음성", dictate: "받아쓰기", text: "텍스트", photo: "사진",
@@ -186,7 +788,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "다운로드 중...",
     downloaded: "다운로드됨",
     premium_only: "프리미엄 전용 기능",
-    offline_engine_ready: "이 언어의 오프라인 번역이 준비되었습니다"
+    offline_engine_ready: "이 언어의 오프라인 번역이 준비되었습니다",
+    installed_packs: "설치된 언어 팩",
+    no_packs_installed: "아직 설치된 언어 팩이 없습니다",
+    pack_version: "버전",
+    pack_phrases: "{count, plural, other {문장 #개}}",
+    pack_update: "업데이트",
+    pack_update_available: "업데이트 가능",
+    pack_delete: "삭제",
+    error_safety_block: "안전상의 이유로 콘텐츠가 차단되었습니다.",
+    error_recitation_block: "저작권이 있는 자료가 감지되어 번역할 수 없습니다.",
+    error_quota_exceeded: "현재 번역 엔진의 사용량이 너무 많습니다.",
+    error_network: "번역 엔진에 연결할 수 없습니다.",
+    error_server: "번역 엔진에 문제가 발생했습니다.",
+    error_invalid_response: "번역 엔진이 읽을 수 없는 응답을 반환했습니다.",
+    error_unsupported_media: "현재 엔진은 이 유형의 입력을 지원하지 않습니다.",
+    error_auth: "번역 엔진이 앱의 인증 정보를 거부했습니다.",
+    error_offline_unavailable: "이 기능은 오프라인에서 사용할 수 없습니다.",
+    error_no_speech: "인식된 음성이 없습니다.",
+    error_unknown: "번역 엔진에서 예기치 않은 오류가 발생했습니다.",
+    action_rephrase: "더 일반적인 단어를 사용해 보세요.",
+    action_wait_and_retry: "잠시 후 다시 시도해 주세요.",
+    action_check_connection: "인터넷 연결을 확인한 후 다시 시도해 주세요.",
+    action_retry: "다시 시도해 주세요.",
+    action_switch_mode: "텍스트 등 다른 모드를 사용해 보세요.",
+    action_check_settings: "엔진 설정을 확인하거나 지원팀에 문의하세요.",
+    action_speak_again: "마이크에 더 가까이 말하거나 언어 팩의 문구를 사용해 보세요.",
+    error_microphone: "마이크 접근이 거부되었거나 마이크를 찾을 수 없습니다.",
+    error_offline_premium: "오프라인 번역은 프리미엄 기능입니다. 업그레이드하려면 인터넷에 연결하세요.",
+    error_pack_missing: "{lang} 팩이 다운로드되지 않았습니다. 인터넷에 연결한 후 설정에서 다운로드하세요.",
+    error_image_offline: "이미지 인식에는 클라우드 연결이 필요합니다. 이미지를 스캔하려면 인터넷에 연결하세요.",
+    cancel: "취소",
+    error_timeout: "번역 시간이 너무 오래 걸렸습니다.",
+    error_cancelled: "번역이 취소되었습니다.",
+    search_history: "기록 검색",
+    all_modes: "전체",
+    current_pair: "현재 언어 쌍",
+    starred_only: "별표",
+    date_from: "시작",
+    date_to: "종료",
+    add_tag: "+ 태그",
+    load_more: "더 보기",
+    export_file: "내보내기",
+    import_file: "가져오기",
+    import_done: "새 항목 {added}개, 업데이트된 항목 {updated}개를 가져왔습니다.",
+    import_failed: "이 파일을 가져올 수 없습니다. IVoice에서 내보낸 JSON 기록 파일을 선택하세요.",
+    study: "학습",
+    study_loading: "카드 불러오는 중...",
+    study_empty: "복습할 카드가 없습니다",
+    study_done: "세션 완료",
+    study_hint: "기록에서 문장에 별표를 표시하면 덱에 추가됩니다.",
+    study_remaining: "{count, plural, other {#장 남음}}",
+    study_reveal: "탭하여 보기",
+    study_listen: "듣기",
+    grade_again: "다시",
+    grade_hard: "어려움",
+    grade_good: "좋음",
+    grade_easy: "쉬움",
+    glossary: "용어집",
+    glossary_term: "용어",
+    glossary_translation: "항상 이렇게 번역",
+    glossary_keep: "번역하지 않음",
+    glossary_add: "추가",
+    glossary_empty: "이 언어 쌍에 대한 용어가 아직 없습니다.",
+    glossary_imported: "{count, plural, other {용어 #개를 가져왔습니다.}}",
+    glossary_import_failed: "이 파일을 가져올 수 없습니다. IVoice에서 내보낸 JSON 용어집 파일을 선택하세요.",
+    glossary_issues: "용어집이 적용되지 않음",
+    glossary_issue: "\"{term}\"은(는) \"{expected}\"(으)로 번역되어야 합니다.",
+    formality: "말투",
+    formality_formal: "격식체",
+    formality_neutral: "보통",
+    formality_casual: "반말",
+    alternatives: "다른 표현",
+    alternative_previous: "이전 제안",
+    image_regions: "사진 속 텍스트",
+    region_hint: "강조된 영역을 탭하면 자세한 내용을 볼 수 있습니다.",
+    region_original: "원문",
+    region_show_original: "사진 보기",
+    region_show_translation: "번역 보기",
+    export_image: "이미지 저장",
+    document: "문서",
+    document_choose: "문서 선택",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "문서를 읽는 중…",
+    document_progress: "{total}개 중 {done}개 완료",
+    document_failed: "{count, plural, other {#개 부분을 번역하지 못했습니다.}}",
+    document_translate: "문서 번역",
+    document_resume: "계속",
+    document_retry: "실패한 부분 다시 시도",
+    document_download: "번역본 다운로드",
+    document_build_failed: "번역 파일을 만들 수 없습니다.",
+    error_document_offline: "문서 번역은 클라우드 연결이 필요합니다. 인터넷에 연결하세요.",
+    subtitle_bilingual: "이중 자막 (원문 아래에 번역)",
+    audio_file: "오디오 파일",
+    audio_file_choose: "녹음 선택",
+    audio_file_reading: "녹음 준비 중…",
+    audio_file_progress: "{total}개 중 {done}개 구간",
+    audio_file_failed: "{count, plural, other {#개 구간을 번역하지 못했습니다.}}",
+    audio_file_translate: "받아쓰기 및 번역",
+    audio_file_retry: "실패한 구간 다시 시도",
+    audio_file_no_speech: "음성 없음",
+    audio_file_segment_failed: "이 구간을 번역하지 못했습니다.",
+    audio_file_unreadable: "이 오디오 파일을 읽을 수 없습니다. MP3, M4A, WAV, OGG 또는 WebM을 사용해 보세요.",
+    error_audio_file_offline: "녹음 번역은 클라우드 연결이 필요합니다. 인터넷에 연결하세요.",
+    hands_free: "핸즈프리",
+    vad_silence: "무음 후 정지",
+    hands_free_start: "듣기 시작",
+    hands_free_stop: "듣기 중지",
+    hands_free_waiting: "음성을 기다리는 중…",
+    input_level: "입력 레벨",
+    error_audio_too_large: "녹음이 너무 길어 한 번에 번역할 수 없습니다.",
+    action_record_shorter: "더 짧게 녹음하거나 긴 녹음은 오디오 파일 모드를 사용하세요.",
+    voice_automatic: "자동",
+    voice_preview: "음성 미리 듣기",
+    voice_missing: "이 기기에는 이 언어 중 하나의 음성이 없습니다. 온라인일 때는 자연스러운 음성을 사용합니다.",
+    voice_rate: "속도",
+    voice_pitch: "음높이",
+    voice_provider_browser: "기기 음성",
+    voice_provider_gemini: "자연스러운 음성",
+    auth_name: "이름",
+    auth_email: "이메일",
+    auth_password: "비밀번호",
+    auth_new_password: "새 비밀번호",
+    auth_password_hint: "8자 이상",
+    auth_forgot: "비밀번호를 잊으셨나요?",
+    auth_reset_title: "비밀번호 재설정",
+    auth_send_code: "재설정 코드 보내기",
+    auth_code_sent: "{email} 계정이 있다면 재설정 코드가 발송됩니다.",
+    auth_reset_code: "재설정 코드",
+    auth_set_password: "새 비밀번호 설정",
+    auth_password_changed: "비밀번호가 변경되었습니다. 새 비밀번호로 로그인하세요.",
+    auth_back: "로그인으로 돌아가기",
+    auth_no_account: "계정이 없으신가요?",
+    auth_have_account: "이미 계정이 있으신가요?",
+    account: "계정",
+    sign_out: "로그아웃",
+    delete_account: "계정 삭제",
+    delete_account_confirm: "계정과 함께 이 기기의 기록, 학습 카드, 용어집, 저장된 번역이 영구적으로 삭제됩니다. 확인하려면 비밀번호를 입력하세요.",
+    auth_error_invalid_request: "모든 항목을 입력하세요.",
+    auth_error_invalid_credentials: "이메일 또는 비밀번호가 올바르지 않습니다.",
+    auth_error_email_taken: "이 이메일로 된 계정이 이미 있습니다.",
+    auth_error_weak_password: "비밀번호는 8자 이상이어야 합니다.",
+    auth_error_invalid_token: "세션이 만료되었습니다. 다시 로그인하세요.",
+    auth_error_invalid_code: "재설정 코드가 올바르지 않거나 만료되었습니다.",
+    auth_error_network: "계정 서버에 연결할 수 없습니다. 연결을 확인하세요.",
+    auth_error_server: "계정 서버에 문제가 발생했습니다. 잠시 후 다시 시도하세요.",
+    auth_error_quota_exceeded: "오늘의 무료 번역을 모두 사용했습니다.",
+    error_offline_no_match: "말하거나 입력한 내용과 일치하는 오프라인 문구가 없습니다.",
+    error_offline_voice_not_ready: "오프라인 음성이 아직 준비되지 않았습니다. 음성 모델을 다운로드하려면 한 번 인터넷에 연결하세요.",
+    import_skipped: "읽을 수 없어 {count, plural, other {#개 항목}}을 건너뛰었습니다.",
+    error_usage_unavailable: "서버에서 일일 사용량을 확인할 수 없습니다. 연결을 확인한 후 다시 시도하세요."
   },
   ja: {
     voice: "音声", dictate: "ディクテーション", text: "テキスト", photo: "写真",
@@ -221,7 +972,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "ダウンロード中...",
     downloaded: "ダウンロード済み",
     premium_only: "プレミアム限定機能",
-    offline_engine_ready: "この言語のオフライン翻訳が利用可能です"
+    offline_engine_ready: "この言語のオフライン翻訳が利用可能です",
+    installed_packs: "インストール済みパック",
+    no_packs_installed: "言語パックはまだインストールされていません",
+    pack_version: "バージョン",
+    pack_phrases: "{count, plural, other {# フレーズ}}",
+    pack_update: "更新",
+    pack_update_available: "アップデートがあります",
+    pack_delete: "削除",
+    error_safety_block: "安全上の理由でコンテンツがブロックされました。",
+    error_recitation_block: "著作権で保護された内容が検出されたため翻訳できません。",
+    error_quota_exceeded: "翻訳エンジンが現在混み合っています。",
+    error_network: "翻訳エンジンに接続できませんでした。",
+    error_server: "翻訳エンジンで問題が発生しました。",
+    error_invalid_response: "翻訳エンジンから読み取れない応答が返されました。",
+    error_unsupported_media: "この種類の入力は現在のエンジンでは対応していません。",
+    error_auth: "翻訳エンジンがアプリの認証情報を拒否しました。",
+    error_offline_unavailable: "この機能はオフラインでは利用できません。",
+    error_no_speech: "音声が認識されませんでした。",
+    error_unknown: "翻訳エンジンで予期しないエラーが発生しました。",
+    action_rephrase: "より一般的な言葉で試してください。",
+    action_wait_and_retry: "しばらく待ってから再試行してください。",
+    action_check_connection: "インターネット接続を確認して再試行してください。",
+    action_retry: "もう一度お試しください。",
+    action_switch_mode: "テキストなど別のモードをお試しください。",
+    action_check_settings: "エンジンの設定を確認するか、サポートにお問い合わせください。",
+    action_speak_again: "マイクに近づいて話すか、言語パックのフレーズをお試しください。",
+    error_microphone: "マイクへのアクセスが拒否されたか、マイクが見つかりません。",
+    error_offline_premium: "オフライン翻訳はプレミアム機能です。アップグレードするにはインターネットに接続してください。",
+    error_pack_missing: "{lang}のパックがダウンロードされていません。インターネットに接続し、設定からダウンロードしてください。",
+    error_image_offline: "画像の解析にはクラウド接続が必要です。画像をスキャンするにはインターネットに接続してください。",
+    cancel: "キャンセル",
+    error_timeout: "翻訳に時間がかかりすぎました。",
+    error_cancelled: "翻訳はキャンセルされました。",
+    search_history: "履歴を検索",
+    all_modes: "すべて",
+    current_pair: "現在の言語ペア",
+    starred_only: "スター付き",
+    date_from: "開始",
+    date_to: "終了",
+    add_tag: "+ タグ",
+    load_more: "さらに読み込む",
+    export_file: "エクスポート",
+    import_file: "インポート",
+    import_done: "新規 {added} 件、更新 {updated} 件をインポートしました。",
+    import_failed: "このファイルはインポートできません。IVoice から書き出した JSON 履歴ファイルを選択してください。",
+    study: "学習",
+    study_loading: "カードを読み込み中...",
+    study_empty: "復習期限のカードはありません",
+    study_done: "セッション完了",
+    study_hint: "履歴のフレーズにスターを付けるとデッキに追加されます。",
+    study_remaining: "{count, plural, other {残り # 枚}}",
+    study_reveal: "タップして表示",
+    study_listen: "聞く",
+    grade_again: "もう一度",
+    grade_hard: "難しい",
+    grade_good: "正解",
+    grade_easy: "簡単",
+    glossary: "用語集",
+    glossary_term: "用語",
+    glossary_translation: "常にこの訳語を使用",
+    glossary_keep: "翻訳しない",
+    glossary_add: "追加",
+    glossary_empty: "この言語ペアの用語はまだありません。",
+    glossary_imported: "{count, plural, other {用語を # 件インポートしました。}}",
+    glossary_import_failed: "このファイルはインポートできません。IVoice から書き出した JSON 用語集ファイルを選択してください。",
+    glossary_issues: "用語集が守られていません",
+    glossary_issue: "「{term}」は「{expected}」と訳す必要があります。",
+    formality: "文体",
+    formality_formal: "丁寧",
+    formality_neutral: "標準",
+    formality_casual: "カジュアル",
+    alternatives: "別の言い方",
+    alternative_previous: "以前の候補",
+    image_regions: "写真内のテキスト",
+    region_hint: "ハイライトされた部分をタップすると詳細が表示されます。",
+    region_original: "原文",
+    region_show_original: "写真を表示",
+    region_show_translation: "翻訳を表示",
+    export_image: "画像を保存",
+    document: "文書",
+    document_choose: "文書を選択",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "文書を読み込み中…",
+    document_progress: "{total} 件中 {done} 件",
+    document_failed: "{count, plural, other {# 件の部分を翻訳できませんでした。}}",
+    document_translate: "文書を翻訳",
+    document_resume: "続行",
+    document_retry: "失敗した部分を再試行",
+    document_download: "翻訳をダウンロード",
+    document_build_failed: "翻訳ファイルを作成できませんでした。",
+    error_document_offline: "文書の翻訳にはクラウド接続が必要です。インターネットに接続してください。",
+    subtitle_bilingual: "二言語字幕（原文の下に翻訳）",
+    audio_file: "音声ファイル",
+    audio_file_choose: "録音を選択",
+    audio_file_reading: "録音を準備中…",
+    audio_file_progress: "{total} 区間中 {done} 区間",
+    audio_file_failed: "{count, plural, other {# 区間を翻訳できませんでした。}}",
+    audio_file_translate: "文字起こしと翻訳",
+    audio_file_retry: "失敗した区間を再試行",
+    audio_file_no_speech: "音声なし",
+    audio_file_segment_failed: "この区間は翻訳できませんでした。",
+    audio_file_unreadable: "この音声ファイルを読み込めませんでした。MP3、M4A、WAV、OGG、WebM をお試しください。",
+    error_audio_file_offline: "録音の翻訳にはクラウド接続が必要です。インターネットに接続してください。",
+    hands_free: "ハンズフリー",
+    vad_silence: "無音で停止",
+    hands_free_start: "聞き取り開始",
+    hands_free_stop: "聞き取り停止",
+    hands_free_waiting: "音声を待っています…",
+    input_level: "入力レベル",
+    error_audio_too_large: "録音が長すぎて一度に翻訳できません。",
+    action_record_shorter: "短く録音するか、長い録音には音声ファイルモードをお使いください。",
+    voice_automatic: "自動",
+    voice_preview: "音声を試聴",
+    voice_missing: "この端末にはいずれかの言語の音声がありません。オンライン時は自然な音声を使用します。",
+    voice_rate: "速度",
+    voice_pitch: "ピッチ",
+    voice_provider_browser: "端末の音声",
+    voice_provider_gemini: "自然な音声",
+    auth_name: "名前",
+    auth_email: "メールアドレス",
+    auth_password: "パスワード",
+    auth_new_password: "新しいパスワード",
+    auth_password_hint: "8文字以上",
+    auth_forgot: "パスワードをお忘れですか？",
+    auth_reset_title: "パスワードの再設定",
+    auth_send_code: "再設定コードを送信",
+    auth_code_sent: "{email} のアカウントが存在する場合、再設定コードが送信されます。",
+    auth_reset_code: "再設定コード",
+    auth_set_password: "新しいパスワードを設定",
+    auth_password_changed: "パスワードを変更しました。新しいパスワードでサインインしてください。",
+    auth_back: "サインインに戻る",
+    auth_no_account: "アカウントをお持ちでないですか？",
+    auth_have_account: "すでにアカウントをお持ちですか？",
+    account: "アカウント",
+    sign_out: "サインアウト",
+    delete_account: "アカウントを削除",
+    delete_account_confirm: "アカウントと、この端末の履歴・学習カード・用語集・保存された翻訳は完全に削除されます。確認のためパスワードを入力してください。",
+    auth_error_invalid_request: "すべての項目を入力してください。",
+    auth_error_invalid_credentials: "メールアドレスまたはパスワードが違います。",
+    auth_error_email_taken: "このメールアドレスのアカウントは既に存在します。",
+    auth_error_weak_password: "パスワードは8文字以上必要です。",
+    auth_error_invalid_token: "セッションの有効期限が切れました。もう一度サインインしてください。",
+    auth_error_invalid_code: "再設定コードが違うか、有効期限が切れています。",
+    auth_error_network: "アカウントサーバーに接続できません。接続を確認してください。",
+    auth_error_server: "アカウントサーバーで問題が発生しました。しばらくしてから再試行してください。",
+    auth_error_quota_exceeded: "本日の無料翻訳をすべて使用しました。",
+    error_offline_no_match: "話した内容や入力した内容に一致するオフラインのフレーズがありません。",
+    error_offline_voice_not_ready: "オフライン音声はまだ準備できていません。音声モデルをダウンロードするため、一度インターネットに接続してください。",
+    import_skipped: "読み取れなかったため {count, plural, other {# 件}}をスキップしました。",
+    error_usage_unavailable: "サーバーで1日の利用枠を確認できません。接続を確認してもう一度お試しください。"
   },
   nl: {
     voice: "Stem", dictate: "Dicteren", text: "Tekst", photo: "Foto",
@@ -256,7 +1156,156 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "Downloaden...",
     downloaded: "Gedownload",
     premium_only: "Alleen voor Premium Gebruikers",
-    offline_engine_ready: "Offline vertaling klaar voor deze taal"
+    offline_engine_ready: "Offline vertaling klaar voor deze taal",
+    installed_packs: "Geïnstalleerde Pakketten",
+    no_packs_installed: "Nog geen taalpakketten geïnstalleerd",
+    pack_version: "Versie",
+    pack_phrases: "{count, plural, one {# zin} other {# zinnen}}",
+    pack_update: "Bijwerken",
+    pack_update_available: "Update beschikbaar",
+    pack_delete: "Verwijderen",
+    error_safety_block: "De inhoud is om veiligheidsredenen geblokkeerd.",
+    error_recitation_block: "De engine heeft auteursrechtelijk beschermd materiaal gedetecteerd en kan het niet vertalen.",
+    error_quota_exceeded: "De vertaalengine is momenteel overbelast.",
+    error_network: "De vertaalengine is niet bereikbaar.",
+    error_server: "De vertaalengine heeft een probleem.",
+    error_invalid_response: "De vertaalengine gaf een onleesbaar antwoord.",
+    error_unsupported_media: "Dit soort invoer wordt niet ondersteund door de huidige engine.",
+    error_auth: "De vertaalengine heeft de inloggegevens van de app geweigerd.",
+    error_offline_unavailable: "Deze functie is offline niet beschikbaar.",
+    error_no_speech: "Er is geen spraak herkend.",
+    error_unknown: "Er is een onverwachte fout opgetreden in de vertaalengine.",
+    action_rephrase: "Probeer meer gangbare woorden te gebruiken.",
+    action_wait_and_retry: "Wacht even en probeer het opnieuw.",
+    action_check_connection: "Controleer uw internetverbinding en probeer het opnieuw.",
+    action_retry: "Probeer het opnieuw.",
+    action_switch_mode: "Probeer een andere modus, zoals tekst.",
+    action_check_settings: "Controleer de engine-instellingen of neem contact op met support.",
+    action_speak_again: "Spreek dichter bij de microfoon of probeer een zin uit uw taalpakket.",
+    error_microphone: "Microfoontoegang geweigerd of niet gevonden.",
+    error_offline_premium: "Offline vertalen is een Premium-functie. Maak verbinding met internet om te upgraden.",
+    error_pack_missing: "Het {lang}-pakket is niet gedownload. Maak verbinding met internet en ga naar Instellingen om het te downloaden.",
+    error_image_offline: "Beeldherkenning vereist een cloudverbinding. Maak verbinding met internet om afbeeldingen te scannen.",
+    cancel: "Annuleren",
+    error_timeout: "De vertaling duurde te lang.",
+    error_cancelled: "De vertaling is geannuleerd.",
+    search_history: "Geschiedenis doorzoeken",
+    all_modes: "Alles",
+    current_pair: "Huidig paar",
+    starred_only: "Met ster",
+    date_from: "Van",
+    date_to: "Tot",
+    add_tag: "+ tag",
+    load_more: "Meer laden",
+    export_file: "Exporteren",
+    import_file: "Importeren",
+    import_done: "{added} nieuwe en {updated} bijgewerkte items geïmporteerd.",
+    import_failed: "Dit bestand kan niet worden geïmporteerd. Kies een JSON-geschiedenisexport van IVoice.",
+    study: "Oefenen",
+    study_loading: "Kaarten laden...",
+    study_empty: "Er zijn geen kaarten te herhalen",
+    study_done: "Sessie voltooid",
+    study_hint: "Geef zinnen in je geschiedenis een ster om ze aan je stapel toe te voegen.",
+    study_remaining: "{count, plural, one {Nog # kaart} other {Nog # kaarten}}",
+    study_reveal: "Tik om te tonen",
+    study_listen: "Luisteren",
+    grade_again: "Opnieuw",
+    grade_hard: "Moeilijk",
+    grade_good: "Goed",
+    grade_easy: "Makkelijk",
+    glossary: "Woordenlijst",
+    glossary_term: "Term",
+    glossary_translation: "Altijd vertalen als",
+    glossary_keep: "Niet vertalen",
+    glossary_add: "Toevoegen",
+    glossary_empty: "Nog geen woordenlijstitems voor dit taalpaar.",
+    glossary_imported: "{count, plural, one {# woordenlijstitem geïmporteerd.} other {# woordenlijstitems geïmporteerd.}}",
+    glossary_import_failed: "Dit bestand kan niet worden geïmporteerd. Kies een JSON-woordenlijstexport van IVoice.",
+    glossary_issues: "Woordenlijst niet gevolgd",
+    glossary_issue: "\"{term}\" moet worden vertaald als \"{expected}\".",
+    formality: "Register",
+    formality_formal: "Formeel",
+    formality_neutral: "Neutraal",
+    formality_casual: "Informeel",
+    alternatives: "Andere manieren om het te zeggen",
+    alternative_previous: "Vorige suggestie",
+    image_regions: "Tekst in foto",
+    region_hint: "Tik op een gemarkeerd gebied voor details.",
+    region_original: "Origineel",
+    region_show_original: "Foto tonen",
+    region_show_translation: "Vertalingen tonen",
+    export_image: "Afbeelding opslaan",
+    document: "Document",
+    document_choose: "Kies een document",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "Document lezen…",
+    document_progress: "{done} van {total} delen",
+    document_failed: "{count, plural, one {# deel kon niet worden vertaald.} other {# delen konden niet worden vertaald.}}",
+    document_translate: "Document vertalen",
+    document_resume: "Doorgaan",
+    document_retry: "Mislukte delen opnieuw proberen",
+    document_download: "Vertaling downloaden",
+    document_build_failed: "Het vertaalde bestand kon niet worden gemaakt.",
+    error_document_offline: "Documentvertaling vereist een cloudverbinding. Maak verbinding met internet.",
+    subtitle_bilingual: "Tweetalige ondertitels (origineel boven de vertaling)",
+    audio_file: "Audiobestand",
+    audio_file_choose: "Kies een opname",
+    audio_file_reading: "Opname voorbereiden…",
+    audio_file_progress: "{done} van {total} fragmenten",
+    audio_file_failed: "{count, plural, one {# fragment kon niet worden vertaald.} other {# fragmenten konden niet worden vertaald.}}",
+    audio_file_translate: "Transcriberen en vertalen",
+    audio_file_retry: "Mislukte fragmenten opnieuw proberen",
+    audio_file_no_speech: "Geen spraak",
+    audio_file_segment_failed: "Dit fragment kon niet worden vertaald.",
+    audio_file_unreadable: "Dit audiobestand kon niet worden gelezen. Probeer MP3, M4A, WAV, OGG of WebM.",
+    error_audio_file_offline: "Opnames vertalen vereist een cloudverbinding. Maak verbinding met internet.",
+    hands_free: "Handsfree",
+    vad_silence: "Stoppen na stilte",
+    hands_free_start: "Begin met luisteren",
+    hands_free_stop: "Stop met luisteren",
+    hands_free_waiting: "Wachten op spraak…",
+    input_level: "Invoerniveau",
+    error_audio_too_large: "De opname is te lang om in één keer te vertalen.",
+    action_record_shorter: "Neem een korter bericht op, of gebruik de modus Audiobestand voor lange opnames.",
+    voice_automatic: "Automatisch",
+    voice_preview: "Stem beluisteren",
+    voice_missing: "Dit apparaat heeft geen stem voor een van deze talen. Online worden daarvoor natuurlijke stemmen gebruikt.",
+    voice_rate: "Snelheid",
+    voice_pitch: "Toonhoogte",
+    voice_provider_browser: "Apparaatstemmen",
+    voice_provider_gemini: "Natuurlijke stemmen",
+    auth_name: "Naam",
+    auth_email: "E-mail",
+    auth_password: "Wachtwoord",
+    auth_new_password: "Nieuw wachtwoord",
+    auth_password_hint: "Minstens 8 tekens",
+    auth_forgot: "Wachtwoord vergeten?",
+    auth_reset_title: "Wachtwoord Herstellen",
+    auth_send_code: "Herstelcode Versturen",
+    auth_code_sent: "Als er een account bestaat voor {email}, is er een herstelcode onderweg.",
+    auth_reset_code: "Herstelcode",
+    auth_set_password: "Nieuw Wachtwoord Instellen",
+    auth_password_changed: "Wachtwoord gewijzigd. Log in met je nieuwe wachtwoord.",
+    auth_back: "Terug naar inloggen",
+    auth_no_account: "Nog geen account?",
+    auth_have_account: "Heb je al een account?",
+    account: "Account",
+    sign_out: "Uitloggen",
+    delete_account: "Account Verwijderen",
+    delete_account_confirm: "Hiermee worden je account en de geschiedenis, studiekaarten, woordenlijst en opgeslagen vertalingen op dit apparaat definitief verwijderd. Voer je wachtwoord in om te bevestigen.",
+    auth_error_invalid_request: "Vul alle velden in.",
+    auth_error_invalid_credentials: "Onjuist e-mailadres of wachtwoord.",
+    auth_error_email_taken: "Er bestaat al een account met dit e-mailadres.",
+    auth_error_weak_password: "Wachtwoorden moeten minstens 8 tekens hebben.",
+    auth_error_invalid_token: "Je sessie is verlopen. Log opnieuw in.",
+    auth_error_invalid_code: "De herstelcode is onjuist of verlopen.",
+    auth_error_network: "De accountserver is niet bereikbaar. Controleer je verbinding.",
+    auth_error_server: "De accountserver had een probleem. Probeer het zo opnieuw.",
+    auth_error_quota_exceeded: "Je hebt de gratis vertalingen van vandaag opgebruikt.",
+    error_offline_no_match: "Geen offline zin komt overeen met wat je zei of typte.",
+    error_offline_voice_not_ready: "Offline spraak is nog niet klaar. Maak één keer verbinding met internet zodat het spraakmodel kan downloaden.",
+    import_skipped: "{count, plural, one {# item is} other {# items zijn}} overgeslagen omdat ze niet gelezen konden worden.",
+    error_usage_unavailable: "Je dagelijkse tegoed kan niet bij de server worden bevestigd. Controleer je verbinding en probeer het opnieuw."
   },
   ar: {
     voice: "صوت", dictate: "إملاء", text: "نص", photo: "صورة",
@@ -291,22 +1340,182 @@ export const I18N: Record<SupportedLanguageCode, Record<string, string>> = {
     downloading: "جاري التحميل...",
     downloaded: "تم التحميل",
     premium_only: "ميزة حصرية للمشتركين",
-    offline_engine_ready: "الترجمة دون اتصال جاهزة لهذه اللغة"
+    offline_engine_ready: "الترجمة دون اتصال جاهزة لهذه اللغة",
+    installed_packs: "الحزم المثبتة",
+    no_packs_installed: "لم يتم تثبيت أي حزم لغات بعد",
+    pack_version: "الإصدار",
+    pack_phrases: "{count, plural, zero {لا عبارات} one {عبارة واحدة} two {عبارتان} few {# عبارات} many {# عبارة} other {# عبارة}}",
+    pack_update: "تحديث",
+    pack_update_available: "يتوفر تحديث",
+    pack_delete: "حذف",
+    error_safety_block: "تم حظر المحتوى لأسباب تتعلق بالأمان.",
+    error_recitation_block: "اكتشف المحرك مواد محمية بحقوق النشر ولا يمكنه ترجمتها.",
+    error_quota_exceeded: "محرك الترجمة مثقل بالطلبات حالياً.",
+    error_network: "تعذر الوصول إلى محرك الترجمة.",
+    error_server: "واجه محرك الترجمة مشكلة.",
+    error_invalid_response: "أعاد محرك الترجمة إجابة غير قابلة للقراءة.",
+    error_unsupported_media: "هذا النوع من الإدخال غير مدعوم في المحرك الحالي.",
+    error_auth: "رفض محرك الترجمة بيانات اعتماد التطبيق.",
+    error_offline_unavailable: "هذه الميزة غير متاحة دون اتصال.",
+    error_no_speech: "لم يتم التعرف على أي كلام.",
+    error_unknown: "حدث خطأ غير متوقع في محرك الترجمة.",
+    action_rephrase: "حاول استخدام كلمات أكثر شيوعاً.",
+    action_wait_and_retry: "يرجى الانتظار قليلاً ثم المحاولة مرة أخرى.",
+    action_check_connection: "تحقق من اتصالك بالإنترنت ثم حاول مرة أخرى.",
+    action_retry: "يرجى المحاولة مرة أخرى.",
+    action_switch_mode: "جرّب وضعاً آخر مثل النص.",
+    action_check_settings: "تحقق من إعدادات المحرك أو تواصل مع الدعم.",
+    action_speak_again: "تحدث بالقرب من الميكروفون أو جرّب عبارة من حزمة لغتك.",
+    error_microphone: "تم رفض الوصول إلى الميكروفون أو لم يتم العثور عليه.",
+    error_offline_premium: "الترجمة دون اتصال ميزة مميزة. يرجى الاتصال بالإنترنت للترقية.",
+    error_pack_missing: "لم يتم تنزيل حزمة {lang}. اتصل بالإنترنت وانتقل إلى الإعدادات لتنزيلها.",
+    error_image_offline: "يتطلب تحليل الصور اتصالاً سحابياً. يرجى الاتصال بالإنترنت لمسح الصور.",
+    cancel: "إلغاء",
+    error_timeout: "استغرقت الترجمة وقتاً طويلاً.",
+    error_cancelled: "تم إلغاء الترجمة.",
+    search_history: "البحث في السجل",
+    all_modes: "الكل",
+    current_pair: "الزوج الحالي",
+    starred_only: "المميزة بنجمة",
+    date_from: "من",
+    date_to: "إلى",
+    add_tag: "+ وسم",
+    load_more: "تحميل المزيد",
+    export_file: "تصدير",
+    import_file: "استيراد",
+    import_done: "تم استيراد {added} إدخالات جديدة وتحديث {updated} إدخالات.",
+    import_failed: "تعذر استيراد هذا الملف. اختر ملف تصدير سجل JSON من IVoice.",
+    study: "دراسة",
+    study_loading: "جارٍ تحميل البطاقات...",
+    study_empty: "لا توجد بطاقات مستحقة",
+    study_done: "اكتملت الجلسة",
+    study_hint: "ميّز العبارات بنجمة في السجل لإضافتها إلى مجموعتك.",
+    study_remaining: "{count, plural, zero {لا بطاقات متبقية} one {بطاقة واحدة متبقية} two {بطاقتان متبقيتان} few {# بطاقات متبقية} many {# بطاقة متبقية} other {# بطاقة متبقية}}",
+    study_reveal: "انقر للإظهار",
+    study_listen: "استماع",
+    grade_again: "مجددًا",
+    grade_hard: "صعب",
+    grade_good: "جيد",
+    grade_easy: "سهل",
+    glossary: "المسرد",
+    glossary_term: "المصطلح",
+    glossary_translation: "ترجم دائمًا إلى",
+    glossary_keep: "لا تترجم",
+    glossary_add: "إضافة",
+    glossary_empty: "لا توجد مصطلحات لهذا الزوج اللغوي بعد.",
+    glossary_imported: "{count, plural, zero {لم يتم استيراد أي مصطلح.} one {تم استيراد مصطلح واحد.} two {تم استيراد مصطلحين.} few {تم استيراد # مصطلحات.} many {تم استيراد # مصطلحًا.} other {تم استيراد # مصطلح.}}",
+    glossary_import_failed: "تعذر استيراد هذا الملف. اختر ملف تصدير مسرد JSON من IVoice.",
+    glossary_issues: "لم يتم اتباع المسرد",
+    glossary_issue: "يجب ترجمة \"{term}\" إلى \"{expected}\".",
+    formality: "مستوى الرسمية",
+    formality_formal: "رسمي",
+    formality_neutral: "محايد",
+    formality_casual: "غير رسمي",
+    alternatives: "طرق أخرى لقولها",
+    alternative_previous: "الاقتراح السابق",
+    image_regions: "النص في الصورة",
+    region_hint: "اضغط على منطقة مظللة لعرض تفاصيلها.",
+    region_original: "الأصل",
+    region_show_original: "عرض الصورة",
+    region_show_translation: "عرض الترجمات",
+    export_image: "حفظ الصورة",
+    document: "مستند",
+    document_choose: "اختر مستندًا",
+    document_formats: "PDF · DOCX · TXT · MD · SRT · VTT",
+    document_reading: "جارٍ قراءة المستند…",
+    document_progress: "{done} من {total} أجزاء",
+    document_failed: "{count, plural, zero {تمت ترجمة كل الأجزاء.} one {تعذرت ترجمة جزء واحد.} two {تعذرت ترجمة جزأين.} few {تعذرت ترجمة # أجزاء.} many {تعذرت ترجمة # جزءًا.} other {تعذرت ترجمة # جزء.}}",
+    document_translate: "ترجمة المستند",
+    document_resume: "متابعة",
+    document_retry: "إعادة محاولة الأجزاء الفاشلة",
+    document_download: "تنزيل الترجمة",
+    document_build_failed: "تعذر إنشاء الملف المترجم.",
+    error_document_offline: "تتطلب ترجمة المستندات اتصالاً سحابيًا. يرجى الاتصال بالإنترنت.",
+    subtitle_bilingual: "ترجمة ثنائية اللغة (الأصل فوق الترجمة)",
+    audio_file: "ملف صوتي",
+    audio_file_choose: "اختر تسجيلاً",
+    audio_file_reading: "جارٍ تجهيز التسجيل…",
+    audio_file_progress: "{done} من {total} مقاطع",
+    audio_file_failed: "{count, plural, zero {تمت ترجمة كل المقاطع.} one {تعذرت ترجمة مقطع واحد.} two {تعذرت ترجمة مقطعين.} few {تعذرت ترجمة # مقاطع.} many {تعذرت ترجمة # مقطعًا.} other {تعذرت ترجمة # مقطع.}}",
+    audio_file_translate: "تفريغ وترجمة",
+    audio_file_retry: "إعادة محاولة المقاطع الفاشلة",
+    audio_file_no_speech: "لا يوجد كلام",
+    audio_file_segment_failed: "تعذرت ترجمة هذا المقطع.",
+    audio_file_unreadable: "تعذرت قراءة هذا الملف الصوتي. جرّب MP3 أو M4A أو WAV أو OGG أو WebM.",
+    error_audio_file_offline: "تتطلب ترجمة التسجيلات اتصالاً سحابيًا. يرجى الاتصال بالإنترنت.",
+    hands_free: "بدون استخدام اليدين",
+    vad_silence: "التوقف بعد الصمت",
+    hands_free_start: "ابدأ الاستماع",
+    hands_free_stop: "أوقف الاستماع",
+    hands_free_waiting: "في انتظار الكلام…",
+    input_level: "مستوى الإدخال",
+    error_audio_too_large: "التسجيل أطول من أن يُترجم دفعة واحدة.",
+    action_record_shorter: "سجّل رسالة أقصر، أو استخدم وضع ملف صوتي للتسجيلات الطويلة.",
+    voice_automatic: "تلقائي",
+    voice_preview: "معاينة الصوت",
+    voice_missing: "لا يحتوي هذا الجهاز على صوت لإحدى هذه اللغات. تُستخدم الأصوات الطبيعية لها عند الاتصال بالإنترنت.",
+    voice_rate: "السرعة",
+    voice_pitch: "طبقة الصوت",
+    voice_provider_browser: "أصوات الجهاز",
+    voice_provider_gemini: "أصوات طبيعية",
+    auth_name: "الاسم",
+    auth_email: "البريد الإلكتروني",
+    auth_password: "كلمة المرور",
+    auth_new_password: "كلمة المرور الجديدة",
+    auth_password_hint: "8 أحرف على الأقل",
+    auth_forgot: "نسيت كلمة المرور؟",
+    auth_reset_title: "إعادة تعيين كلمة المرور",
+    auth_send_code: "إرسال رمز إعادة التعيين",
+    auth_code_sent: "إذا كان هناك حساب لـ {email}، فإن رمز إعادة التعيين في الطريق.",
+    auth_reset_code: "رمز إعادة التعيين",
+    auth_set_password: "تعيين كلمة مرور جديدة",
+    auth_password_changed: "تم تغيير كلمة المرور. سجّل الدخول بكلمة المرور الجديدة.",
+    auth_back: "العودة إلى تسجيل الدخول",
+    auth_no_account: "ليس لديك حساب؟",
+    auth_have_account: "لديك حساب بالفعل؟",
+    account: "الحساب",
+    sign_out: "تسجيل الخروج",
+    delete_account: "حذف الحساب",
+    delete_account_confirm: "سيؤدي هذا إلى حذف حسابك نهائيًا، مع السجل وبطاقات الدراسة والمسرد والترجمات المحفوظة على هذا الجهاز. أدخل كلمة المرور للتأكيد.",
+    auth_error_invalid_request: "يرجى ملء جميع الحقول.",
+    auth_error_invalid_credentials: "البريد الإلكتروني أو كلمة المرور غير صحيحة.",
+    auth_error_email_taken: "يوجد حساب بهذا البريد الإلكتروني بالفعل.",
+    auth_error_weak_password: "يجب أن تتكون كلمة المرور من 8 أحرف على الأقل.",
+    auth_error_invalid_token: "انتهت صلاحية جلستك. يرجى تسجيل الدخول مجددًا.",
+    auth_error_invalid_code: "رمز إعادة التعيين غير صحيح أو منتهي الصلاحية.",
+    auth_error_network: "تعذر الوصول إلى خادم الحسابات. تحقق من اتصالك.",
+    auth_error_server: "واجه خادم الحسابات مشكلة. حاول مرة أخرى بعد قليل.",
+    auth_error_quota_exceeded: "لقد استخدمت ترجمات اليوم المجانية.",
+    error_offline_no_match: "لا توجد عبارة متاحة دون اتصال تطابق ما قلته أو كتبته.",
+    error_offline_voice_not_ready: "الصوت دون اتصال غير جاهز بعد. اتصل بالإنترنت مرة واحدة لتنزيل نموذج الكلام.",
+    import_skipped: "تم تخطي {count, plural, one {إدخال واحد} two {إدخالين} few {# إدخالات} many {# إدخالًا} other {# إدخال}} لتعذر قراءتها.",
+    error_usage_unavailable: "تعذّر تأكيد حصتك اليومية مع الخادم. تحقق من اتصالك وحاول مرة أخرى."
   }
 };
 
+// Every supported language gets a complete table; missing keys fall back to English one by one
+export const I18N = Object.fromEntries(
+  SUPPORTED_LANGUAGES.map(lang => [lang.code, { ...UI_STRINGS.en, ...UI_STRINGS[lang.code] }])
+) as Record<SupportedLanguageCode, Messages>;
+
+// The raw per-language blocks, without the English fallback applied
+export const TRANSLATED_MESSAGES: Partial<Record<SupportedLanguageCode, Partial<Messages>>> = UI_STRINGS;
+
+const languageList = SUPPORTED_LANGUAGES.map(l => l.name);
+const phoneticLanguages = SUPPORTED_LANGUAGES.filter(l => l.phonetic).map(l => l.name);
+
 export const SYSTEM_INSTRUCTION = `
 You are a high-performance, real-time universal translation engine. Your primary strength is AUTOMATIC LANGUAGE DETECTION.
 
 CONTEXT:
 The user has a "Preferred Language" (Mother Language) and a "Target Language".
 
-SUPPORTED LANGUAGES (8):
-English, Indonesian, Chinese (Mandarin), Spanish, Korean, Japanese, Dutch, and Arabic.
+SUPPORTED LANGUAGES (${languageList.length}):
+${languageList.slice(0, -1).join(", ")}, and ${languageList[languageList.length - 1]}.
 
 OPERATIONAL RULES:
 1. Universal Auto-Detection:
-   - Always analyze the input audio/text to detect which of the 8 supported languages is being spoken.
+   - Always analyze the input audio/text to detect which of the ${languageList.length} supported languages is being spoken.
    - You MUST be able to switch translation direction instantly based on the speaker.
 
 2. Smart 2-Way Translation Logic:
@@ -319,10 +1528,14 @@ OPERATIONAL RULES:
      "original_text": "The transcribed text in the source language",
      "detected_language": "The ISO code of the source language (e.g., 'id', 'es', 'ja')",
      "translated_text": "The final translation",
-     "phonetic": "A phonetic transcription to help with pronunciation (required for Chinese, Korean, Japanese, Arabic)"
+     "phonetic": "A phonetic transcription to help with pronunciation (required for ${phoneticLanguages.join(", ")})",
+     "alternatives": [
+       { "translated_text": "Another valid translation", "phonetic": "Its phonetic transcription", "note": "A short note on when to use it, written in the Mother Language" }
+     ]
    }
+   Give up to 3 alternatives only when they differ meaningfully (register, politeness level, regional usage); otherwise return an empty list.
 
-4. Tone & Nuance: Maintain the original speaker's tone (formal/informal/emotional).
+4. Tone & Nuance: Maintain the original speaker's tone (formal/informal/emotional), unless the request asks for a specific register.
 
 5. No Chatter: Only provide the JSON object. No explanations or greetings.
 `;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { findMissingMessages, formatMessage, getMessages, isRtl, translate } from './i18n';
+
+describe('formatMessage', () => {
+  it('fills named placeholders and leaves unknown ones in place', () => {
+    expect(formatMessage('Pack for {lang} is missing', { lang: 'Thai' })).toBe('Pack for Thai is missing');
+    expect(formatMessage('Hello {name}')).toBe('Hello {name}');
+  });
+
+  it('picks English plural branches and formats the count', () => {
+    const template = '{count, plural, one {# phrase} other {# phrases}} saved';
+    expect(formatMessage(template, { count: 1 })).toBe('1 phrase saved');
+    expect(formatMessage(template, { count: 1200 })).toBe('1,200 phrases saved');
+  });
+
+  it('prefers exact matches over categories', () => {
+    const template = '{count, plural, =0 {Nothing yet} one {# item} other {# items}}';
+    expect(formatMessage(template, { count: 0 })).toBe('Nothing yet');
+  });
+
+  it('uses the plural categories of the locale', () => {
+    const template = '{n, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}';
+    expect([0, 1, 2, 3, 11, 100].map(n => formatMessage(template, { n }, 'ar'))).toEqual(
+      ['zero', 'one', 'two', 'few', 'many', 'other']
+    );
+  });
+
+  it('fills placeholders nested inside a plural branch', () => {
+    const template = '{count, plural, one {# file in {folder}} other {# files in {folder}}}';
+    expect(formatMessage(template, { count: 2, folder: 'Trips' })).toBe('2 files in Trips');
+  });
+});
+
+describe('message catalog', () => {
+  it('has every English key in each translated block', () => {
+    expect(findMissingMessages()).toEqual({});
+  });
+
+  it('falls back to English for languages without their own block', () => {
+    expect(getMessages('th').voice).toBe(getMessages('en').voice);
+  });
+
+  it('formats catalog messages in the language asked for', () => {
+    expect(translate('en', 'import_skipped', { count: 2 })).toBe('2 entries were skipped because they could not be read.');
+  });
+
+  it('marks Arabic as right-to-left', () => {
+    expect(isRtl('ar')).toBe(true);
+    expect(isRtl('en')).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { I18N, SUPPORTED_LANGUAGES, TRANSLATED_MESSAGES, MessageKey, Messages } from './constants';
+import { SupportedLanguageCode } from './types';
+
+type MessageValues = Record<string, string | number>;
+
+export const getMessages = (code: SupportedLanguageCode): Messages => I18N[code] || I18N.en;
+
+// Returns the content of the brace group opening at `start`, and the index just past its closing brace
+const readGroup = (text: string, start: number): [string, number] => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return [text.slice(start + 1, i), i + 1];
+  }
+  return [text.slice(start + 1), text.length];
+};
+
+const selectPlural = (options: string, count: number, locale: string): string => {
+  const branches = new Map<string, string>();
+  let rest = options;
+  let match: RegExpMatchArray | null;
+  while ((match = rest.match(/^\s*(=\d+|zero|one|two|few|many|other)\s*\{/))) {
+    const [body, end] = readGroup(rest, match[0].length - 1);
+    branches.set(match[1], body);
+    rest = rest.slice(end);
+  }
+  const category = new Intl.PluralRules(locale).select(count);
+  return branches.get(`=${count}`) ?? branches.get(category) ?? branches.get('other') ?? '';
+};
+
+/**
+ * Fills `{name}` placeholders and ICU-style plurals such as
+ * `{count, plural, one {# phrase} other {# phrases}}`, where `#` is the formatted count.
+ * Plural categories follow Intl.PluralRules for `locale`, so Arabic can use zero/two/few/many.
+ */
+export const formatMessage = (template: string, values: MessageValues = {}, locale: string = 'en'): string => {
+  let output = '';
+  let i = 0;
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) break;
+    output += template.slice(i, open);
+    const [body, end] = readGroup(template, open);
+    i = end;
+
+    const plural = body.match(/^\s*(\w+)\s*,\s*plural\s*,([\s\S]*)$/);
+    if (plural) {
+      const count = Number(values[plural[1]] ?? 0);
+      const branch = selectPlural(plural[2], count, locale).replace(/#/g, count.toLocaleString(locale));
+      output += formatMessage(branch, values, locale);
+    } else {
+      const name = body.trim();
+      output += name in values ? String(values[name]) : `{${body}}`;
+    }
+  }
+  return output + template.slice(i);
+};
+
+export const translate = (code: SupportedLanguageCode, key: MessageKey, values?: MessageValues): string =>
+  formatMessage(getMessages(code)[key], values, code);
+
+// Keys present in English but absent from a language's own block; languages without any block are skipped
+export const findMissingMessages = (): Partial<Record<SupportedLanguageCode, MessageKey[]>> => {
+  const keys = Object.keys(I18N.en) as MessageKey[];
+  const missing: Partial<Record<SupportedLanguageCode, MessageKey[]>> = {};
+  for (const lang of SUPPORTED_LANGUAGES) {
+    const block = TRANSLATED_MESSAGES[lang.code];
+    if (!block || lang.code === 'en') continue;
+    const absent = keys.filter(key => !(key in block));
+    if (absent.length > 0) missing[lang.code] = absent;
+  }
+  return missing;
+};
+
+export const reportMissingMessages = () => {
+  for (const [code, keys] of Object.entries(findMissingMessages())) {
+    console.warn(`[i18n] "${code}" is missing ${keys!.length} message(s), falling back to English:`, keys);
+  }
+};
+
+export const isRtl = (code: SupportedLanguageCode): boolean => !!SUPPORTED_LANGUAGES.find(l => l.code === code)?.rtl;
+
+export const applyDocumentLanguage = (code: SupportedLanguageCode) => {
+  document.documentElement.lang = code;
+  document.documentElement.dir = isRtl(code) ? 'rtl' : 'ltr';
+};
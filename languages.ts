@@ -0,0 +1,58 @@
+// Single source of truth for every language the app offers. The SupportedLanguageCode union,
+// selectors, TTS locales, model prompts and response normalization are all derived from this list;
+// adding a language means adding an entry here (and optionally a UI string block in constants.tsx).
+// `variants` lists regional forms or scripts; the first one is the default.
+export const LANGUAGE_REGISTRY = [
+  {
+    code: 'en', name: 'English', nativeName: 'English', ttsLocale: 'en-US', flag: '🇺🇸', aliases: ['eng'],
+    variants: [
+      { id: 'en-US', name: 'United States', ttsLocale: 'en-US', promptHint: 'Use American English spelling and vocabulary.' },
+      { id: 'en-GB', name: 'United Kingdom', ttsLocale: 'en-GB', promptHint: 'Use British English spelling and vocabulary.' },
+    ],
+  },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', ttsLocale: 'id-ID', flag: '🇮🇩', aliases: ['ind', 'in', 'bahasa'] },
+  {
+    code: 'zh', name: 'Chinese', nativeName: '普通话', ttsLocale: 'zh-CN', flag: '🇨🇳', phonetic: true,
+    aliases: ['zho', 'chi', 'cmn', 'mandarin', 'chinese (mandarin)', 'simplified chinese', 'traditional chinese'],
+    variants: [
+      { id: 'zh-Hans-CN', name: '简体 (中国大陆)', ttsLocale: 'zh-CN', promptHint: 'Write Chinese in Simplified characters with Mainland China vocabulary; give Hanyu Pinyin as the phonetic.' },
+      { id: 'zh-Hant-TW', name: '繁體 (台灣)', ttsLocale: 'zh-TW', promptHint: 'Write Chinese in Traditional characters with Taiwanese Mandarin vocabulary; give Hanyu Pinyin as the phonetic.' },
+    ],
+  },
+  {
+    code: 'es', name: 'Spanish', nativeName: 'Español', ttsLocale: 'es-ES', flag: '🇪🇸', aliases: ['spa', 'castilian'],
+    variants: [
+      { id: 'es-ES', name: 'España', ttsLocale: 'es-ES', promptHint: 'Use Peninsular Spanish as spoken in Spain (vosotros, Spanish vocabulary).' },
+      { id: 'es-MX', name: 'México', ttsLocale: 'es-MX', promptHint: 'Use Mexican Spanish vocabulary and ustedes instead of vosotros.' },
+      { id: 'es-AR', name: 'Argentina', ttsLocale: 'es-AR', promptHint: 'Use Rioplatense Spanish as spoken in Argentina, including voseo.' },
+    ],
+  },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', ttsLocale: 'ko-KR', flag: '🇰🇷', phonetic: true, aliases: ['kor'] },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', ttsLocale: 'ja-JP', flag: '🇯🇵', phonetic: true, aliases: ['jpn'] },
+  {
+    code: 'nl', name: 'Dutch', nativeName: 'Nederlands', ttsLocale: 'nl-NL', flag: '🇳🇱', aliases: ['nld', 'dut', 'flemish'],
+    variants: [
+      { id: 'nl-NL', name: 'Nederland', ttsLocale: 'nl-NL', promptHint: 'Use Dutch as spoken in the Netherlands.' },
+      { id: 'nl-BE', name: 'België (Vlaams)', ttsLocale: 'nl-BE', promptHint: 'Use Flemish (Belgian Dutch) vocabulary.' },
+    ],
+  },
+  {
+    code: 'ar', name: 'Arabic', nativeName: 'العربية', ttsLocale: 'ar-SA', flag: '🇸🇦', phonetic: true, rtl: true, aliases: ['ara'],
+    variants: [
+      { id: 'ar-SA', name: 'الفصحى', ttsLocale: 'ar-SA', promptHint: 'Use Modern Standard Arabic.' },
+      { id: 'ar-EG', name: 'مصري', ttsLocale: 'ar-EG', promptHint: 'Use colloquial Egyptian Arabic as spoken in Cairo.' },
+    ],
+  },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', ttsLocale: 'th-TH', flag: '🇹🇭', phonetic: true, aliases: ['tha'] },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', ttsLocale: 'vi-VN', flag: '🇻🇳', aliases: ['vie'] },
+  {
+    code: 'fr', name: 'French', nativeName: 'Français', ttsLocale: 'fr-FR', flag: '🇫🇷', aliases: ['fra', 'fre'],
+    variants: [
+      { id: 'fr-FR', name: 'France', ttsLocale: 'fr-FR', promptHint: 'Use French as spoken in France.' },
+      { id: 'fr-CA', name: 'Canada', ttsLocale: 'fr-CA', promptHint: 'Use Canadian (Québécois) French vocabulary.' },
+    ],
+  },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', ttsLocale: 'de-DE', flag: '🇩🇪', aliases: ['deu', 'ger'] },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', ttsLocale: 'hi-IN', flag: '🇮🇳', phonetic: true, aliases: ['hin'] },
+  { code: 'tl', name: 'Tagalog', nativeName: 'Tagalog', ttsLocale: 'fil-PH', flag: '🇵🇭', aliases: ['tgl', 'fil', 'filipino'] },
+] as const;
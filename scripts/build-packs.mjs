@@ -0,0 +1,46 @@
+// Builds the downloadable offline language packs in public/packs from packs/phrasebook.json.
+// Run with `npm run build:packs` after editing the phrasebook, and bump its version so
+// installed packs pick up the update.
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FORMAT_VERSION = 1;
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = JSON.parse(readFileSync(join(root, 'packs', 'phrasebook.json'), 'utf8'));
+const outDir = join(root, 'public', 'packs');
+mkdirSync(outDir, { recursive: true });
+
+const catalog = [];
+
+for (const [code, name] of Object.entries(source.languages)) {
+  const phrases = source.phrases
+    .filter(p => p.text[code])
+    .map(p => ({
+      id: p.id,
+      category: p.category,
+      text: p.text[code],
+      phonetic: p.phonetic?.[code] || '',
+      translations: Object.fromEntries(Object.entries(p.text).filter(([lang]) => lang !== code)),
+    }));
+
+  const payload = JSON.stringify(phrases);
+  const manifest = {
+    formatVersion: FORMAT_VERSION,
+    code,
+    name,
+    version: source.version,
+    categories: [...new Set(phrases.map(p => p.category))],
+    size: Buffer.byteLength(payload, 'utf8'),
+    checksum: `sha256-${createHash('sha256').update(payload).digest('hex')}`,
+    phrases,
+  };
+
+  writeFileSync(join(outDir, `${code}.json`), JSON.stringify(manifest));
+  const { phrases: _, formatVersion: __, ...entry } = manifest;
+  catalog.push({ ...entry, url: `${code}.json` });
+}
+
+writeFileSync(join(outDir, 'index.json'), JSON.stringify({ formatVersion: FORMAT_VERSION, packs: catalog }, null, 2) + '\n');
+console.log(`Built ${catalog.length} packs (v${source.version}) into public/packs`);
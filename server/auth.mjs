@@ -0,0 +1,169 @@
+// Account and session endpoints of the reference server: scrypt password hashes, short-lived HS256
+// access tokens and single-use refresh tokens that rotate on every refresh.
+import { createHash, createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import { db, save } from './store.mjs';
+import { HttpError } from './http.mjs';
+
+const ACCESS_TTL_SECONDS = 15 * 60;
+const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const RESET_TTL_MS = 30 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+// Tokens signed by a previous run stop verifying after a restart; clients then refresh, since refresh tokens are persisted
+const SECRET = process.env.AUTH_SECRET || randomBytes(32).toString('hex');
+
+const base64url = value => Buffer.from(value).toString('base64url');
+const sha256 = value => createHash('sha256').update(value).digest('hex');
+
+const hashPassword = (password, salt = randomBytes(16).toString('hex')) =>
+  `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+
+const checkPassword = (password, stored) => {
+  const [salt, hash] = stored.split(':');
+  return timingSafeEqual(Buffer.from(hash, 'hex'), scryptSync(password, salt, 64));
+};
+
+const signAccessToken = user => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: user.id, email: user.email, iat: now, exp: now + ACCESS_TTL_SECONDS }));
+  const signature = createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const verifyAccessToken = token => {
+  const [header, payload, signature] = (token || '').split('.');
+  if (!signature) return null;
+  const expected = createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Premium status is not part of the profile; it only reaches clients inside signed entitlements
+export const publicUser = user => ({ id: user.id, email: user.email, name: user.name });
+
+const issueSession = user => {
+  const refreshToken = randomBytes(32).toString('base64url');
+  db.refreshTokens.push({ hash: sha256(refreshToken), userId: user.id, expiresAt: Date.now() + REFRESH_TTL_MS });
+  save();
+  return {
+    accessToken: signAccessToken(user),
+    refreshToken,
+    expiresAt: Date.now() + ACCESS_TTL_SECONDS * 1000,
+    user: publicUser(user),
+  };
+};
+
+const normalizeEmail = email => String(email || '').trim().toLowerCase();
+
+const requireFields = (body, ...fields) => {
+  for (const field of fields) {
+    if (typeof body[field] !== 'string' || !body[field].trim()) throw new HttpError(400, 'invalid_request', `Missing ${field}.`);
+  }
+};
+
+const checkPasswordStrength = password => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, 'weak_password', `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+// Resolves the signed-in user from the Authorization header or fails with 401
+export const authenticate = req => {
+  const claims = verifyAccessToken((req.headers.authorization || '').replace(/^Bearer /, ''));
+  const user = claims && db.users.find(u => u.id === claims.sub);
+  if (!user) throw new HttpError(401, 'invalid_token', 'The access token is missing, expired or invalid.');
+  return user;
+};
+
+export const authRoutes = {
+  'POST /auth/signup': ({ body }) => {
+    requireFields(body, 'name', 'email', 'password');
+    const email = normalizeEmail(body.email);
+    if (db.users.some(u => u.email === email)) throw new HttpError(409, 'email_taken', 'An account with this email already exists.');
+    checkPasswordStrength(body.password);
+    const user = { id: randomUUID(), email, name: body.name.trim(), passwordHash: hashPassword(body.password), createdAt: Date.now() };
+    db.users.push(user);
+    return issueSession(user);
+  },
+
+  'POST /auth/signin': ({ body }) => {
+    requireFields(body, 'email', 'password');
+    const user = db.users.find(u => u.email === normalizeEmail(body.email));
+    if (!user || !checkPassword(body.password, user.passwordHash)) {
+      throw new HttpError(401, 'invalid_credentials', 'Wrong email or password.');
+    }
+    return issueSession(user);
+  },
+
+  'POST /auth/refresh': ({ body }) => {
+    requireFields(body, 'refreshToken');
+    const hash = sha256(body.refreshToken);
+    const stored = db.refreshTokens.find(t => t.hash === hash);
+    // Single use: a refresh token is gone as soon as it has been exchanged
+    db.refreshTokens = db.refreshTokens.filter(t => t !== stored && t.expiresAt > Date.now());
+    const user = stored && stored.expiresAt > Date.now() && db.users.find(u => u.id === stored.userId);
+    if (!user) {
+      save();
+      throw new HttpError(401, 'invalid_token', 'The session has expired. Please sign in again.');
+    }
+    return issueSession(user);
+  },
+
+  'POST /auth/signout': ({ body }) => {
+    if (typeof body.refreshToken === 'string') {
+      const hash = sha256(body.refreshToken);
+      db.refreshTokens = db.refreshTokens.filter(t => t.hash !== hash);
+      save();
+    }
+    return null;
+  },
+
+  'GET /auth/me': ({ req }) => publicUser(authenticate(req)),
+
+  // Always answers the same way, so the endpoint can't be used to find out which emails have accounts
+  'POST /auth/password/forgot': ({ body }) => {
+    requireFields(body, 'email');
+    const user = db.users.find(u => u.email === normalizeEmail(body.email));
+    if (user) {
+      const code = randomBytes(6).toString('hex').toUpperCase();
+      db.resetTokens = db.resetTokens.filter(t => t.userId !== user.id && t.expiresAt > Date.now());
+      db.resetTokens.push({ hash: sha256(code), userId: user.id, expiresAt: Date.now() + RESET_TTL_MS });
+      save();
+      // Stand-in for the email a real provider would send
+      console.log(`Password reset code for ${user.email}: ${code}`);
+    }
+    return null;
+  },
+
+  'POST /auth/password/reset': ({ body }) => {
+    requireFields(body, 'code', 'password');
+    const hash = sha256(body.code.trim().toUpperCase());
+    const stored = db.resetTokens.find(t => t.hash === hash && t.expiresAt > Date.now());
+    const user = stored && db.users.find(u => u.id === stored.userId);
+    if (!user) throw new HttpError(400, 'invalid_code', 'The reset code is wrong or has expired.');
+    checkPasswordStrength(body.password);
+    user.passwordHash = hashPassword(body.password);
+    // Every existing session ends with the old password
+    db.resetTokens = db.resetTokens.filter(t => t.userId !== user.id);
+    db.refreshTokens = db.refreshTokens.filter(t => t.userId !== user.id);
+    save();
+    return null;
+  },
+
+  'DELETE /auth/account': ({ req, body }) => {
+    const user = authenticate(req);
+    requireFields(body, 'password');
+    if (!checkPassword(body.password, user.passwordHash)) throw new HttpError(401, 'invalid_credentials', 'Wrong password.');
+    db.users = db.users.filter(u => u.id !== user.id);
+    db.refreshTokens = db.refreshTokens.filter(t => t.userId !== user.id);
+    db.resetTokens = db.resetTokens.filter(t => t.userId !== user.id);
+    delete db.usage[user.id];
+    save();
+    return null;
+  },
+};
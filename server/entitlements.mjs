@@ -0,0 +1,102 @@
+// Entitlement and metering endpoints of the reference server. Entitlements are ECDSA P-256 signed, so the
+// app can trust a cached copy while offline; usage is counted per mode and per UTC day on the server.
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, timingSafeEqual } from 'node:crypto';
+import { db, save } from './store.mjs';
+import { HttpError } from './http.mjs';
+import { authenticate, publicUser } from './auth.mjs';
+
+const USAGE_MODES = ['voice', 'text', 'image', 'document', 'audio'];
+// Translations (or whole documents / audio files) per UTC day on the free tier; premium is unmetered
+const FREE_DAILY_LIMITS = { voice: 3, text: 3, image: 3, document: 1, audio: 1 };
+// How long the app may rely on a cached entitlement without reaching the server
+const ENTITLEMENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Generated on first start and kept in the data file, so the public key configured in the app stays valid
+const loadSigningKey = () => {
+  if (process.env.ENTITLEMENT_PRIVATE_KEY) return createPrivateKey(process.env.ENTITLEMENT_PRIVATE_KEY);
+  if (!db.signingKey) {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    db.signingKey = privateKey.export({ type: 'pkcs8', format: 'pem' });
+    save();
+  }
+  return createPrivateKey(db.signingKey);
+};
+
+const signingKey = loadSigningKey();
+
+// Base64 SPKI, the format the app expects in ENTITLEMENT_PUBLIC_KEY
+export const entitlementPublicKey = createPublicKey(signingKey).export({ type: 'spki', format: 'der' }).toString('base64');
+
+// `<payload>.<signature>`, both base64url; the signature is raw r||s over the encoded payload, as WebCrypto verifies it
+const signEntitlement = entitlement => {
+  const payload = Buffer.from(JSON.stringify(entitlement)).toString('base64url');
+  const signature = sign('sha256', Buffer.from(payload), { key: signingKey, dsaEncoding: 'ieee-p1363' });
+  return `${payload}.${signature.toString('base64url')}`;
+};
+
+const isPremium = user => !!user.premiumUntil && user.premiumUntil > Date.now();
+
+const dailyLimits = user => (isPremium(user) ? {} : FREE_DAILY_LIMITS);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const usageFor = user => {
+  const current = db.usage[user.id];
+  const used = current?.day === today() ? current.used : {};
+  return { day: today(), used, limits: dailyLimits(user) };
+};
+
+export const entitlementRoutes = {
+  'GET /entitlements': ({ req }) => {
+    const user = authenticate(req);
+    const now = Date.now();
+    const premium = isPremium(user);
+    const token = signEntitlement({
+      sub: user.id,
+      tier: premium ? 'premium' : 'free',
+      premiumUntil: premium ? user.premiumUntil : null,
+      offlinePacks: premium,
+      dailyLimits: dailyLimits(user),
+      iat: now,
+      // Never outlives the subscription it describes
+      exp: premium ? Math.min(now + ENTITLEMENT_TTL_MS, user.premiumUntil) : now + ENTITLEMENT_TTL_MS,
+    });
+    return { token, usage: usageFor(user) };
+  },
+
+  'GET /entitlements/key': () => ({ publicKey: entitlementPublicKey }),
+
+  'GET /usage': ({ req }) => usageFor(authenticate(req)),
+
+  // The app calls this before each translation; checking and counting happen in one step, so a unit is never handed out twice
+  'POST /usage': ({ req, body }) => {
+    const user = authenticate(req);
+    if (!USAGE_MODES.includes(body.mode)) throw new HttpError(400, 'invalid_request', `Unknown usage mode ${body.mode}.`);
+    const usage = usageFor(user);
+    const limit = usage.limits[body.mode];
+    if (limit !== undefined && (usage.used[body.mode] || 0) >= limit) {
+      throw new HttpError(429, 'quota_exceeded', `Daily ${body.mode} limit of ${limit} reached.`);
+    }
+    const used = { ...usage.used, [body.mode]: (usage.used[body.mode] || 0) + 1 };
+    db.usage[user.id] = { day: usage.day, used };
+    save();
+    return { ...usage, used };
+  },
+
+  // Stand-in for a billing webhook; only enabled when ADMIN_TOKEN is set. `days: 0` ends premium.
+  'POST /admin/premium': ({ req, body }) => {
+    const expected = Buffer.from(process.env.ADMIN_TOKEN || '');
+    const given = Buffer.from((req.headers.authorization || '').replace(/^Bearer /, ''));
+    if (!expected.length || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new HttpError(403, 'forbidden', 'Admin routes need ADMIN_TOKEN.');
+    }
+    const user = db.users.find(u => u.email === String(body.email || '').trim().toLowerCase());
+    if (!user) throw new HttpError(404, 'not_found', 'No account with this email.');
+    const days = Number(body.days);
+    if (!Number.isFinite(days) || days < 0) throw new HttpError(400, 'invalid_request', 'days must be a number of days, 0 or more.');
+    user.premiumUntil = days > 0 ? Date.now() + days * DAY_MS : null;
+    save();
+    return { ...publicUser(user), premiumUntil: user.premiumUntil };
+  },
+};
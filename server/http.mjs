@@ -0,0 +1,46 @@
+// Request/response plumbing shared by the reference server's route modules.
+
+// Thrown by handlers; `code` is what the app's clients switch on, `message` is for people reading logs
+export class HttpError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export const readJson = req =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'invalid_request', 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve({});
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'invalid_request', 'Body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const sendJson = (res, status, body) => {
+  if (body === null || body === undefined) {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
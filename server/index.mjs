@@ -0,0 +1,41 @@
+// Local reference backend for the app's account and entitlement features, so the whole flow can run without
+// an external provider. Start it with `npm run server` and point AUTH_API_URL at it (http://localhost:8787 by default).
+import { createServer } from 'node:http';
+import { HttpError, readJson, sendJson } from './http.mjs';
+import { authRoutes } from './auth.mjs';
+import { entitlementPublicKey, entitlementRoutes } from './entitlements.mjs';
+import { dataFile } from './store.mjs';
+
+const PORT = Number(process.env.PORT) || 8787;
+// The Vite dev server; set CORS_ORIGIN when the app is served from somewhere else
+const ALLOWED_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
+
+const routes = { ...authRoutes, ...entitlementRoutes };
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const handler = routes[`${req.method} ${pathname}`];
+  try {
+    if (!handler) throw new HttpError(404, 'not_found', `No route for ${req.method} ${pathname}.`);
+    const body = await readJson(req);
+    sendJson(res, 200, await handler({ req, body }));
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(err);
+    sendJson(res, status, { error: err instanceof HttpError ? err.code : 'server', message: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Reference server on http://localhost:${PORT} (data in ${dataFile})`);
+  console.log(`ENTITLEMENT_PUBLIC_KEY=${entitlementPublicKey}`);
+});
@@ -0,0 +1,28 @@
+// JSON file persistence for the reference server. Everything lives in memory and is written back
+// after each change; fine for a handful of local test accounts, not for production.
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const DATA_FILE = process.env.REFERENCE_SERVER_DATA || join(tmpdir(), 'ivoice-reference-server.json');
+
+const empty = () => ({ users: [], refreshTokens: [], resetTokens: [], usage: {}, signingKey: null });
+
+const load = () => {
+  if (!existsSync(DATA_FILE)) return empty();
+  try {
+    return { ...empty(), ...JSON.parse(readFileSync(DATA_FILE, 'utf8')) };
+  } catch (err) {
+    console.warn(`Could not read ${DATA_FILE}, starting empty:`, err.message);
+    return empty();
+  }
+};
+
+export const db = load();
+
+export const save = () => {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  writeFileSync(DATA_FILE, JSON.stringify(db, null, 2));
+};
+
+export const dataFile = DATA_FILE;
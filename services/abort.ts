@@ -0,0 +1,64 @@
+import { TranslationRequestOptions } from "../types";
+import { CancelledError, RequestTimeoutError, toTranslationError } from "./errors";
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+// Rejects as soon as the signal fires, even if the wrapped work ignores it (e.g. WASM inference)
+const abortable = <T>(work: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+const runUnderSignal = async <T>(
+  callerSignal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const timer = timeoutMs === undefined
+    ? undefined
+    : setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+  const onCallerAbort = () => controller.abort(new CancelledError());
+
+  if (callerSignal?.aborted) onCallerAbort();
+  else callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+
+  try {
+    return await abortable(run(controller.signal), controller.signal);
+  } catch (err) {
+    throw toTranslationError(controller.signal.aborted ? controller.signal.reason : err);
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+  }
+};
+
+/**
+ * Runs one service call under the caller's abort signal plus a per-request timeout.
+ * The combined signal is handed to `run` so it can be passed on to fetch or the SDK.
+ */
+export const withRequestSignal = <T>(
+  options: TranslationRequestOptions | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => runUnderSignal(options?.signal, options?.timeoutMs ?? DEFAULT_TIMEOUT_MS, run);
+
+// For calls that retry: only the caller's signal applies here, withRetry gives every attempt its own timeout
+export const withCancellation = <T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> =>
+  runUnderSignal(signal, undefined, run);
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { selectAlternative } from "./alternatives";
+import { buildFormalityInstruction } from "./prompts";
+import { TranslationResult } from "../types";
+
+const RESULT: TranslationResult = {
+  original_text: "Thank you",
+  detected_language: "en",
+  translated_text: "ありがとうございます",
+  phonetic: "arigatou gozaimasu",
+  alternatives: [
+    { translated_text: "ありがとう", phonetic: "arigatou", note: "casual" },
+    { translated_text: "どうも", phonetic: "doumo", note: "brief" },
+  ],
+};
+
+describe("selectAlternative", () => {
+  it("promotes the chosen alternative and keeps the old translation selectable", () => {
+    const next = selectAlternative(RESULT, 1);
+    expect(next.translated_text).toBe("どうも");
+    expect(next.phonetic).toBe("doumo");
+    expect(next.alternatives).toEqual([
+      { translated_text: "ありがとうございます", phonetic: "arigatou gozaimasu", note: "" },
+      { translated_text: "ありがとう", phonetic: "arigatou", note: "casual" },
+    ]);
+  });
+
+  it("switches back to the original translation", () => {
+    expect(selectAlternative(selectAlternative(RESULT, 0), 0).translated_text).toBe(RESULT.translated_text);
+  });
+
+  it("ignores an index with no alternative", () => {
+    expect(selectAlternative(RESULT, 5)).toBe(RESULT);
+    expect(selectAlternative({ ...RESULT, alternatives: undefined }, 0).translated_text).toBe(RESULT.translated_text);
+  });
+});
+
+describe("buildFormalityInstruction", () => {
+  it("adds nothing for the neutral register", () => {
+    expect(buildFormalityInstruction()).toBe("");
+    expect(buildFormalityInstruction("neutral")).toBe("");
+  });
+
+  it("names the register otherwise", () => {
+    expect(buildFormalityInstruction("formal")).toMatch(/^\n\nRegister: Use a formal/);
+    expect(buildFormalityInstruction("casual")).toMatch(/^\n\nRegister: Use a casual/);
+  });
+});
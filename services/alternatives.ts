@@ -0,0 +1,18 @@
+import { TranslationResult } from "../types";
+
+// Promotes an alternative to the main translation; the previous main one becomes an alternative
+// with an empty note, so the user can switch back
+export const selectAlternative = (result: TranslationResult, index: number): TranslationResult => {
+  const alternatives = result.alternatives || [];
+  const chosen = alternatives[index];
+  if (!chosen) return result;
+  return {
+    ...result,
+    translated_text: chosen.translated_text,
+    phonetic: chosen.phonetic,
+    alternatives: [
+      { translated_text: result.translated_text, phonetic: result.phonetic, note: "" },
+      ...alternatives.filter((_, i) => i !== index),
+    ],
+  };
+};
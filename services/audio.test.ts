@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { splitAtSilences } from "./audio";
+
+const RATE = 1000;
+
+// Alternating stretches of a loud tone and silence, lengths in seconds. The silence threshold follows the
+// quietest tenth of the recording, so each one needs more than that in pauses, as real speech has.
+const recording = (...parts: Array<["speech" | "pause", number]>): Float32Array => {
+  const pcm = new Float32Array(parts.reduce((sum, [, seconds]) => sum + Math.round(seconds * RATE), 0));
+  let offset = 0;
+  for (const [kind, seconds] of parts) {
+    const length = Math.round(seconds * RATE);
+    if (kind === "speech") for (let i = 0; i < length; i++) pcm[offset + i] = Math.sin(i) * 0.5;
+    offset += length;
+  }
+  return pcm;
+};
+
+describe("splitAtSilences", () => {
+  it("keeps a short recording whole", () => {
+    const spans = splitAtSilences(recording(["speech", 1.5], ["pause", 0.5]), RATE, 10);
+    expect(spans).toEqual([{ start: 0, end: 2, silent: false }]);
+  });
+
+  it("cuts inside the pause instead of through speech", () => {
+    const spans = splitAtSilences(recording(["speech", 4], ["pause", 2], ["speech", 4]), RATE, 7);
+    expect(spans).toHaveLength(2);
+    expect(spans[0].end).toBeGreaterThan(4);
+    expect(spans[0].end).toBeLessThan(6);
+  });
+
+  it("covers the recording without gaps or spans over the limit", () => {
+    const spans = splitAtSilences(recording(["speech", 12], ["pause", 3], ["speech", 12], ["pause", 3], ["speech", 12]), RATE, 10);
+    expect(spans[0].start).toBe(0);
+    expect(spans[spans.length - 1].end).toBeCloseTo(42);
+    spans.forEach((span, i) => {
+      expect(span.end - span.start).toBeLessThanOrEqual(10);
+      if (i > 0) expect(span.start).toBe(spans[i - 1].end);
+    });
+  });
+
+  it("marks spans without speech as silent", () => {
+    const spans = splitAtSilences(recording(["speech", 8], ["pause", 9], ["speech", 8]), RATE, 10);
+    expect(spans.some(span => span.silent)).toBe(true);
+    expect(spans[0].silent).toBe(false);
+  });
+
+  it("terminates when the limit is a single frame", () => {
+    const spans = splitAtSilences(recording(["speech", 0.3], ["pause", 0.3]), RATE, 0.03);
+    expect(spans.length).toBeGreaterThan(1);
+    expect(spans[spans.length - 1].end).toBeCloseTo(0.6);
+  });
+});
@@ -0,0 +1,128 @@
+export const SPEECH_SAMPLE_RATE = 16000;
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Decodes any browser-playable recording into mono PCM at the rate speech models expect
+export const decodeToMonoPcm = async (blob: Blob, sampleRate: number = SPEECH_SAMPLE_RATE): Promise<Float32Array> => {
+  const decoder = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const decoded = await decoder.decodeAudioData(await blob.arrayBuffer());
+    const length = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+    const offline = new OfflineAudioContext(1, length, sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    decoder.close();
+  }
+};
+
+// 16-bit PCM WAV: every engine accepts it, and its size is known up front (2 bytes per sample plus a 44-byte header)
+export const encodeWav = (pcm: Float32Array, sampleRate: number = SPEECH_SAMPLE_RATE): Blob => {
+  const buffer = new ArrayBuffer(44 + pcm.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + pcm.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, pcm.length * 2, true);
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = Math.max(-1, Math.min(1, pcm[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+};
+
+const FRAME_SECONDS = 0.03;
+// A pause this long is treated as a sentence break worth cutting at
+const MIN_PAUSE_SECONDS = 0.3;
+
+// RMS level of each `frameSize`-sample frame
+export const frameLevels = (pcm: Float32Array, frameSize: number): Float32Array => {
+  const levels = new Float32Array(Math.ceil(pcm.length / frameSize));
+  for (let f = 0; f < levels.length; f++) {
+    let sum = 0;
+    const end = Math.min(pcm.length, (f + 1) * frameSize);
+    for (let i = f * frameSize; i < end; i++) sum += pcm[i] * pcm[i];
+    levels[f] = Math.sqrt(sum / Math.max(1, end - f * frameSize));
+  }
+  return levels;
+};
+
+export interface AudioSpan {
+  start: number;
+  end: number;
+  silent: boolean;
+}
+
+/**
+ * Cuts a recording into spans of at most `maxSeconds`. Each cut goes in the middle of the latest real pause
+ * in the second half of the window, else the longest short pause, else the quietest moment. The silence
+ * threshold follows the recording's own noise floor, so hiss or room tone doesn't count as speech.
+ */
+export const splitAtSilences = (pcm: Float32Array, sampleRate: number, maxSeconds: number): AudioSpan[] => {
+  const frameSize = Math.round(sampleRate * FRAME_SECONDS);
+  const levels = frameLevels(pcm, frameSize);
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] || 0;
+  const threshold = Math.max(0.01, noiseFloor * 2);
+  const maxFrames = Math.max(1, Math.floor(maxSeconds / FRAME_SECONDS));
+  const pauseFrames = Math.round(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+
+  const cuts: number[] = [];
+  for (let start = 0; levels.length - start > maxFrames; ) {
+    let latestPause = -1;
+    let longest = { run: 0, at: -1 };
+    let quietest = { level: Infinity, at: start + maxFrames };
+    for (let f = start + Math.floor(maxFrames / 2), run = 0; f < start + maxFrames; f++) {
+      run = levels[f] < threshold ? run + 1 : 0;
+      const middle = f - Math.floor(run / 2);
+      if (run >= pauseFrames) latestPause = middle;
+      if (run > longest.run) longest = { run, at: middle };
+      if (levels[f] < quietest.level) quietest = { level: levels[f], at: f };
+    }
+    // A one-frame window can pick `start` itself; always move forward so the loop ends
+    const cut = Math.max(start + 1, latestPause >= 0 ? latestPause : longest.at >= 0 ? longest.at : quietest.at);
+    cuts.push(cut);
+    start = cut;
+  }
+
+  const bounds = [0, ...cuts, levels.length];
+  return bounds.slice(0, -1).map((from, i) => {
+    const to = bounds[i + 1];
+    let silent = true;
+    for (let f = from; f < to && silent; f++) silent = levels[f] < threshold;
+    return {
+      start: (from * frameSize) / sampleRate,
+      end: Math.min(pcm.length, to * frameSize) / sampleRate,
+      silent,
+    };
+  });
+};
@@ -0,0 +1,136 @@
+import { SPEECH_SAMPLE_RATE, decodeToMonoPcm, encodeWav, frameLevels } from "./audio";
+import { INLINE_AUDIO_LIMIT_BYTES } from "./audioTranscript";
+import { canEncodeOpus, encodeOggOpus } from "./oggOpus";
+import { AudioTooLargeError, NoSpeechError } from "./errors";
+
+// The browser's own noise suppression does the heavy lifting on crowd and traffic noise. Its automatic
+// gain control is left off: it pumps the level between words, and normalization below does that job evenly.
+export const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  channelCount: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: false,
+};
+
+// Below the lowest voices; removes handling noise, wind and engine rumble
+const HIGH_PASS_HZ = 100;
+const FRAME_SECONDS = 0.02;
+const MAX_SPEECH_THRESHOLD = 0.02;
+// Kept around the speech when trimming so soft consonants at either end survive
+const TRIM_PADDING_SECONDS = 0.25;
+// Pauses between words are turned down by this much rather than muted, which would sound choppy
+const NOISE_GATE_GAIN = 0.25;
+// -20 dBFS average over the spoken frames, with peaks held under -1 dBFS
+const TARGET_SPEECH_RMS = 0.1;
+const PEAK_LIMIT = 0.89;
+const MAX_NORMALIZE_GAIN = 10;
+// Room for the prompt next to the base64 audio in the same request
+const PROMPT_ALLOWANCE_BYTES = 64 * 1024;
+
+/**
+ * Live part of the chain, between the sensitivity gain and the recorder: a high-pass filter, then a
+ * gentle compressor that evens out a speaker leaning in and out. Returns the node to record from.
+ */
+export const connectSpeechFilters = (context: BaseAudioContext, input: AudioNode): AudioNode => {
+  const highPass = context.createBiquadFilter();
+  highPass.type = "highpass";
+  highPass.frequency.value = HIGH_PASS_HZ;
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = -30;
+  compressor.knee.value = 12;
+  compressor.ratio.value = 4;
+  compressor.attack.value = 0.005;
+  compressor.release.value = 0.25;
+  input.connect(highPass);
+  highPass.connect(compressor);
+  return compressor;
+};
+
+// Speech is anything well above the recording's own noise floor (its quietest tenth). Capped, because a
+// short clip that is speech from end to end has no real noise floor to measure.
+const speechThreshold = (levels: Float32Array): number => {
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] || 0;
+  return Math.min(MAX_SPEECH_THRESHOLD, Math.max(0.005, noiseFloor * 3));
+};
+
+/**
+ * Cleans up a recording for recognition: trims the silence before and after the speech, turns down the
+ * noise in the pauses and brings the speech to a consistent loudness. Input and output are mono PCM.
+ * Throws NoSpeechError when nothing rises above the noise, so an empty recording is never uploaded.
+ */
+export const cleanSpeech = (pcm: Float32Array, sampleRate: number): Float32Array => {
+  const frameSize = Math.round(sampleRate * FRAME_SECONDS);
+  const levels = frameLevels(pcm, frameSize);
+  const threshold = speechThreshold(levels);
+  const voiced = levels.map(level => (level >= threshold ? 1 : 0));
+  const first = voiced.indexOf(1);
+  if (first === -1) throw new NoSpeechError();
+  const last = voiced.lastIndexOf(1);
+
+  const padding = Math.round(TRIM_PADDING_SECONDS / FRAME_SECONDS);
+  const fromFrame = Math.max(0, first - padding);
+  const toFrame = Math.min(levels.length, last + 1 + padding);
+  const out = pcm.slice(fromFrame * frameSize, Math.min(pcm.length, toFrame * frameSize));
+
+  // Gate gain per frame, opening at once on speech and closing over ~100 ms, then interpolated per sample
+  const gains = new Float32Array(toFrame - fromFrame);
+  let gain = NOISE_GATE_GAIN;
+  for (let f = 0; f < gains.length; f++) {
+    const target = voiced[fromFrame + f] ? 1 : NOISE_GATE_GAIN;
+    gain = target > gain ? target : gain + (target - gain) * 0.2;
+    gains[f] = gain;
+  }
+  let speechEnergy = 0;
+  let speechSamples = 0;
+  for (let i = 0; i < out.length; i++) {
+    const position = i / frameSize - 0.5;
+    const f = Math.max(0, Math.min(gains.length - 1, Math.floor(position)));
+    const next = Math.min(gains.length - 1, f + 1);
+    const mix = Math.max(0, Math.min(1, position - f));
+    out[i] *= gains[f] + (gains[next] - gains[f]) * mix;
+    if (voiced[fromFrame + Math.floor(i / frameSize)]) {
+      speechEnergy += out[i] * out[i];
+      speechSamples++;
+    }
+  }
+
+  let peak = 0;
+  for (let i = 0; i < out.length; i++) peak = Math.max(peak, Math.abs(out[i]));
+  const rms = Math.sqrt(speechEnergy / Math.max(1, speechSamples));
+  const normalize = Math.min(MAX_NORMALIZE_GAIN, rms > 0 ? TARGET_SPEECH_RMS / rms : 1, peak > 0 ? PEAK_LIMIT / peak : 1);
+  for (let i = 0; i < out.length; i++) out[i] *= normalize;
+  return out;
+};
+
+// Measured as base64, the way the audio travels inside the request
+const checkSize = (audio: Blob): Blob => {
+  if (Math.ceil(audio.size / 3) * 4 > INLINE_AUDIO_LIMIT_BYTES - PROMPT_ALLOWANCE_BYTES) {
+    throw new AudioTooLargeError(`The recording is ${audio.size} bytes after encoding.`);
+  }
+  return audio;
+};
+
+/**
+ * Turns a raw microphone recording into the compact upload the engines receive: resampled to 16 kHz mono,
+ * cleaned by `cleanSpeech`, then encoded as Ogg Opus where the browser has a WebCodecs encoder and as 16-bit
+ * WAV otherwise. Throws AudioTooLargeError when even that doesn't fit into one request.
+ */
+export const prepareSpeechRecording = async (recording: Blob): Promise<Blob> => {
+  let pcm: Float32Array;
+  try {
+    pcm = await decodeToMonoPcm(recording, SPEECH_SAMPLE_RATE);
+  } catch (e) {
+    // A container this browser records but can't decode again; the engine may still read it as it is
+    console.warn("Could not decode the recording for preprocessing", e);
+    return checkSize(recording);
+  }
+  const cleaned = cleanSpeech(pcm, SPEECH_SAMPLE_RATE);
+  try {
+    if (await canEncodeOpus(SPEECH_SAMPLE_RATE)) return checkSize(await encodeOggOpus(cleaned, SPEECH_SAMPLE_RATE));
+  } catch (e) {
+    if (e instanceof AudioTooLargeError) throw e;
+    console.warn("Opus encoding failed, sending WAV instead", e);
+  }
+  return checkSize(encodeWav(cleaned, SPEECH_SAMPLE_RATE));
+};
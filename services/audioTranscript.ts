@@ -0,0 +1,141 @@
+import { AudioTranscriptJob, TranscriptExportFormat, TranscriptSegment, TranslationResult } from "../types";
+import { SPEECH_SAMPLE_RATE, blobToBase64, decodeToMonoPcm, encodeWav, splitAtSilences } from "./audio";
+import { ExportedFile } from "./historyExport";
+import { serializeSubtitles } from "./subtitles";
+import { toTranslationError } from "./errors";
+
+// Inline audio shares the request's 20 MB cap with the prompt, and base64 adds a third on top
+export const INLINE_AUDIO_LIMIT_BYTES = 20 * 1024 * 1024;
+// Shorter than the size cap allows, so each reply stays well inside the model's output budget
+export const MAX_SEGMENT_SECONDS = 60;
+export const TRANSCRIPT_CONCURRENCY = 2;
+// Uploading and transcribing up to a minute of audio needs more than the default request timeout
+export const SEGMENT_TIMEOUT_MS = 90000;
+
+const WAV_BYTES_PER_SECOND = SPEECH_SAMPLE_RATE * 2;
+
+export const segmentSeconds = (): number =>
+  Math.min(MAX_SEGMENT_SECONDS, Math.floor((INLINE_AUDIO_LIMIT_BYTES * 0.75 - 64 * 1024) / WAV_BYTES_PER_SECOND));
+
+export type SegmentTranslator = (
+  base64Audio: string,
+  mimeType: string,
+  signal: AbortSignal,
+  timeoutMs: number
+) => Promise<TranslationResult>;
+
+interface TranscriptOptions {
+  concurrency?: number;
+  signal: AbortSignal;
+  onProgress?: (job: AudioTranscriptJob) => void;
+}
+
+export interface PreparedAudio {
+  job: AudioTranscriptJob;
+  pcm: Float32Array;
+}
+
+export const prepareAudioFile = async (file: File): Promise<PreparedAudio> => {
+  const pcm = await decodeToMonoPcm(file, SPEECH_SAMPLE_RATE);
+  const segments: TranscriptSegment[] = splitAtSilences(pcm, SPEECH_SAMPLE_RATE, segmentSeconds()).map((span, index) => ({
+    index,
+    ...span,
+    // Nothing to hear, so nothing to send
+    status: span.silent ? "done" : "pending",
+  }));
+  return {
+    pcm,
+    job: { name: file.name, duration: pcm.length / SPEECH_SAMPLE_RATE, sampleRate: SPEECH_SAMPLE_RATE, segments },
+  };
+};
+
+const segmentAudio = (pcm: Float32Array, job: AudioTranscriptJob, segment: TranscriptSegment): Blob =>
+  encodeWav(pcm.subarray(Math.floor(segment.start * job.sampleRate), Math.ceil(segment.end * job.sampleRate)), job.sampleRate);
+
+const translateSegment = async (
+  pcm: Float32Array,
+  job: AudioTranscriptJob,
+  segment: TranscriptSegment,
+  translate: SegmentTranslator,
+  signal: AbortSignal
+): Promise<TranscriptSegment> => {
+  const audio = segmentAudio(pcm, job, segment);
+  try {
+    const result = await translate(await blobToBase64(audio), audio.type, signal, SEGMENT_TIMEOUT_MS);
+    return { ...segment, status: "done", result, error: undefined };
+  } catch (err) {
+    if (signal.aborted) throw toTranslationError(signal.reason);
+    const error = toTranslationError(err);
+    // Music or noise between speakers isn't a failure, the segment just has no words
+    if (error.code === "no_speech") return { ...segment, status: "done", result: undefined, error: undefined };
+    return { ...segment, status: "failed", error: error.message };
+  }
+};
+
+/**
+ * Translates every segment that is not done yet, a few at a time and in order of position.
+ * Like document translation, calling it again on the returned job retries only the failed segments.
+ */
+export const transcribeAudio = async (
+  job: AudioTranscriptJob,
+  pcm: Float32Array,
+  translate: SegmentTranslator,
+  { concurrency = TRANSCRIPT_CONCURRENCY, signal, onProgress }: TranscriptOptions
+): Promise<AudioTranscriptJob> => {
+  let current: AudioTranscriptJob = {
+    ...job,
+    segments: job.segments.map(s => (s.status === "failed" ? { ...s, status: "pending", error: undefined } : s)),
+  };
+  const queue = current.segments.filter(s => s.status !== "done").map(s => s.index);
+  onProgress?.(current);
+
+  const worker = async () => {
+    for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+      const updated = await translateSegment(pcm, current, current.segments[next], translate, signal);
+      current = { ...current, segments: current.segments.map(s => (s.index === updated.index ? updated : s)) };
+      onProgress?.(current);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return current;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// 83.5 -> "00:01:23,500" (SRT) or "00:01:23.500" (WebVTT)
+export const formatTimestamp = (seconds: number, separator: "," | "." = "."): string => {
+  const ms = Math.round(seconds * 1000);
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const spoken = (job: AudioTranscriptJob) => job.segments.filter(s => s.result?.original_text.trim());
+
+const toText = (job: AudioTranscriptJob): string =>
+  spoken(job)
+    .map(s => `[${formatTimestamp(s.start).slice(0, 8)} - ${formatTimestamp(s.end).slice(0, 8)}]\n${s.result!.original_text}\n${s.result!.translated_text}`)
+    .join("\n\n") + "\n";
+
+const toSubtitles = (job: AudioTranscriptJob, format: "srt" | "vtt"): string => {
+  const separator = format === "srt" ? "," : ".";
+  return serializeSubtitles({
+    format,
+    header: "WEBVTT",
+    cues: spoken(job).map((s, i) => ({
+      id: format === "srt" ? String(i + 1) : undefined,
+      timing: `${formatTimestamp(s.start, separator)} --> ${formatTimestamp(s.end, separator)}`,
+      text: `${s.result!.original_text}\n${s.result!.translated_text}`,
+    })),
+  });
+};
+
+export const exportTranscript = (job: AudioTranscriptJob, format: TranscriptExportFormat): ExportedFile => {
+  const baseName = job.name.replace(/\.[^.]+$/, "");
+  switch (format) {
+    case "srt":
+      return { filename: `${baseName}.transcript.srt`, mimeType: "application/x-subrip;charset=utf-8", content: toSubtitles(job, "srt") };
+    case "vtt":
+      return { filename: `${baseName}.transcript.vtt`, mimeType: "text/vtt;charset=utf-8", content: toSubtitles(job, "vtt") };
+    case "txt":
+      return { filename: `${baseName}.transcript.txt`, mimeType: "text/plain;charset=utf-8", content: toText(job) };
+  }
+};
@@ -0,0 +1,200 @@
+import { User } from "../types";
+
+// Backend for accounts and sessions; `npm run server` starts a reference implementation on this default
+const AUTH_API_URL = (process.env.AUTH_API_URL || "http://localhost:8787").replace(/\/+$/, "");
+const SESSION_KEY = "gv_session";
+// Refresh slightly early so a request never leaves with a token that lapses in flight
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch ms at which the access token stops being accepted
+  expiresAt: number;
+  user: User;
+}
+
+export type AccountErrorCode =
+  | "invalid_request"
+  | "invalid_credentials"
+  | "email_taken"
+  | "weak_password"
+  | "invalid_token"
+  | "invalid_code"
+  | "quota_exceeded"
+  | "network"
+  | "server";
+
+const SERVER_CODES: AccountErrorCode[] = [
+  "invalid_request",
+  "invalid_credentials",
+  "email_taken",
+  "weak_password",
+  "invalid_token",
+  "invalid_code",
+  "quota_exceeded",
+];
+
+/**
+ * Thrown by every call in this module. `message` is developer-facing English;
+ * user-facing text comes from I18N via `auth_error_${code}`.
+ */
+export class AccountError extends Error {
+  readonly code: AccountErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: AccountErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = "AccountError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+const readStoredSession = (): Session | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SESSION_KEY) || "null");
+    return saved?.accessToken && saved?.refreshToken && saved?.user ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+let session: Session | null = readStoredSession();
+let refreshing: Promise<Session | null> | null = null;
+const listeners = new Set<(session: Session | null) => void>();
+
+const setSession = (next: Session | null) => {
+  session = next;
+  if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  else localStorage.removeItem(SESSION_KEY);
+  listeners.forEach(listener => listener(next));
+};
+
+export const getStoredSession = (): Session | null => session;
+
+// Fires on sign-in, token refresh and sign-out, including a sign-out forced by an expired session
+export const onSessionChange = (listener: (session: Session | null) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const request = async <T>(method: string, path: string, body?: unknown, accessToken?: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${AUTH_API_URL}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (err) {
+    throw new AccountError("network", "The account server could not be reached.", err);
+  }
+  if (response.status === 204) return undefined as T;
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const code = SERVER_CODES.find(c => c === data?.error) || (response.status >= 500 ? "server" : "invalid_request");
+    throw new AccountError(code, data?.message || `Account server answered ${response.status}.`);
+  }
+  return data as T;
+};
+
+// Concurrent callers share one refresh: each refresh token is single-use, so a second exchange would fail
+const refreshSession = (): Promise<Session | null> => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const current = session;
+      if (!current) return null;
+      try {
+        const next = await request<Session>("POST", "/auth/refresh", { refreshToken: current.refreshToken });
+        setSession(next);
+        return next;
+      } catch (err) {
+        if (err instanceof AccountError && err.code === "invalid_token") setSession(null);
+        throw err;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+// A usable access token, refreshed first when the current one is about to expire; null when signed out
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!session) return null;
+  if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+  return (await refreshSession())?.accessToken ?? null;
+};
+
+/**
+ * Calls an endpoint that needs the signed-in user. A 401 triggers one refresh and retry, which covers
+ * tokens signed before a server restart and clocks that disagree about expiry.
+ */
+export const authFetch = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const token = await getAccessToken();
+  if (!token) throw new AccountError("invalid_token", "Not signed in.");
+  try {
+    return await request<T>(method, path, body, token);
+  } catch (err) {
+    if (!(err instanceof AccountError && err.code === "invalid_token")) throw err;
+    const next = await refreshSession();
+    if (!next) throw err;
+    return request<T>(method, path, body, next.accessToken);
+  }
+};
+
+export const signUp = async (name: string, email: string, password: string): Promise<User> => {
+  const next = await request<Session>("POST", "/auth/signup", { name, email, password });
+  setSession(next);
+  return next.user;
+};
+
+export const signIn = async (email: string, password: string): Promise<User> => {
+  const next = await request<Session>("POST", "/auth/signin", { email, password });
+  setSession(next);
+  return next.user;
+};
+
+// Local sign-out happens immediately; revoking the refresh token on the server is best effort
+export const signOut = async (): Promise<void> => {
+  const current = session;
+  setSession(null);
+  if (!current) return;
+  await request("POST", "/auth/signout", { refreshToken: current.refreshToken }).catch(err =>
+    console.warn("Could not revoke the session on the server", err)
+  );
+};
+
+// Resolves even for unknown emails; the server sends the code out of band
+export const requestPasswordReset = (email: string): Promise<void> =>
+  request<void>("POST", "/auth/password/forgot", { email });
+
+export const resetPassword = (code: string, password: string): Promise<void> =>
+  request<void>("POST", "/auth/password/reset", { code, password });
+
+export const deleteAccount = async (password: string): Promise<void> => {
+  await authFetch<void>("DELETE", "/auth/account", { password });
+  setSession(null);
+};
+
+/**
+ * Confirms the stored session with the server at start-up and picks up account changes made elsewhere.
+ * Network and server failures keep the stored session, so the app stays usable offline.
+ */
+export const restoreSession = async (): Promise<User | null> => {
+  if (!session) return null;
+  try {
+    const user = await authFetch<User>("GET", "/auth/me");
+    if (session) setSession({ ...session, user });
+    return user;
+  } catch (err) {
+    if (err instanceof AccountError && err.code === "invalid_token") setSession(null);
+    else console.warn("Could not confirm the stored session", err);
+    return session?.user ?? null;
+  }
+};
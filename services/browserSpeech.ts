@@ -0,0 +1,57 @@
+import { LiveSpeechProvider, SpeechOptions, SpeechVoice } from "../types";
+
+const VOICES_TIMEOUT_MS = 1500;
+
+const baseLanguage = (locale: string) => locale.toLowerCase().replace("_", "-").split("-")[0];
+const sameLocale = (a: string, b: string) => a.toLowerCase().replace("_", "-") === b.toLowerCase().replace("_", "-");
+
+// Chrome fills the voice list asynchronously, so the first call after page load can come back empty
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      window.speechSynthesis.removeEventListener("voiceschanged", done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+    window.speechSynthesis.addEventListener("voiceschanged", done);
+  });
+};
+
+// Exact locale first, then the same language from another region; on-device voices before network ones
+const voicesFor = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice[] =>
+  voices
+    .filter(v => baseLanguage(v.lang) === baseLanguage(locale))
+    .sort((a, b) => Number(sameLocale(b.lang, locale)) - Number(sameLocale(a.lang, locale)) || Number(b.localService) - Number(a.localService));
+
+export const hasBrowserVoice = async (locale: string): Promise<boolean> =>
+  "speechSynthesis" in window && voicesFor(await loadVoices(), locale).length > 0;
+
+export const createBrowserSpeechProvider = (): LiveSpeechProvider => ({
+  id: "browser",
+  kind: "live",
+  isAvailable: () => "speechSynthesis" in window,
+  listVoices: async (locale: string): Promise<SpeechVoice[]> =>
+    voicesFor(await loadVoices(), locale).map(v => ({ id: v.voiceURI, name: v.name, locale: v.lang })),
+  speak: async (text: string, locale: string, { voiceId, rate, pitch, volume, signal }: SpeechOptions) => {
+    const candidates = voicesFor(await loadVoices(), locale);
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.volume = volume;
+    const voice = candidates.find(v => v.voiceURI === voiceId) || candidates[0];
+    if (voice) utterance.voice = voice;
+    await new Promise<void>(resolve => {
+      utterance.onend = () => resolve();
+      // "interrupted"/"canceled" when a newer utterance takes over; nothing to report either way
+      utterance.onerror = () => resolve();
+      signal?.addEventListener("abort", () => window.speechSynthesis.cancel(), { once: true });
+      window.speechSynthesis.speak(utterance);
+    });
+  },
+  stop: () => window.speechSynthesis?.cancel(),
+});
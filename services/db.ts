@@ -0,0 +1,103 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every store is created in `upgrade`; bump DB_VERSION when adding one.
+const DB_NAME = "ivoice";
+const DB_VERSION = 6;
+
+export const STORES = {
+  languagePacks: "languagePacks",
+  translationCache: "translationCache",
+  history: "history",
+  studyCards: "studyCards",
+  glossary: "glossary",
+  speechAudio: "speechAudio",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.languagePacks)) {
+    db.createObjectStore(STORES.languagePacks, { keyPath: "code" });
+  }
+  if (!db.objectStoreNames.contains(STORES.translationCache)) {
+    const cache = db.createObjectStore(STORES.translationCache, { keyPath: "key" });
+    cache.createIndex("lastAccess", "lastAccess");
+    cache.createIndex("lookup", ["input", "mother", "target"]);
+  }
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    const history = db.createObjectStore(STORES.history, { keyPath: "id" });
+    history.createIndex("timestamp", "timestamp");
+  }
+  if (!db.objectStoreNames.contains(STORES.studyCards)) {
+    const cards = db.createObjectStore(STORES.studyCards, { keyPath: "id" });
+    cards.createIndex("due", "due");
+  }
+  if (!db.objectStoreNames.contains(STORES.glossary)) {
+    const glossary = db.createObjectStore(STORES.glossary, { keyPath: "id" });
+    glossary.createIndex("pair", ["mother", "target"]);
+  }
+  if (!db.objectStoreNames.contains(STORES.speechAudio)) {
+    const speech = db.createObjectStore(STORES.speechAudio, { keyPath: "historyId" });
+    speech.createIndex("lastAccess", "lastAccess");
+  }
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const getAll = <T>(store: StoreName) => withStore<T[]>(store, "readonly", s => s.getAll());
+export const getOne = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(store, "readonly", s => s.get(key));
+export const putOne = <T>(store: StoreName, value: T) => withStore(store, "readwrite", s => s.put(value));
+export const deleteOne = (store: StoreName, key: IDBValidKey) => withStore(store, "readwrite", s => s.delete(key));
+
+// Everything the user created or had translated; offline packs are shared downloads and stay
+const USER_DATA_STORES: StoreName[] = [
+  STORES.history,
+  STORES.speechAudio,
+  STORES.studyCards,
+  STORES.glossary,
+  STORES.translationCache,
+];
+
+export const clearUserData = async () => {
+  const db = await openDB();
+  const tx = db.transaction(USER_DATA_STORES, "readwrite");
+  USER_DATA_STORES.forEach(store => tx.objectStore(store).clear());
+  await transactionDone(tx);
+};
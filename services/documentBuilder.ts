@@ -0,0 +1,157 @@
+import { DocumentBlock, DocumentFormat, DocumentJob, LanguageOption } from "../types";
+import { ExportedFile } from "./historyExport";
+import { translatedBlocks } from "./documentTranslation";
+import { applyCueTranslations, serializeSubtitles } from "./subtitles";
+
+// PDFs can't be rewritten faithfully, so their translation is delivered as a Word document
+const OUTPUT_FORMAT: Record<DocumentFormat, DocumentFormat> = {
+  pdf: "docx",
+  docx: "docx",
+  md: "md",
+  txt: "txt",
+  srt: "srt",
+  vtt: "vtt",
+};
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  md: "text/markdown;charset=utf-8",
+  txt: "text/plain;charset=utf-8",
+  srt: "application/x-subrip;charset=utf-8",
+  vtt: "text/vtt;charset=utf-8",
+};
+
+export interface DocumentOutputOptions {
+  // Subtitles only: keep the original line above the translation in every cue
+  bilingual?: boolean;
+}
+
+const ORDERED_LIST = "ordered-list";
+
+// Glues the pieces of over-long paragraphs back into one block
+const mergeContinuations = (blocks: DocumentBlock[]): DocumentBlock[] =>
+  blocks.reduce<DocumentBlock[]>((merged, block) => {
+    const last = merged[merged.length - 1];
+    if (block.continues && last) merged[merged.length - 1] = { ...last, text: `${last.text} ${block.text}` };
+    else merged.push({ ...block, continues: undefined });
+    return merged;
+  }, []);
+
+// A top-level switch between bullets and numbers starts a new list
+const continuesList = (block: DocumentBlock, previous?: DocumentBlock) =>
+  block.type === "list-item" &&
+  previous?.type === "list-item" &&
+  !(!block.level && !previous.level && block.ordered !== previous.ordered);
+
+const toMarkdown = (blocks: DocumentBlock[]): string => {
+  const counters: number[] = [];
+  return blocks
+    .map((block, i) => {
+      const sameList = continuesList(block, blocks[i - 1]);
+      const separator = i === 0 ? "" : sameList ? "\n" : "\n\n";
+      if (!sameList) counters.length = 0;
+      switch (block.type) {
+        case "heading":
+          return `${separator}${"#".repeat(block.level || 1)} ${block.text}`;
+        case "code":
+          return `${separator}\`\`\`\n${block.text}\n\`\`\``;
+        case "list-item": {
+          const level = block.level || 0;
+          counters.length = level + 1;
+          counters[level] = (counters[level] || 0) + 1;
+          const marker = block.ordered ? `${counters[level]}.` : "-";
+          return `${separator}${"  ".repeat(level)}${marker} ${block.text}`;
+        }
+        default:
+          return `${separator}${block.text}`;
+      }
+    })
+    .join("") + "\n";
+};
+
+const toPlainText = (blocks: DocumentBlock[]): string =>
+  blocks.map(block => (block.type === "list-item" ? `${"  ".repeat(block.level || 0)}- ${block.text}` : block.text)).join("\n\n") + "\n";
+
+const toDocx = async (blocks: DocumentBlock[], rtl: boolean): Promise<Blob> => {
+  const { AlignmentType, Document, HeadingLevel, LevelFormat, Packer, Paragraph } = await import("docx");
+  const headings = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+  ];
+  // Every run of numbered items gets its own instance so numbering restarts at 1
+  let listInstance = 0;
+
+  const paragraphs = blocks.map((block, i) => {
+    const base = { text: block.text, bidirectional: rtl };
+    switch (block.type) {
+      case "heading":
+        return new Paragraph({ ...base, heading: headings[Math.min(5, Math.max(0, (block.level || 1) - 1))] });
+      case "list-item": {
+        const level = Math.min(8, block.level || 0);
+        if (!block.ordered) return new Paragraph({ ...base, bullet: { level } });
+        if (!continuesList(block, blocks[i - 1])) listInstance++;
+        return new Paragraph({ ...base, numbering: { reference: ORDERED_LIST, level, instance: listInstance } });
+      }
+      case "code":
+        return new Paragraph({ text: block.text, style: "Code" });
+      default:
+        return new Paragraph(base);
+    }
+  });
+
+  const document = new Document({
+    styles: {
+      paragraphStyles: [{ id: "Code", name: "Code", run: { font: "Courier New", size: 20 } }],
+    },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{ children: paragraphs }],
+  });
+  return Packer.toBlob(document);
+};
+
+const renderContent = async (job: DocumentJob, format: DocumentFormat, targetLang: LanguageOption, options: DocumentOutputOptions) => {
+  const { subtitles } = job.document;
+  if (subtitles) {
+    return serializeSubtitles(applyCueTranslations(subtitles, translatedBlocks(job).map(b => b.text), options.bilingual));
+  }
+  const blocks = mergeContinuations(translatedBlocks(job));
+  switch (format) {
+    case "docx":
+      return toDocx(blocks, !!targetLang.rtl);
+    case "md":
+      return toMarkdown(blocks);
+    default:
+      return toPlainText(blocks);
+  }
+};
+
+export const buildTranslatedDocument = async (
+  job: DocumentJob,
+  targetLang: LanguageOption,
+  options: DocumentOutputOptions = {}
+): Promise<ExportedFile> => {
+  const format = OUTPUT_FORMAT[job.document.format];
+  const baseName = job.document.name.replace(/\.[^.]+$/, "");
+  const content = await renderContent(job, format, targetLang, options);
+  return {
+    filename: `${baseName}.${targetLang.variant?.id || targetLang.code}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content,
+  };
+};
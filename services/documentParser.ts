@@ -0,0 +1,251 @@
+import { DocumentBlock, DocumentFormat, ParsedDocument } from "../types";
+import { TranslationError } from "./errors";
+import { parseSubtitles, splitCueMarkup } from "./subtitles";
+
+export const DOCUMENT_ACCEPT = ".pdf,.docx,.txt,.md,.markdown,.srt,.vtt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/markdown,text/vtt";
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  txt: "txt",
+  text: "txt",
+  md: "md",
+  markdown: "md",
+  srt: "srt",
+  vtt: "vtt",
+};
+
+export const detectDocumentFormat = (file: File): DocumentFormat | null => {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+  if (file.type === "text/markdown") return "md";
+  if (file.type === "text/vtt") return "vtt";
+  if (file.type.startsWith("text/")) return "txt";
+  return null;
+};
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+// Blank lines end paragraphs; soft-wrapped lines inside a paragraph are joined with a space
+export const parseMarkdown = (text: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let code: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+    paragraph = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    if (code) {
+      if (FENCE.test(line)) {
+        blocks.push({ type: "code", text: code.join("\n") });
+        code = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+    if (FENCE.test(line)) {
+      flushParagraph();
+      code = [];
+      continue;
+    }
+    const heading = line.match(HEADING);
+    const item = line.match(LIST_ITEM);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", text: heading[2], level: heading[1].length });
+    } else if (item) {
+      flushParagraph();
+      blocks.push({ type: "list-item", text: item[3], level: Math.floor(item[1].replace(/\t/g, "  ").length / 2), ordered: /\d/.test(item[2]) });
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  if (code) blocks.push({ type: "code", text: code.join("\n") });
+  flushParagraph();
+  return blocks;
+};
+
+// Plain text has no markup, so every blank-line separated paragraph is kept with its own line breaks
+export const parsePlainText = (text: string): DocumentBlock[] =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => ({ type: "paragraph", text: part }));
+
+const ownText = (element: Element): string =>
+  Array.from(element.childNodes)
+    .filter(node => !(node instanceof Element && /^(UL|OL)$/.test(node.tagName)))
+    .map(node => node.textContent || "")
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const collectHtmlBlocks = (element: Element, blocks: DocumentBlock[], depth = -1, ordered = false) => {
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      const text = ownText(child);
+      if (text) blocks.push({ type: "heading", text, level: Number(tag[1]) });
+    } else if (tag === "UL" || tag === "OL") {
+      collectHtmlBlocks(child, blocks, depth + 1, tag === "OL");
+    } else if (tag === "LI") {
+      const text = ownText(child);
+      if (text) blocks.push({ type: "list-item", text, level: Math.max(0, depth), ordered });
+      Array.from(child.children)
+        .filter(nested => nested.tagName === "UL" || nested.tagName === "OL")
+        .forEach(nested => collectHtmlBlocks(nested, blocks, depth + 1, nested.tagName === "OL"));
+    } else if (tag === "PRE") {
+      blocks.push({ type: "code", text: child.textContent || "" });
+    } else if (tag === "P") {
+      const text = ownText(child);
+      if (text) blocks.push({ type: "paragraph", text });
+    } else {
+      // Tables, blockquotes and other containers are flattened into their paragraphs
+      collectHtmlBlocks(child, blocks, depth, ordered);
+    }
+  }
+};
+
+const parseDocx = async (file: File): Promise<DocumentBlock[]> => {
+  const { default: mammoth } = await import("mammoth");
+  const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  const blocks: DocumentBlock[] = [];
+  collectHtmlBlocks(new DOMParser().parseFromString(value, "text/html").body, blocks);
+  return blocks;
+};
+
+interface PdfLine {
+  text: string;
+  height: number;
+  top: number;
+}
+
+const PDF_BULLET = /^([•◦▪‣●○■–-]|\d+[.)])\s+/;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+// PDFs carry positioned glyph runs rather than structure, so headings are guessed from font size,
+// list items from leading bullets and paragraph breaks from vertical gaps between lines
+const linesToBlocks = (lines: PdfLine[]): DocumentBlock[] => {
+  const bodyHeight = median(lines.map(l => l.height)) || 1;
+  const blocks: DocumentBlock[] = [];
+  let previous: PdfLine | null = null;
+
+  for (const line of lines) {
+    const ratio = line.height / bodyHeight;
+    const bullet = line.text.match(PDF_BULLET);
+    const gap = previous ? line.top - previous.top : Infinity;
+    const last = blocks[blocks.length - 1];
+
+    if (ratio >= 1.25) {
+      const level = ratio >= 1.6 ? 1 : 2;
+      if (last?.type === "heading" && last.level === level && gap < line.height * 1.5) last.text += ` ${line.text}`;
+      else blocks.push({ type: "heading", text: line.text, level });
+    } else if (bullet) {
+      blocks.push({ type: "list-item", text: line.text.slice(bullet[0].length), level: 0, ordered: /\d/.test(bullet[1]) });
+    } else if (last && last.type !== "heading" && gap < line.height * 1.6) {
+      last.text = last.text.endsWith("-") ? last.text.slice(0, -1) + line.text : `${last.text} ${line.text}`;
+    } else {
+      blocks.push({ type: "paragraph", text: line.text });
+    }
+    previous = line;
+  }
+  return blocks;
+};
+
+const parsePdf = async (file: File): Promise<DocumentBlock[]> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const lines: PdfLine[] = [];
+  let offset = 0;
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const pageHeight = page.getViewport({ scale: 1 }).height;
+    const content = await page.getTextContent();
+    let current: PdfLine | null = null;
+
+    for (const item of content.items) {
+      if (!("str" in item)) continue;
+      // Pages are stacked so gaps keep working across page breaks
+      const top = offset + pageHeight - item.transform[5];
+      const height = item.height || Math.abs(item.transform[3]);
+      if (!current || Math.abs(top - current.top) > Math.max(height, current.height) * 0.5) {
+        if (current?.text.trim()) lines.push({ ...current, text: current.text.trim() });
+        current = { text: "", height, top };
+      }
+      current.text += item.str;
+      current.height = Math.max(current.height, height);
+      if (item.hasEOL) {
+        if (current.text.trim()) lines.push({ ...current, text: current.text.trim() });
+        current = null;
+      }
+    }
+    if (current?.text.trim()) lines.push({ ...current, text: current.text.trim() });
+    offset += pageHeight;
+    page.cleanup();
+  }
+  await pdf.destroy();
+  return linesToBlocks(lines);
+};
+
+const unreadable = (message: string, cause?: unknown) =>
+  new TranslationError("unsupported_media", message, { retryable: false, action: "switch_mode", cause });
+
+type DocumentContent = Pick<ParsedDocument, "blocks" | "subtitles">;
+
+// Only the words of each cue are translated; timings and cue-wide styling stay in `subtitles`
+const readSubtitles = async (file: File, format: "srt" | "vtt"): Promise<DocumentContent> => {
+  const subtitles = parseSubtitles(await file.text(), format);
+  const blocks: DocumentBlock[] = subtitles.cues.map(cue => ({ type: "cue", text: splitCueMarkup(cue.text).body }));
+  return { blocks, subtitles };
+};
+
+const readContent = async (file: File, format: DocumentFormat): Promise<DocumentContent> => {
+  switch (format) {
+    case "pdf":
+      return { blocks: await parsePdf(file) };
+    case "docx":
+      return { blocks: await parseDocx(file) };
+    case "md":
+      return { blocks: parseMarkdown(await file.text()) };
+    case "txt":
+      return { blocks: parsePlainText(await file.text()) };
+    case "srt":
+    case "vtt":
+      return readSubtitles(file, format);
+  }
+};
+
+// Scanned PDFs have no text layer and end up here as "nothing to translate"; the photo mode handles those
+export const parseDocument = async (file: File): Promise<ParsedDocument> => {
+  const format = detectDocumentFormat(file);
+  if (!format) throw unreadable(`Unsupported document type: ${file.name}`);
+
+  let content: DocumentContent;
+  try {
+    content = await readContent(file, format);
+  } catch (err) {
+    throw unreadable(`Could not read ${file.name}`, err);
+  }
+  if (!content.blocks.some(block => block.type !== "code" && block.text.trim())) {
+    throw unreadable(`No translatable text found in ${file.name}`);
+  }
+  return { name: file.name, format, ...content };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChunkTranslator,
+  createDocumentJob,
+  decodeSegments,
+  encodeSegments,
+  translateDocument,
+  translatedBlocks,
+} from "./documentTranslation";
+import { InvalidResponseError } from "./errors";
+import { DocumentBlock, ParsedDocument } from "../types";
+
+const doc = (...blocks: DocumentBlock[]): ParsedDocument => ({ name: "notes.md", format: "md", blocks });
+const paragraph = (text: string): DocumentBlock => ({ type: "paragraph", text });
+
+// Answers like a well-behaved model: same markers, upper-cased text
+const shouting: ChunkTranslator = async text => ({
+  original_text: text,
+  detected_language: "en",
+  translated_text: text.replace(/\]\] ([^[]*)/g, (_, body: string) => `]] ${body.toUpperCase()}`),
+});
+
+const signal = new AbortController().signal;
+
+describe("segment markers", () => {
+  it("round-trips texts through the [[n]] encoding", () => {
+    const texts = ["First line", "Second\nparagraph", "Third"];
+    expect(encodeSegments(texts)).toBe("[[1]] First line\n\n[[2]] Second\nparagraph\n\n[[3]] Third");
+    expect(decodeSegments(encodeSegments(texts), 3)).toEqual(texts);
+  });
+
+  it("ignores text before the first marker", () => {
+    expect(decodeSegments("Here you go:\n[[1]] Satu\n[[2]] Dua", 2)).toEqual(["Satu", "Dua"]);
+  });
+
+  it("rejects replies that lose, merge or reorder markers", () => {
+    expect(() => decodeSegments("[[1]] Satu dua", 2)).toThrow(InvalidResponseError);
+    expect(() => decodeSegments("[[2]] Dua [[1]] Satu", 2)).toThrow(InvalidResponseError);
+    expect(() => decodeSegments("[[1]] Satu [[2]] Dua [[3]] Tiga", 2)).toThrow(InvalidResponseError);
+  });
+});
+
+describe("createDocumentJob", () => {
+  it("groups consecutive blocks up to the chunk size and skips code and empty blocks", () => {
+    const job = createDocumentJob(
+      doc(paragraph("aaaa"), { type: "code", text: "x = 1" }, paragraph("bbbb"), paragraph("  "), paragraph("cccc")),
+      8
+    );
+    expect(job.chunks.map(c => c.blockIndexes)).toEqual([[0, 2], [4]]);
+    expect(job.chunks.every(c => c.status === "pending")).toBe(true);
+  });
+
+  it("cuts long paragraphs at sentence ends into continuing pieces", () => {
+    const job = createDocumentJob(doc(paragraph("One two three. Four five six. Seven eight nine.")), 20);
+    const { blocks } = job.document;
+    expect(blocks.length).toBeGreaterThan(1);
+    expect(blocks.every(b => b.text.length <= 20)).toBe(true);
+    expect(blocks.map(b => !!b.continues)).toEqual(blocks.map((_, i) => i > 0));
+    expect(blocks.map(b => b.text).join(" ")).toBe("One two three. Four five six. Seven eight nine.");
+  });
+
+  it("never splits a subtitle cue", () => {
+    const cue: DocumentBlock = { type: "cue", text: "A long line of dialogue that runs past the limit" };
+    expect(createDocumentJob(doc(cue), 10).document.blocks).toEqual([cue]);
+  });
+});
+
+describe("translateDocument", () => {
+  it("fills every block with its translation", async () => {
+    const job = createDocumentJob(doc(paragraph("hello"), { type: "code", text: "x" }, paragraph("world")), 8);
+    const done = await translateDocument(job, shouting, { signal });
+    expect(translatedBlocks(done).map(b => b.text)).toEqual(["HELLO", "x", "WORLD"]);
+  });
+
+  it("asks once more when a reply loses markers", async () => {
+    let calls = 0;
+    const flaky: ChunkTranslator = async (text, ...rest) => {
+      if (++calls === 1) return { original_text: text, detected_language: "en", translated_text: "merged" };
+      return shouting(text, ...rest);
+    };
+    const done = await translateDocument(createDocumentJob(doc(paragraph("a"), paragraph("b"))), flaky, { signal });
+    expect(calls).toBe(2);
+    expect(done.chunks[0].status).toBe("done");
+  });
+
+  it("keeps going past a failed chunk and retries only that one on the next run", async () => {
+    const seen: string[] = [];
+    let failSecond = true;
+    const translate: ChunkTranslator = async (text, ...rest) => {
+      seen.push(text);
+      if (failSecond && text.includes("second")) throw new Error("boom");
+      return shouting(text, ...rest);
+    };
+    const job = createDocumentJob(doc(paragraph("first"), paragraph("second"), paragraph("third")), 6);
+
+    const partial = await translateDocument(job, translate, { signal, concurrency: 1 });
+    expect(partial.chunks.map(c => c.status)).toEqual(["done", "failed", "done"]);
+    expect(translatedBlocks(partial).map(b => b.text)).toEqual(["FIRST", "second", "THIRD"]);
+
+    failSecond = false;
+    seen.length = 0;
+    const finished = await translateDocument(partial, translate, { signal });
+    expect(seen).toEqual(["[[1]] second"]);
+    expect(finished.chunks.every(c => c.status === "done")).toBe(true);
+  });
+
+  it("rejects when cancelled", async () => {
+    const controller = new AbortController();
+    const translate: ChunkTranslator = async () => {
+      controller.abort();
+      throw new Error("aborted");
+    };
+    await expect(
+      translateDocument(createDocumentJob(doc(paragraph("a"))), translate, { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "cancelled" });
+  });
+});
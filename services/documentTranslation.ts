@@ -0,0 +1,159 @@
+import { DocumentBlock, DocumentChunk, DocumentJob, DocumentProgress, ParsedDocument, TranslationResult } from "../types";
+import { InvalidResponseError, toTranslationError } from "./errors";
+import { DEFAULT_RETRY_OPTIONS, withRetry } from "./retry";
+
+// Leaves room in the model's output budget for the translation, which can run longer than the source
+export const MAX_CHUNK_CHARS = 3000;
+// Subtitle batches stay smaller: cues are short, and fewer segments per reply means fewer lost markers
+export const SUBTITLE_BATCH_CHARS = 1500;
+export const DOCUMENT_CONCURRENCY = 3;
+// A full chunk takes far longer to write out than a phrase, so it gets more than the default request timeout
+export const CHUNK_TIMEOUT_MS = 90000;
+
+export type ChunkTranslator = (text: string, signal: AbortSignal, timeoutMs: number) => Promise<TranslationResult>;
+
+interface DocumentTranslationOptions {
+  concurrency?: number;
+  signal: AbortSignal;
+  onProgress?: (job: DocumentJob) => void;
+}
+
+const translatable = (block: DocumentBlock) => block.type !== "code" && block.text.trim() !== "";
+
+const splitSentences = (text: string): string[] => {
+  if (typeof Intl.Segmenter === "function") {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: "sentence" }).segment(text), s => s.segment);
+  }
+  return text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [text];
+};
+
+// Paragraphs longer than a chunk are cut at sentence ends (or hard-cut as a last resort) into
+// `continues` pieces, which the builders glue back together
+const splitLongBlock = (block: DocumentBlock, maxChars: number): DocumentBlock[] => {
+  // Cues are never split: each one has to map back onto exactly one timing
+  if (block.text.length <= maxChars || !translatable(block) || block.type === "cue") return [block];
+  const pieces: string[] = [];
+  let piece = "";
+  for (const sentence of splitSentences(block.text)) {
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const part = sentence.slice(i, i + maxChars);
+      if (piece && piece.length + part.length > maxChars) {
+        pieces.push(piece);
+        piece = "";
+      }
+      piece += part;
+    }
+  }
+  if (piece) pieces.push(piece);
+  return pieces.map((text, i) => ({ ...block, text: text.trim(), continues: i > 0 || block.continues }));
+};
+
+// Consecutive blocks share a chunk, so the engine sees the surrounding text (or neighbouring cues) as context
+export const createDocumentJob = (
+  document: ParsedDocument,
+  maxChars: number = document.subtitles ? SUBTITLE_BATCH_CHARS : MAX_CHUNK_CHARS
+): DocumentJob => {
+  const blocks = document.blocks.flatMap(block => splitLongBlock(block, maxChars));
+  const chunks: DocumentChunk[] = [];
+  let current: number[] = [];
+  let size = 0;
+
+  blocks.forEach((block, index) => {
+    if (!translatable(block)) return;
+    if (current.length > 0 && size + block.text.length > maxChars) {
+      chunks.push({ index: chunks.length, blockIndexes: current, status: "pending" });
+      current = [];
+      size = 0;
+    }
+    current.push(index);
+    size += block.text.length;
+  });
+  if (current.length > 0) chunks.push({ index: chunks.length, blockIndexes: current, status: "pending" });
+
+  return { document: { ...document, blocks }, chunks };
+};
+
+// Each block travels as a [[n]] marked segment so the reply can be mapped back onto the structure
+export const encodeSegments = (texts: string[]): string =>
+  texts.map((text, i) => `[[${i + 1}]] ${text}`).join("\n\n");
+
+export const decodeSegments = (text: string, expected: number): string[] => {
+  const parts = text.split(/\[\[(\d+)\]\]/);
+  const segments: string[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    if (Number(parts[i]) !== segments.length + 1) break;
+    segments.push(parts[i + 1].trim());
+  }
+  if (segments.length !== expected) {
+    throw new InvalidResponseError(`Expected ${expected} translated segments but got ${segments.length}.`, text);
+  }
+  return segments;
+};
+
+export const documentProgress = (job: DocumentJob): DocumentProgress => ({
+  done: job.chunks.filter(c => c.status === "done").length,
+  failed: job.chunks.filter(c => c.status === "failed").length,
+  total: job.chunks.length,
+});
+
+const translateChunk = async (job: DocumentJob, chunk: DocumentChunk, translate: ChunkTranslator, signal: AbortSignal): Promise<DocumentChunk> => {
+  const texts = chunk.blockIndexes.map(i => job.document.blocks[i].text);
+  try {
+    // A reply that loses or merges markers is asked for again once before the chunk counts as failed.
+    // Only decoding errors count: the engine has already re-requested replies that were not valid JSON.
+    let decoding = false;
+    const { translations, detectedLanguage } = await withRetry(
+      async () => {
+        decoding = false;
+        const result = await translate(encodeSegments(texts), signal, CHUNK_TIMEOUT_MS);
+        decoding = true;
+        return { translations: decodeSegments(result.translated_text, texts.length), detectedLanguage: result.detected_language };
+      },
+      { ...DEFAULT_RETRY_OPTIONS, retries: 1, signal },
+      error => decoding && error instanceof InvalidResponseError
+    );
+    return { ...chunk, status: "done", translations, detectedLanguage, error: undefined };
+  } catch (err) {
+    if (signal.aborted) throw toTranslationError(signal.reason);
+    return { ...chunk, status: "failed", error: toTranslationError(err).message };
+  }
+};
+
+/**
+ * Translates every chunk that is not done yet, at most `concurrency` at a time, so calling it again
+ * on the returned job retries only the chunks that failed. Cancelling rejects with the abort reason.
+ */
+export const translateDocument = async (
+  job: DocumentJob,
+  translate: ChunkTranslator,
+  { concurrency = DOCUMENT_CONCURRENCY, signal, onProgress }: DocumentTranslationOptions
+): Promise<DocumentJob> => {
+  let current: DocumentJob = {
+    ...job,
+    chunks: job.chunks.map(c => (c.status === "failed" ? { ...c, status: "pending", error: undefined } : c)),
+  };
+  const queue = current.chunks.filter(c => c.status !== "done").map(c => c.index);
+  onProgress?.(current);
+
+  const worker = async () => {
+    for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+      const updated = await translateChunk(current, current.chunks[next], translate, signal);
+      current = { ...current, chunks: current.chunks.map(c => (c.index === updated.index ? updated : c)) };
+      onProgress?.(current);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return current;
+};
+
+// Blocks with their translations filled in; blocks whose chunk has not been translated keep the source text
+export const translatedBlocks = (job: DocumentJob): DocumentBlock[] => {
+  const blocks = [...job.document.blocks];
+  for (const chunk of job.chunks) {
+    chunk.translations?.forEach((text, i) => {
+      const index = chunk.blockIndexes[i];
+      blocks[index] = { ...blocks[index], text };
+    });
+  }
+  return blocks;
+};
@@ -0,0 +1,79 @@
+import { EngineConfig, TranslationEngine, TranslationResult } from "../types";
+import { createGeminiEngine } from "./geminiService";
+import { createOpenAICompatibleEngine } from "./openAICompatibleEngine";
+import { createLibreTranslateEngine } from "./libreTranslateEngine";
+import { translateOffline } from "./offlineTranslator";
+import { getLocalRecognizer } from "./localSpeech";
+import { base64ToBlob } from "./audio";
+import { NoSpeechError, UnsupportedMediaError } from "./errors";
+import { withRequestSignal } from "./abort";
+
+type EngineFactory = (config: EngineConfig) => TranslationEngine;
+
+const factories = new Map<string, EngineFactory>();
+const instances = new Map<string, TranslationEngine>();
+
+export const registerEngine = (id: string, factory: EngineFactory) => {
+  factories.set(id, factory);
+  instances.delete(id);
+};
+
+const createOfflineEngine = (): TranslationEngine => {
+  const unsupported = async (): Promise<TranslationResult> => {
+    throw new UnsupportedMediaError("The local engine only supports phrase lookups.");
+  };
+  return {
+    id: "offline",
+    primaryModel: () => "phrasebook",
+    // On-device speech-to-text feeds the transcript into the phrasebook lookup
+    translateAudio: (base64Audio, mimeType, pair, options) =>
+      withRequestSignal(options, async () => {
+        const transcript = await getLocalRecognizer().transcribe(base64ToBlob(base64Audio, mimeType), pair);
+        if (!transcript.text.trim()) {
+          throw new NoSpeechError();
+        }
+        return translateOffline(transcript.text, pair);
+      }),
+    translateImage: unsupported,
+    translateText: (inputText, pair, options) => withRequestSignal(options, () => translateOffline(inputText, pair)),
+  };
+};
+
+registerEngine("gemini", createGeminiEngine);
+registerEngine("openai-compatible", createOpenAICompatibleEngine);
+registerEngine("libretranslate", createLibreTranslateEngine);
+registerEngine("offline", createOfflineEngine);
+
+const parseModelList = (value?: string): string[] | undefined => {
+  const models = (value || "").split(",").map(m => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : undefined;
+};
+
+// Selected at build time through TRANSLATION_ENGINE* / TRANSLATION_MODELS_* variables (see vite.config.ts)
+export const getEngineConfig = (): EngineConfig => ({
+  engine: process.env.TRANSLATION_ENGINE || "gemini",
+  baseUrl: process.env.TRANSLATION_ENGINE_URL || undefined,
+  model: process.env.TRANSLATION_ENGINE_MODEL || undefined,
+  models: {
+    audio: parseModelList(process.env.TRANSLATION_MODELS_AUDIO),
+    text: parseModelList(process.env.TRANSLATION_MODELS_TEXT),
+    image: parseModelList(process.env.TRANSLATION_MODELS_IMAGE),
+  },
+  apiKey: process.env.TRANSLATION_ENGINE_API_KEY || undefined,
+});
+
+export const getEngine = (id: string): TranslationEngine => {
+  const cached = instances.get(id);
+  if (cached) return cached;
+
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown translation engine "${id}". Registered engines: ${[...factories.keys()].join(", ")}`);
+  }
+  const config = getEngineConfig();
+  const engine = factory(config.engine === id ? config : { engine: id });
+  instances.set(id, engine);
+  return engine;
+};
+
+export const getActiveEngine = (): TranslationEngine => getEngine(getEngineConfig().engine);
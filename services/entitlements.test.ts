@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Entitlement } from "../types";
+import { AccountError, authFetch } from "./authClient";
+import { reserveQuota } from "./entitlements";
+
+vi.mock("./authClient", async importOriginal => ({
+  ...(await importOriginal<typeof import("./authClient")>()),
+  authFetch: vi.fn(),
+}));
+
+const mockedFetch = vi.mocked(authFetch);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entitlement = (tier: Entitlement["tier"]): Entitlement => ({
+  sub: "user-1",
+  tier,
+  premiumUntil: tier === "premium" ? Date.now() + DAY_MS : null,
+  offlinePacks: tier === "premium",
+  dailyLimits: tier === "premium" ? {} : { text: 3 },
+  iat: Date.now(),
+  exp: Date.now() + DAY_MS,
+});
+
+describe("reserveQuota", () => {
+  beforeEach(() => {
+    mockedFetch.mockReset();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("reserves the unit with the server before allowing a translation", async () => {
+    mockedFetch.mockResolvedValue({ day: "2026-10-19", used: { text: 1 }, limits: { text: 3 } });
+    await expect(reserveQuota("text", null)).resolves.toBe("allowed");
+    expect(mockedFetch).toHaveBeenCalledWith("POST", "/usage", { mode: "text" });
+  });
+
+  it("refuses once the server reports the limit, even for a premium entitlement", async () => {
+    mockedFetch.mockRejectedValue(new AccountError("quota_exceeded", "Daily text limit of 3 reached."));
+    await expect(reserveQuota("text", entitlement("premium"))).resolves.toBe("exceeded");
+  });
+
+  it("fails closed without the server unless a verified premium entitlement is current", async () => {
+    mockedFetch.mockRejectedValue(new AccountError("network", "The account server could not be reached."));
+    await expect(reserveQuota("text", null)).resolves.toBe("unavailable");
+    await expect(reserveQuota("text", entitlement("free"))).resolves.toBe("unavailable");
+    await expect(reserveQuota("text", { ...entitlement("premium"), premiumUntil: Date.now() - 1 })).resolves.toBe("unavailable");
+    await expect(reserveQuota("text", entitlement("premium"))).resolves.toBe("allowed");
+  });
+});
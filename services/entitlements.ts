@@ -0,0 +1,119 @@
+import { Entitlement, UsageMode, UsageSnapshot } from "../types";
+import { AccountError, authFetch } from "./authClient";
+
+// Base64 SPKI of the server's P-256 signing key; the reference server prints it on start-up
+const PUBLIC_KEY = process.env.ENTITLEMENT_PUBLIC_KEY;
+const ENTITLEMENT_KEY = "gv_entitlement";
+// Online, an entitlement older than this is re-fetched so upgrades and cancellations show up within the hour
+const REFRESH_AFTER_MS = 60 * 60 * 1000;
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+let verifyKey: Promise<CryptoKey | null> | null = null;
+
+const getVerifyKey = (): Promise<CryptoKey | null> => {
+  if (!verifyKey) {
+    if (!PUBLIC_KEY) console.warn("ENTITLEMENT_PUBLIC_KEY is not set; entitlements can't be verified, so the free tier applies");
+    verifyKey = PUBLIC_KEY
+      ? crypto.subtle
+          .importKey("spki", base64UrlToBytes(PUBLIC_KEY), { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"])
+          .catch(err => {
+            console.error("ENTITLEMENT_PUBLIC_KEY is not a P-256 public key", err);
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return verifyKey;
+};
+
+// Null unless the token carries a valid signature, belongs to `userId` and is still within its grace period
+const verifyEntitlement = async (token: string, userId: string): Promise<Entitlement | null> => {
+  const key = await getVerifyKey();
+  const [payload, signature] = token.split(".");
+  if (!key || !payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+    const entitlement: Entitlement = JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload)));
+    return entitlement.sub === userId && entitlement.exp > Date.now() ? entitlement : null;
+  } catch {
+    return null;
+  }
+};
+
+export const hasPremium = (entitlement: Entitlement | null): boolean =>
+  entitlement?.tier === "premium" && (entitlement.premiumUntil === null || entitlement.premiumUntil > Date.now());
+
+export const needsRefresh = (entitlement: Entitlement | null): boolean =>
+  !entitlement || entitlement.iat + REFRESH_AFTER_MS < Date.now();
+
+// The cached entitlement, as long as it still verifies; used at start-up and while offline
+export const loadEntitlement = async (userId: string): Promise<Entitlement | null> => {
+  const token = localStorage.getItem(ENTITLEMENT_KEY);
+  return token ? verifyEntitlement(token, userId) : null;
+};
+
+/**
+ * Fetches a fresh entitlement. When the server can't be reached the cached copy is returned instead,
+ * which is what carries premium users through their offline grace period.
+ */
+export const refreshEntitlement = async (userId: string): Promise<Entitlement | null> => {
+  try {
+    const { token } = await authFetch<{ token: string }>("GET", "/entitlements");
+    const entitlement = await verifyEntitlement(token, userId);
+    if (entitlement) localStorage.setItem(ENTITLEMENT_KEY, token);
+    else console.error("The server sent an entitlement that does not verify against ENTITLEMENT_PUBLIC_KEY");
+    return entitlement;
+  } catch (err) {
+    if (err instanceof AccountError && err.code === "invalid_token") return null;
+    console.warn("Could not refresh the entitlement", err);
+    return loadEntitlement(userId);
+  }
+};
+
+export const clearEntitlement = () => localStorage.removeItem(ENTITLEMENT_KEY);
+
+// "unavailable": the server could not be asked and no signed premium entitlement covers the gap
+export type QuotaDecision = "allowed" | "exceeded" | "unavailable";
+
+// Without an answer from the server only a verified premium entitlement lets a translation through
+const decideWithoutServer = (err: unknown, entitlement: Entitlement | null): QuotaDecision => {
+  if (err instanceof AccountError && err.code === "quota_exceeded") return "exceeded";
+  console.warn("Could not reach the usage service", err);
+  return hasPremium(entitlement) ? "allowed" : "unavailable";
+};
+
+/**
+ * Takes one unit of today's quota for `mode`; called right before the engine, which only runs on
+ * "allowed". The server checks and counts in one step, so the limit holds however the app is modified
+ * short of skipping the call. A unit is not returned when the translation then fails.
+ */
+export const reserveQuota = async (mode: UsageMode, entitlement: Entitlement | null): Promise<QuotaDecision> => {
+  try {
+    await authFetch<UsageSnapshot>("POST", "/usage", { mode });
+    return "allowed";
+  } catch (err) {
+    return decideWithoutServer(err, entitlement);
+  }
+};
+
+// Read-only check before recording starts, so nobody records a phrase that can't be translated
+export const checkQuota = async (mode: UsageMode, entitlement: Entitlement | null): Promise<QuotaDecision> => {
+  try {
+    const usage = await authFetch<UsageSnapshot>("GET", "/usage");
+    const limit = usage.limits[mode];
+    return limit === undefined || (usage.used[mode] || 0) < limit ? "allowed" : "exceeded";
+  } catch (err) {
+    return decideWithoutServer(err, entitlement);
+  }
+};
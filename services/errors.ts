@@ -0,0 +1,193 @@
+export type TranslationErrorCode =
+  | "safety_block"
+  | "recitation_block"
+  | "quota_exceeded"
+  | "network"
+  | "server"
+  | "invalid_response"
+  | "unsupported_media"
+  | "auth"
+  | "offline_unavailable"
+  | "offline_no_match"
+  | "no_speech"
+  | "audio_too_large"
+  | "timeout"
+  | "cancelled"
+  | "unknown";
+
+// What the UI should nudge the user towards; each maps to an `action_*` string in I18N
+export type SuggestedAction =
+  | "rephrase"
+  | "wait_and_retry"
+  | "check_connection"
+  | "retry"
+  | "switch_mode"
+  | "check_settings"
+  | "speak_again"
+  | "record_shorter";
+
+interface TranslationErrorOptions {
+  retryable: boolean;
+  action: SuggestedAction;
+  cause?: unknown;
+}
+
+/**
+ * Base class for everything the service layer throws. `message` is developer-facing English;
+ * user-facing text comes from I18N via `code` and `action`.
+ */
+export class TranslationError extends Error {
+  readonly code: TranslationErrorCode;
+  readonly retryable: boolean;
+  readonly action: SuggestedAction;
+  readonly cause?: unknown;
+
+  constructor(code: TranslationErrorCode, message: string, options: TranslationErrorOptions) {
+    super(message);
+    this.name = "TranslationError";
+    this.code = code;
+    this.retryable = options.retryable;
+    this.action = options.action;
+    this.cause = options.cause;
+  }
+}
+
+export class SafetyBlockError extends TranslationError {
+  constructor(message = "The content was flagged as inappropriate for translation.", cause?: unknown) {
+    super("safety_block", message, { retryable: false, action: "rephrase", cause });
+    this.name = "SafetyBlockError";
+  }
+}
+
+export class RecitationBlockError extends TranslationError {
+  constructor(message = "The engine detected copyrighted material and cannot translate it.", cause?: unknown) {
+    super("recitation_block", message, { retryable: false, action: "rephrase", cause });
+    this.name = "RecitationBlockError";
+  }
+}
+
+export class QuotaExceededError extends TranslationError {
+  constructor(message = "The translation engine is currently over capacity.", cause?: unknown) {
+    super("quota_exceeded", message, { retryable: true, action: "wait_and_retry", cause });
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class NetworkError extends TranslationError {
+  constructor(message = "The translation engine could not be reached.", cause?: unknown) {
+    super("network", message, { retryable: true, action: "check_connection", cause });
+    this.name = "NetworkError";
+  }
+}
+
+export class ServerError extends TranslationError {
+  readonly status?: number;
+
+  constructor(message = "The translation engine failed to process the request.", status?: number, cause?: unknown) {
+    super("server", message, { retryable: true, action: "retry", cause });
+    this.name = "ServerError";
+    this.status = status;
+  }
+}
+
+export class InvalidResponseError extends TranslationError {
+  readonly rawText?: string;
+
+  constructor(message: string, rawText?: string) {
+    super("invalid_response", message, { retryable: true, action: "retry" });
+    this.name = "InvalidResponseError";
+    this.rawText = rawText;
+  }
+}
+
+export class UnsupportedMediaError extends TranslationError {
+  constructor(message: string, cause?: unknown) {
+    super("unsupported_media", message, { retryable: false, action: "switch_mode", cause });
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+export class AuthError extends TranslationError {
+  constructor(message = "The translation engine rejected the configured credentials.", cause?: unknown) {
+    super("auth", message, { retryable: false, action: "check_settings", cause });
+    this.name = "AuthError";
+  }
+}
+
+// `offline_no_match`: offline translation works, but no installed phrasebook entry matched the input
+export class OfflineUnavailableError extends TranslationError {
+  constructor(
+    message: string,
+    cause?: unknown,
+    code: "offline_unavailable" | "offline_no_match" = "offline_unavailable"
+  ) {
+    super(code, message, { retryable: false, action: code === "offline_no_match" ? "rephrase" : "check_connection", cause });
+    this.name = "OfflineUnavailableError";
+  }
+}
+
+export class NoSpeechError extends TranslationError {
+  constructor(message = "No speech was recognized in the recording.") {
+    super("no_speech", message, { retryable: false, action: "speak_again" });
+    this.name = "NoSpeechError";
+  }
+}
+
+export class AudioTooLargeError extends TranslationError {
+  constructor(message = "The recording is too large to send in one request.") {
+    super("audio_too_large", message, { retryable: false, action: "record_shorter" });
+    this.name = "AudioTooLargeError";
+  }
+}
+
+export class RequestTimeoutError extends TranslationError {
+  constructor(timeoutMs: number) {
+    super("timeout", `The translation did not finish within ${timeoutMs} ms.`, { retryable: true, action: "retry" });
+    this.name = "RequestTimeoutError";
+  }
+}
+
+// Thrown when the user (or a newer request) aborts; the UI swallows these silently
+export class CancelledError extends TranslationError {
+  constructor(message = "The translation was cancelled.") {
+    super("cancelled", message, { retryable: false, action: "retry" });
+    this.name = "CancelledError";
+  }
+}
+
+// Classifies SDK, fetch and HTTP failures into the taxonomy above
+export const toTranslationError = (err: unknown): TranslationError => {
+  if (err instanceof TranslationError) return err;
+  if (err instanceof Error && err.name === "AbortError") return new CancelledError();
+
+  // SDKs sometimes reject with plain objects, so anything carrying a string `message` counts
+  const message =
+    typeof err === "object" && err !== null && "message" in err && typeof err.message === "string"
+      ? err.message
+      : String(err ?? "");
+  const status =
+    typeof err === "object" && err !== null && "status" in err && typeof err.status === "number" ? err.status : undefined;
+
+  if (status === 429 || message.includes("429") || /quota|RESOURCE_EXHAUSTED/i.test(message)) {
+    return new QuotaExceededError(undefined, err);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthError(undefined, err);
+  }
+  if (message.includes("SAFETY")) return new SafetyBlockError(undefined, err);
+  if (message.includes("RECITATION")) return new RecitationBlockError(undefined, err);
+  if (status === 415 || /unsupported (mime|media|audio|image)/i.test(message)) {
+    return new UnsupportedMediaError(message, err);
+  }
+  if (status !== undefined && status >= 500) return new ServerError(undefined, status, err);
+  if (err instanceof TypeError || /failed to fetch|network|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new NetworkError(undefined, err);
+  }
+  if (typeof navigator !== "undefined" && !navigator.onLine) return new NetworkError(undefined, err);
+
+  return new TranslationError("unknown", message || "Unexpected translation engine failure.", {
+    retryable: false,
+    action: "retry",
+    cause: err,
+  });
+};
@@ -0,0 +1,172 @@
+
+import { FinishReason, GoogleGenAI, Part, Type } from "@google/genai";
+import { SYSTEM_INSTRUCTION } from "../constants";
+import { TranslationResult, EngineConfig, LanguagePair, TranslationEngine, TranslationOperation, TranslationRequestOptions } from "../types";
+import { buildAudioPrompt, buildTextPrompt, buildImagePrompt, promptExtras, promptLanguageName } from "./prompts";
+import { requestValidatedResult } from "./responseValidation";
+import { RecitationBlockError, SafetyBlockError, toTranslationError } from "./errors";
+import { DEFAULT_RETRY_OPTIONS, resolveModelChain, withModelFallback } from "./retry";
+import { DEFAULT_TIMEOUT_MS, withCancellation } from "./abort";
+import { flagGlossaryIssues } from "./glossary";
+
+const DEFAULT_MODELS: Record<TranslationOperation, string[]> = {
+  audio: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+  text: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  image: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+};
+
+const getAIClient = (config?: EngineConfig) => new GoogleGenAI({
+  apiKey: config?.apiKey || process.env.API_KEY,
+  httpOptions: config?.baseUrl ? { baseUrl: config.baseUrl } : undefined,
+});
+
+const GENERATION_CONFIG = {
+  systemInstruction: SYSTEM_INSTRUCTION,
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      original_text: { type: Type.STRING },
+      detected_language: { type: Type.STRING },
+      translated_text: { type: Type.STRING },
+      phonetic: { type: Type.STRING },
+      alternatives: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            translated_text: { type: Type.STRING },
+            phonetic: { type: Type.STRING },
+            note: { type: Type.STRING },
+          },
+          required: ["translated_text", "note"],
+        },
+      },
+      regions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            original_text: { type: Type.STRING },
+            translated_text: { type: Type.STRING },
+            phonetic: { type: Type.STRING },
+          },
+          required: ["box_2d", "original_text", "translated_text"],
+        },
+      },
+    },
+    required: ["original_text", "detected_language", "translated_text"],
+  },
+};
+
+const handleGenAIError = (error: unknown) => {
+  throw toTranslationError(error);
+};
+
+const generateTranslation = (ai: GoogleGenAI, models: string[], parts: Part[], options?: TranslationRequestOptions) =>
+  withCancellation(options?.signal, signal =>
+    withModelFallback(
+      models,
+      (model, attemptSignal) =>
+        requestValidatedResult(async () => {
+          const response = await ai.models.generateContent({
+            model,
+            contents: [{ parts }],
+            config: { ...GENERATION_CONFIG, abortSignal: attemptSignal },
+          });
+          const finishReason = response.candidates?.[0]?.finishReason;
+          if (response.promptFeedback?.blockReason || finishReason === FinishReason.SAFETY) {
+            throw new SafetyBlockError();
+          }
+          if (finishReason === FinishReason.RECITATION) {
+            throw new RecitationBlockError();
+          }
+          return response.text;
+        }),
+      { ...DEFAULT_RETRY_OPTIONS, signal, timeoutMs: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS }
+    ).then(result => flagGlossaryIssues(result, options?.glossary))
+  );
+
+export const translateAudio = async (
+  base64Audio: string, 
+  pair: LanguagePair,
+  mimeType: string = 'audio/webm',
+  config?: EngineConfig,
+  options?: TranslationRequestOptions
+): Promise<TranslationResult> => {
+  try {
+    const ai = getAIClient(config);
+    const finalMimeType = mimeType || 'audio/webm';
+    
+    return await generateTranslation(ai, resolveModelChain(config, 'audio', DEFAULT_MODELS.audio), [
+      {
+        inlineData: {
+          mimeType: finalMimeType,
+          data: base64Audio,
+        },
+      },
+      {
+        text: buildAudioPrompt(promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options)),
+      },
+    ], options);
+  } catch (err) {
+    throw handleGenAIError(err);
+  }
+};
+
+export const translateText = async (
+  inputText: string,
+  pair: LanguagePair,
+  config?: EngineConfig,
+  options?: TranslationRequestOptions
+): Promise<TranslationResult> => {
+  try {
+    const ai = getAIClient(config);
+    
+    return await generateTranslation(ai, resolveModelChain(config, 'text', DEFAULT_MODELS.text), [
+      {
+        text: buildTextPrompt(inputText, promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options, inputText)),
+      },
+    ], options);
+  } catch (err) {
+    throw handleGenAIError(err);
+  }
+};
+
+export const translateImage = async (
+  base64Image: string,
+  pair: LanguagePair,
+  mimeType: string = 'image/jpeg',
+  config?: EngineConfig,
+  options?: TranslationRequestOptions
+): Promise<TranslationResult> => {
+  try {
+    const ai = getAIClient(config);
+    
+    return await generateTranslation(ai, resolveModelChain(config, 'image', DEFAULT_MODELS.image), [
+      {
+        inlineData: {
+          mimeType: mimeType,
+          data: base64Image,
+        },
+      },
+      {
+        text: buildImagePrompt(promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options)),
+      },
+    ], options);
+  } catch (err) {
+    throw handleGenAIError(err);
+  }
+};
+
+export const createGeminiEngine = (config: EngineConfig): TranslationEngine => ({
+  id: 'gemini',
+  primaryModel: operation => resolveModelChain(config, operation, DEFAULT_MODELS[operation])[0],
+  translateAudio: (base64Audio, mimeType, pair, options) =>
+    translateAudio(base64Audio, pair, mimeType, config, options),
+  translateText: (inputText, pair, options) =>
+    translateText(inputText, pair, config, options),
+  translateImage: (base64Image, mimeType, pair, options) =>
+    translateImage(base64Image, pair, mimeType, config, options),
+});
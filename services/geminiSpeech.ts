@@ -0,0 +1,80 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AudioSpeechProvider, SpeechOptions, SpeechVoice } from "../types";
+import { encodeWav } from "./audio";
+import { canEncodeOpus, encodeOggOpus } from "./oggOpus";
+import { InvalidResponseError, toTranslationError } from "./errors";
+import { withRequestSignal } from "./abort";
+
+const TTS_MODEL = process.env.TTS_MODEL || "gemini-2.5-flash-preview-tts";
+// The TTS models answer with raw 16-bit little-endian PCM, mono at 24 kHz
+const TTS_SAMPLE_RATE = 24000;
+const DEFAULT_VOICE = "Kore";
+
+// Prebuilt voices; every one of them speaks all supported languages
+const VOICES = [
+  "Kore", "Puck", "Charon", "Zephyr", "Fenrir", "Leda", "Orus", "Aoede", "Callirrhoe", "Autonoe",
+  "Enceladus", "Iapetus", "Umbriel", "Algieba", "Despina", "Erinome", "Algenib", "Rasalgethi", "Laomedeia", "Achernar",
+  "Alnilam", "Schedar", "Gacrux", "Pulcherrima", "Achird", "Zubenelgenubi", "Vindemiatrix", "Sadachbia", "Sadaltager", "Sulafat",
+];
+
+// The model has no pitch parameter, so pitch is asked for in the instruction; speed is applied at playback
+const pitchStyle = (pitch: number) => (pitch <= 0.85 ? " in a low, deep voice" : pitch >= 1.15 ? " in a high, light voice" : "");
+
+const languageName = (locale: string) => {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) || locale;
+  } catch {
+    return locale;
+  }
+};
+
+const pcmToFloat = (base64: string): Float32Array => {
+  const binary = atob(base64);
+  const samples = new Float32Array(binary.length >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    const value = binary.charCodeAt(i * 2) | (binary.charCodeAt(i * 2 + 1) << 8);
+    samples[i] = (value >= 0x8000 ? value - 0x10000 : value) / 0x8000;
+  }
+  return samples;
+};
+
+// Ogg Opus takes a tenth of the space of WAV in the cache; browsers that can't play it back get WAV
+const encodeForPlayback = async (pcm: Float32Array): Promise<Blob> => {
+  if (new Audio().canPlayType("audio/ogg; codecs=opus") && (await canEncodeOpus(TTS_SAMPLE_RATE))) {
+    try {
+      return await encodeOggOpus(pcm, TTS_SAMPLE_RATE);
+    } catch (e) {
+      console.warn("Opus encoding failed, keeping WAV", e);
+    }
+  }
+  return encodeWav(pcm, TTS_SAMPLE_RATE);
+};
+
+export const createGeminiSpeechProvider = (): AudioSpeechProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return {
+    id: "gemini",
+    kind: "audio",
+    isAvailable: () => !!process.env.API_KEY,
+    listVoices: async (): Promise<SpeechVoice[]> => VOICES.map(name => ({ id: name, name })),
+    synthesize: (text: string, locale: string, { voiceId, pitch, signal }: SpeechOptions) =>
+      withRequestSignal({ signal }, async requestSignal => {
+        try {
+          const response = await ai.models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: `Read this ${languageName(locale)} text aloud${pitchStyle(pitch)}, exactly as written:\n${text}` }] }],
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceId || DEFAULT_VOICE } } },
+              abortSignal: requestSignal,
+            },
+          });
+          const audio = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+          if (!audio) throw new InvalidResponseError("The speech model returned no audio.");
+          return encodeForPlayback(pcmToFloat(audio));
+        } catch (err) {
+          throw toTranslationError(err);
+        }
+      }),
+  };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  containsTerm,
+  findGlossaryIssues,
+  flagGlossaryIssues,
+  glossaryFingerprint,
+  parseGlossaryImport,
+  relevantGlossary,
+} from "./glossary";
+import { GlossaryEntry, TranslationResult } from "../types";
+
+const BRAND: GlossaryEntry = { id: "g1", mother: "en", target: "id", source: "IVoice", translation: "IVoice", doNotTranslate: true };
+const INVOICE: GlossaryEntry = { id: "g2", mother: "en", target: "id", source: "invoice", translation: "faktur", doNotTranslate: false };
+
+const result = (fields: Partial<TranslationResult>): TranslationResult => ({
+  original_text: "",
+  detected_language: "en",
+  translated_text: "",
+  ...fields,
+});
+
+describe("containsTerm", () => {
+  it("matches whole words regardless of case and width", () => {
+    expect(containsTerm("Send the Invoice today", "invoice")).toBe(true);
+    expect(containsTerm("Send the ｉｎｖｏｉｃｅ", "invoice")).toBe(true);
+    expect(containsTerm("Send the invoices", "invoice")).toBe(false);
+  });
+
+  it("matches inside unspaced scripts", () => {
+    expect(containsTerm("请把发票寄给我", "发票")).toBe(true);
+  });
+
+  it("never matches an empty term", () => {
+    expect(containsTerm("anything", "  ")).toBe(false);
+  });
+});
+
+describe("glossary checks", () => {
+  it("picks the entries the input mentions in either language", () => {
+    expect(relevantGlossary("Where is my faktur?", [BRAND, INVOICE])).toEqual([INVOICE]);
+  });
+
+  it("flags a do-not-translate term that the translation changed", () => {
+    const issues = findGlossaryIssues(
+      result({ original_text: "Open IVoice", translated_text: "Buka Suara Saya" }),
+      [BRAND]
+    );
+    expect(issues).toEqual([{ entryId: "g1", term: "IVoice", expected: "IVoice" }]);
+  });
+
+  it("accepts a translation that kept the required rendering", () => {
+    expect(findGlossaryIssues(result({ original_text: "Open IVoice", translated_text: "Buka IVoice" }), [BRAND])).toEqual([]);
+  });
+
+  it("checks the reverse direction when the input was in the target language", () => {
+    const issues = findGlossaryIssues(
+      result({ original_text: "Kirim fakturnya", detected_language: "id", translated_text: "Send the bill" }),
+      [{ ...INVOICE, translation: "fakturnya" }]
+    );
+    expect(issues).toEqual([{ entryId: "g2", term: "fakturnya", expected: "invoice" }]);
+  });
+
+  it("leaves results untouched without a glossary", () => {
+    const plain = result({ original_text: "Open IVoice", translated_text: "Buka" });
+    expect(flagGlossaryIssues(plain)).toBe(plain);
+  });
+});
+
+describe("glossaryFingerprint", () => {
+  it("is empty without entries and ignores order and ids", () => {
+    expect(glossaryFingerprint([])).toBe("");
+    expect(glossaryFingerprint([BRAND, INVOICE])).toBe(glossaryFingerprint([{ ...INVOICE, id: "other" }, BRAND]));
+  });
+
+  it("changes with the terminology", () => {
+    expect(glossaryFingerprint([INVOICE])).not.toBe(glossaryFingerprint([{ ...INVOICE, translation: "tagihan" }]));
+    expect(glossaryFingerprint([INVOICE])).not.toBe(glossaryFingerprint([{ ...INVOICE, doNotTranslate: true }]));
+  });
+});
+
+describe("parseGlossaryImport", () => {
+  it("reads our export file and bare arrays", () => {
+    const file = JSON.stringify({ app: "ivoice", version: 1, entries: [INVOICE] });
+    expect(parseGlossaryImport(file)).toEqual([INVOICE]);
+    expect(parseGlossaryImport(JSON.stringify([INVOICE]))).toEqual([INVOICE]);
+  });
+
+  it("trims terms, copies the source for do-not-translate entries and drops unknown keys", () => {
+    const [entry] = parseGlossaryImport(JSON.stringify([{ ...BRAND, source: " IVoice ", translation: "", extra: true }]));
+    expect(entry).toEqual(BRAND);
+  });
+
+  it("leaves out malformed entries", () => {
+    const entries = parseGlossaryImport(JSON.stringify([
+      INVOICE,
+      { ...INVOICE, id: "" },
+      { ...INVOICE, mother: "xx" },
+      { ...INVOICE, target: "en" },
+      { ...INVOICE, source: "   " },
+      { ...INVOICE, translation: "" },
+      { ...INVOICE, doNotTranslate: "yes" },
+      null,
+    ]));
+    expect(entries).toEqual([INVOICE]);
+  });
+
+  it("rejects files that are not a glossary", () => {
+    expect(() => parseGlossaryImport("{")).toThrow("not valid JSON");
+    expect(() => parseGlossaryImport('{"entries": {}}')).toThrow("no entries");
+  });
+});
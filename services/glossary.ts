@@ -0,0 +1,130 @@
+import { GlossaryEntry, GlossaryIssue, LanguagePair, SupportedLanguageCode, TranslationResult } from "../types";
+import { SUPPORTED_LANGUAGES } from "../constants";
+import { STORES, openDB, promisify, transactionDone, putOne, deleteOne } from "./db";
+
+export const GLOSSARY_EXPORT_VERSION = 1;
+
+// Keeps audio and image prompts bounded; text prompts only carry the entries the input mentions
+const MAX_PROMPT_ENTRIES = 100;
+
+// Scripts where terms attach to neighbouring characters without spaces, so word boundaries don't apply
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const containsTerm = (text: string, term: string): boolean => {
+  const haystack = text.normalize("NFKC").toLowerCase();
+  const needle = term.normalize("NFKC").trim().toLowerCase();
+  if (!needle) return false;
+  if (UNSPACED_SCRIPT.test(needle)) return haystack.includes(needle);
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(needle)}($|[^\\p{L}\\p{N}])`, "u").test(haystack);
+};
+
+// Entries saved for the reverse pair are flipped so callers always see source = mother language
+const orient = (entry: GlossaryEntry, pair: LanguagePair): GlossaryEntry =>
+  entry.mother === pair.mother.code
+    ? entry
+    : { ...entry, mother: entry.target, target: entry.mother, source: entry.translation, translation: entry.source };
+
+export const getGlossary = async (pair: LanguagePair): Promise<GlossaryEntry[]> => {
+  const db = await openDB();
+  const index = db.transaction(STORES.glossary).objectStore(STORES.glossary).index("pair");
+  const [forward, reverse] = await Promise.all([
+    promisify<GlossaryEntry[]>(index.getAll([pair.mother.code, pair.target.code])),
+    promisify<GlossaryEntry[]>(index.getAll([pair.target.code, pair.mother.code])),
+  ]);
+  return [...forward, ...reverse]
+    .map(entry => orient(entry, pair))
+    .sort((a, b) => a.source.localeCompare(b.source));
+};
+
+export const saveGlossaryEntry = (entry: GlossaryEntry) =>
+  putOne(STORES.glossary, entry.doNotTranslate ? { ...entry, translation: entry.source } : entry);
+
+export const deleteGlossaryEntry = (id: string) => deleteOne(STORES.glossary, id);
+
+export const exportGlossary = async (): Promise<string> => {
+  const db = await openDB();
+  const entries = await promisify<GlossaryEntry[]>(db.transaction(STORES.glossary).objectStore(STORES.glossary).getAll());
+  return JSON.stringify({ app: "ivoice", version: GLOSSARY_EXPORT_VERSION, entries }, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isLanguageCode = (value: unknown): value is SupportedLanguageCode => SUPPORTED_LANGUAGES.some(l => l.code === value);
+
+// Rebuilt from known fields only; null when anything required is missing or a present field is malformed
+const readGlossaryEntry = (value: unknown): GlossaryEntry | null => {
+  if (!isRecord(value)) return null;
+  const { id, mother, target, source, translation, doNotTranslate = false } = value;
+  if (typeof id !== "string" || !id || !isLanguageCode(mother) || !isLanguageCode(target) || mother === target) return null;
+  if (typeof source !== "string" || typeof translation !== "string" || typeof doNotTranslate !== "boolean") return null;
+  if (!source.trim() || (!doNotTranslate && !translation.trim())) return null;
+  return {
+    id,
+    mother,
+    target,
+    source: source.trim(),
+    translation: doNotTranslate ? source.trim() : translation.trim(),
+    doNotTranslate,
+  };
+};
+
+// Accepts our export file or a bare entry array; malformed entries are left out
+export const parseGlossaryImport = (text: string): GlossaryEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Glossary import is not valid JSON");
+  }
+  const entries = Array.isArray(data) ? data : isRecord(data) ? data.entries : undefined;
+  if (!Array.isArray(entries)) throw new Error("Glossary import has no entries");
+  return entries.flatMap(entry => readGlossaryEntry(entry) ?? []);
+};
+
+// Merges by id
+export const importGlossary = async (text: string): Promise<number> => {
+  const valid = parseGlossaryImport(text);
+  const db = await openDB();
+  const tx = db.transaction(STORES.glossary, "readwrite");
+  valid.forEach(entry => tx.objectStore(STORES.glossary).put(entry));
+  await transactionDone(tx);
+  return valid.length;
+};
+
+export const relevantGlossary = (text: string, glossary: GlossaryEntry[]): GlossaryEntry[] =>
+  glossary.filter(entry => containsTerm(text, entry.source) || containsTerm(text, entry.translation));
+
+export const promptGlossary = (glossary: GlossaryEntry[] = [], inputText?: string): GlossaryEntry[] =>
+  (inputText === undefined ? glossary : relevantGlossary(inputText, glossary)).slice(0, MAX_PROMPT_ENTRIES);
+
+// Flags entries whose term appears in the input but whose required rendering is missing from the output
+export const findGlossaryIssues = (result: TranslationResult, glossary: GlossaryEntry[]): GlossaryIssue[] =>
+  glossary.flatMap(entry => {
+    const fromMother = result.detected_language === entry.mother;
+    const term = fromMother ? entry.source : entry.translation;
+    const expected = fromMother ? entry.translation : entry.source;
+    return containsTerm(result.original_text, term) && !containsTerm(result.translated_text, expected)
+      ? [{ entryId: entry.id, term, expected }]
+      : [];
+  });
+
+export const flagGlossaryIssues = (result: TranslationResult, glossary?: GlossaryEntry[]): TranslationResult => {
+  if (!glossary?.length) return result;
+  const issues = findGlossaryIssues(result, glossary);
+  return issues.length > 0 ? { ...result, glossary_issues: issues } : result;
+};
+
+// Short stable id of the glossary contents, so cached translations made under other terminology aren't reused
+export const glossaryFingerprint = (glossary: GlossaryEntry[] = []): string => {
+  if (glossary.length === 0) return "";
+  const payload = glossary
+    .map(e => `${e.source}\u0000${e.translation}\u0000${e.doNotTranslate ? 1 : 0}`)
+    .sort()
+    .join("\u0001");
+  let hash = 5381;
+  for (let i = 0; i < payload.length; i++) hash = ((hash << 5) + hash + payload.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
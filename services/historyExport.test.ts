@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { exportHistory, parseHistoryImport } from "./historyExport";
+import { HistoryItem } from "../types";
+
+const ITEM: HistoryItem = {
+  id: "a1",
+  timestamp: 1760000000000,
+  original_text: "Where is the station?",
+  detected_language: "en",
+  translated_text: "Di mana stasiunnya?",
+  phonetic: "",
+  targetLangName: "Indonesian",
+  targetLangLocale: "id-ID",
+  targetLangFlag: "🇮🇩",
+  mode: "text",
+  languagePair: { mother: "en", target: "id" },
+  starred: true,
+  tags: ["travel"],
+};
+
+const importItems = (items: unknown[]) => parseHistoryImport(JSON.stringify({ app: "ivoice", version: 1, items }));
+
+describe("parseHistoryImport", () => {
+  it("round-trips a JSON export", () => {
+    const { content } = exportHistory([ITEM], "json");
+    expect(parseHistoryImport(content as string)).toEqual({ items: [ITEM], skipped: 0 });
+  });
+
+  it("normalizes the detected language", () => {
+    expect(importItems([{ ...ITEM, detected_language: "EN-us" }]).items[0].detected_language).toBe("en");
+  });
+
+  it("drops keys it does not know", () => {
+    const { items } = importItems([{ ...ITEM, extra: 1, html: "<b>x</b>" }]);
+    expect(Object.keys(items[0])).not.toContain("html");
+    expect(Object.keys(items[0])).not.toContain("extra");
+  });
+
+  it("skips entries with a malformed optional field", () => {
+    const { items, skipped } = importItems([
+      ITEM,
+      { ...ITEM, id: "b", mode: "video" },
+      { ...ITEM, id: "c", languagePair: { mother: "en", target: "xx" } },
+      { ...ITEM, id: "d", alternatives: [{ translated_text: 3 }] },
+      { ...ITEM, id: "e", tags: ["ok", 4] },
+      { ...ITEM, id: "f", targetLangVariant: "not-a-variant" },
+      { ...ITEM, id: "g", starred: "yes" },
+      { ...ITEM, id: "h", detected_language: "klingon" },
+    ]);
+    expect(items.map(item => item.id)).toEqual(["a1"]);
+    expect(skipped).toBe(7);
+  });
+
+  it("rejects files that are not history", () => {
+    expect(() => parseHistoryImport("nope")).toThrow("not valid JSON");
+    expect(() => parseHistoryImport('{"items": 3}')).toThrow("no items");
+    expect(() => parseHistoryImport('{"version": 99, "items": []}')).toThrow("newer");
+  });
+});
@@ -0,0 +1,229 @@
+import { GlossaryIssue, HistoryItem, HistoryMode, SupportedLanguageCode, TextRegion, TranslationAlternative } from "../types";
+import { SUPPORTED_LANGUAGES } from "../constants";
+import { normalizeLanguageCode } from "./responseValidation";
+
+export type HistoryExportFormat = "csv" | "json" | "anki";
+
+export const HISTORY_EXPORT_VERSION = 1;
+
+interface HistoryExportFile {
+  app: "ivoice";
+  version: number;
+  exportedAt: string;
+  items: HistoryItem[];
+}
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string | Blob;
+}
+
+const isLanguageCode = (code: unknown): code is SupportedLanguageCode =>
+  SUPPORTED_LANGUAGES.some(l => l.code === code);
+
+// Older entries predate `languagePair`, so fall back to the TTS locale's language subtag
+const targetLanguageOf = (item: HistoryItem): string => {
+  const pair = item.languagePair;
+  if (pair) return item.detected_language === pair.mother ? pair.target : pair.mother;
+  return item.targetLangLocale.split("-")[0];
+};
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Anki's importer has no quoting for TSV, so tabs and line breaks are flattened
+const tsvField = (value: string) => value.replace(/[\t\r\n]+/g, " ").trim();
+
+const toRow = (item: HistoryItem) => [
+  item.original_text,
+  item.translated_text,
+  item.phonetic || "",
+  item.detected_language,
+  targetLanguageOf(item),
+];
+
+const toCsv = (items: HistoryItem[]) => {
+  const header = ["original", "translation", "phonetic", "source_language", "target_language", "mode", "starred", "tags", "date"];
+  const rows = items.map(item => [
+    ...toRow(item),
+    item.mode || "",
+    item.starred ? "1" : "0",
+    (item.tags || []).join(" "),
+    new Date(item.timestamp).toISOString(),
+  ]);
+  // BOM so spreadsheet apps open non-Latin scripts as UTF-8
+  return "\uFEFF" + [header, ...rows].map(r => r.map(csvField).join(",")).join("\r\n");
+};
+
+// File headers understood by Anki 2.1.54+; older versions skip them as comment lines
+const toAnkiTsv = (items: HistoryItem[]) => {
+  const header = ["#separator:tab", "#html:false", "#columns:Front\tBack\tPhonetic\tSource\tTarget\tTags", "#tags column:6"];
+  const rows = items.map(item =>
+    [...toRow(item), (item.tags || []).map(tag => tag.replace(/\s+/g, "_")).join(" ")].map(tsvField).join("\t")
+  );
+  return [...header, ...rows].join("\n");
+};
+
+const toJson = (items: HistoryItem[]) => {
+  const file: HistoryExportFile = {
+    app: "ivoice",
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const exportHistory = (items: HistoryItem[], format: HistoryExportFormat): ExportedFile => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  switch (format) {
+    case "csv":
+      return { filename: `ivoice-history-${stamp}.csv`, mimeType: "text/csv;charset=utf-8", content: toCsv(items) };
+    case "anki":
+      return { filename: `ivoice-anki-${stamp}.txt`, mimeType: "text/tab-separated-values;charset=utf-8", content: toAnkiTsv(items) };
+    case "json":
+      return { filename: `ivoice-history-${stamp}.json`, mimeType: "application/json", content: toJson(items) };
+  }
+};
+
+export const downloadFile = ({ filename, mimeType, content }: ExportedFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const HISTORY_MODES: HistoryMode[] = ["voice", "text", "image"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptional = <T>(value: unknown, guard: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || guard(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isOptionalString = (value: unknown): value is string | undefined => isOptional(value, isString);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const isHistoryMode = (value: unknown): value is HistoryMode => HISTORY_MODES.some(mode => mode === value);
+
+const isUnit = (value: unknown): value is number => typeof value === "number" && value >= 0 && value <= 1;
+
+const isVariantId = (value: unknown): value is string =>
+  SUPPORTED_LANGUAGES.some(l => l.variants?.some(v => v.id === value));
+
+// The readers below rebuild each value from the fields they know, so extra keys never reach the store; null means malformed
+const readAlternative = (value: unknown): TranslationAlternative | null =>
+  isRecord(value) && typeof value.translated_text === "string" && typeof value.note === "string" && isOptionalString(value.phonetic)
+    ? { translated_text: value.translated_text, phonetic: value.phonetic, note: value.note }
+    : null;
+
+const readGlossaryIssue = (value: unknown): GlossaryIssue | null =>
+  isRecord(value) && typeof value.entryId === "string" && typeof value.term === "string" && typeof value.expected === "string"
+    ? { entryId: value.entryId, term: value.term, expected: value.expected }
+    : null;
+
+const readRegion = (value: unknown): TextRegion | null => {
+  if (!isRecord(value) || !isRecord(value.box)) return null;
+  const { x, y, width, height } = value.box;
+  if (!isUnit(x) || !isUnit(y) || !isUnit(width) || !isUnit(height)) return null;
+  if (typeof value.original_text !== "string" || typeof value.translated_text !== "string" || !isOptionalString(value.phonetic)) {
+    return null;
+  }
+  return {
+    box: { x, y, width, height },
+    original_text: value.original_text,
+    translated_text: value.translated_text,
+    phonetic: value.phonetic,
+  };
+};
+
+const readTag = (value: unknown): string | null => (isString(value) ? value : null);
+
+const readLanguagePair = (value: unknown): HistoryItem["languagePair"] | null =>
+  isRecord(value) && isLanguageCode(value.mother) && isLanguageCode(value.target)
+    ? { mother: value.mother, target: value.target }
+    : null;
+
+// An absent list is fine; a list with any malformed element rejects the whole entry
+const readList = <T>(value: unknown, read: (item: unknown) => T | null): T[] | undefined | null => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  const list = value.map(read);
+  return list.every((item): item is T => item !== null) ? list : null;
+};
+
+/**
+ * Null unless every required field is present and every optional one that is present is well-formed.
+ * `detected_language` is normalized first, so "EN" or "en-US" still import.
+ */
+const readHistoryItem = (entry: unknown): HistoryItem | null => {
+  if (!isRecord(entry)) return null;
+  const {
+    id, timestamp, original_text, translated_text, phonetic, model,
+    targetLangName, targetLangLocale, targetLangFlag, targetLangVariant, mode, starred,
+  } = entry;
+  if (typeof id !== "string" || typeof timestamp !== "number" || !Number.isFinite(timestamp)) return null;
+  if (typeof original_text !== "string" || typeof translated_text !== "string") return null;
+  if (typeof targetLangName !== "string" || typeof targetLangLocale !== "string" || typeof targetLangFlag !== "string") return null;
+  if (!isOptionalString(phonetic) || !isOptionalString(model)) return null;
+  if (!isOptional(targetLangVariant, isVariantId) || !isOptional(mode, isHistoryMode) || !isOptional(starred, isBoolean)) return null;
+
+  const detected = typeof entry.detected_language === "string" ? normalizeLanguageCode(entry.detected_language) : null;
+  const languagePair = entry.languagePair === undefined ? undefined : readLanguagePair(entry.languagePair);
+  const alternatives = readList(entry.alternatives, readAlternative);
+  const glossaryIssues = readList(entry.glossary_issues, readGlossaryIssue);
+  const regions = readList(entry.regions, readRegion);
+  const tags = readList(entry.tags, readTag);
+  if (!isLanguageCode(detected) || languagePair === null || alternatives === null) return null;
+  if (glossaryIssues === null || regions === null || tags === null) return null;
+
+  return {
+    id,
+    timestamp,
+    original_text,
+    detected_language: detected,
+    translated_text,
+    phonetic,
+    model,
+    glossary_issues: glossaryIssues,
+    alternatives,
+    regions,
+    targetLangName,
+    targetLangLocale,
+    targetLangFlag,
+    targetLangVariant,
+    mode,
+    languagePair,
+    starred: starred || undefined,
+    tags,
+  };
+};
+
+export interface HistoryImport {
+  items: HistoryItem[];
+  // Entries with a missing or malformed field, or a language this app doesn't support
+  skipped: number;
+}
+
+// Accepts our export file or a bare item array
+export const parseHistoryImport = (text: string): HistoryImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("History import is not valid JSON");
+  }
+  const entries = Array.isArray(data) ? data : isRecord(data) ? data.items : undefined;
+  if (!Array.isArray(entries)) throw new Error("History import has no items");
+  if (isRecord(data) && typeof data.version === "number" && data.version > HISTORY_EXPORT_VERSION) {
+    throw new Error(`History export version ${data.version} is newer than this app supports`);
+  }
+
+  const items = entries.flatMap(entry => readHistoryItem(entry) ?? []);
+  return { items, skipped: entries.length - items.length };
+};
@@ -0,0 +1,158 @@
+import { HistoryItem, HistoryQuery } from "../types";
+import { STORES, openDB, promisify, transactionDone, getAll, getOne, putOne } from "./db";
+
+export const HISTORY_PAGE_SIZE = 30;
+
+const LEGACY_HISTORY_KEY = "gv_history";
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  hasMore: boolean;
+}
+
+const searchTerms = (query: HistoryQuery) => (query.search || "").toLowerCase().split(/\s+/).filter(Boolean);
+
+export const matchesHistoryQuery = (
+  item: HistoryItem,
+  query: HistoryQuery,
+  terms: string[] = searchTerms(query)
+): boolean => {
+  if (query.starredOnly && !item.starred) return false;
+  if (query.mode && item.mode !== query.mode) return false;
+  if (query.from !== undefined && item.timestamp < query.from) return false;
+  if (query.to !== undefined && item.timestamp > query.to) return false;
+  if (query.tag && !item.tags?.includes(query.tag)) return false;
+  if (query.languagePair) {
+    // Conversations run both ways, so en→id and id→en count as the same pair
+    const pair = item.languagePair;
+    const wanted = query.languagePair;
+    if (!pair) return false;
+    const same = pair.mother === wanted.mother && pair.target === wanted.target;
+    const swapped = pair.mother === wanted.target && pair.target === wanted.mother;
+    if (!same && !swapped) return false;
+  }
+  if (terms.length > 0) {
+    const haystack = [item.original_text, item.translated_text, item.phonetic || "", ...(item.tags || [])]
+      .join("\n")
+      .toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+  return true;
+};
+
+// Walks the timestamp index newest-first, so filtering and paging never load the whole store
+export const queryHistory = async (
+  query: HistoryQuery = {},
+  offset: number = 0,
+  limit: number = HISTORY_PAGE_SIZE
+): Promise<HistoryPage> => {
+  const db = await openDB();
+  const terms = searchTerms(query);
+  const index = db.transaction(STORES.history).objectStore(STORES.history).index("timestamp");
+
+  return new Promise((resolve, reject) => {
+    const items: HistoryItem[] = [];
+    let skipped = 0;
+    const request = index.openCursor(null, "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve({ items, hasMore: false });
+
+      const item = cursor.value as HistoryItem;
+      if (matchesHistoryQuery(item, query, terms)) {
+        if (skipped < offset) {
+          skipped++;
+        } else if (items.length < limit) {
+          items.push(item);
+        } else {
+          return resolve({ items, hasMore: true });
+        }
+      }
+      cursor.continue();
+    };
+  });
+};
+
+export const addHistoryItem = (item: HistoryItem) => putOne(STORES.history, item);
+
+export const updateHistoryItem = async (id: string, patch: Partial<Omit<HistoryItem, "id">>) => {
+  const existing = await getOne<HistoryItem>(STORES.history, id);
+  if (!existing) return null;
+  const updated = { ...existing, ...patch };
+  await putOne(STORES.history, updated);
+  return updated;
+};
+
+// Spoken audio cached for an entry goes with it
+export const deleteHistoryItem = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.history, STORES.speechAudio], "readwrite");
+  tx.objectStore(STORES.history).delete(id);
+  tx.objectStore(STORES.speechAudio).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearHistory = async () => {
+  const db = await openDB();
+  const tx = db.transaction([STORES.history, STORES.speechAudio], "readwrite");
+  tx.objectStore(STORES.history).clear();
+  tx.objectStore(STORES.speechAudio).clear();
+  await transactionDone(tx);
+};
+
+export const getHistoryTags = async (): Promise<string[]> => {
+  const items = await getAll<HistoryItem>(STORES.history);
+  return [...new Set(items.flatMap(i => i.tags || []))].sort();
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// One-time move of the old capped localStorage blob into IndexedDB; concurrent callers share one run
+export const migrateLegacyHistory = (): Promise<void> => {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+      if (!saved) return;
+      try {
+        const items = JSON.parse(saved) as HistoryItem[];
+        const db = await openDB();
+        const tx = db.transaction(STORES.history, "readwrite");
+        const store = tx.objectStore(STORES.history);
+        items.forEach(item => store.put(item));
+        await transactionDone(tx);
+        localStorage.removeItem(LEGACY_HISTORY_KEY);
+      } catch (e) {
+        console.error("Failed to migrate history", e);
+      }
+    })();
+  }
+  return legacyMigration;
+};
+
+export interface HistoryImportSummary {
+  added: number;
+  updated: number;
+}
+
+// Imported entries win field-by-field, but stars and tags set on this device are never dropped
+export const importHistoryItems = async (items: HistoryItem[]): Promise<HistoryImportSummary> => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.history, "readwrite");
+  const store = tx.objectStore(STORES.history);
+  const summary: HistoryImportSummary = { added: 0, updated: 0 };
+
+  for (const item of items) {
+    const existing = await promisify<HistoryItem | undefined>(store.get(item.id));
+    if (existing) {
+      const tags = [...new Set([...(existing.tags || []), ...(item.tags || [])])];
+      store.put({ ...existing, ...item, starred: existing.starred || item.starred, tags });
+      summary.updated++;
+    } else {
+      store.put(item);
+      summary.added++;
+    }
+  }
+  await transactionDone(tx);
+  return summary;
+};
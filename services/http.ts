@@ -0,0 +1,33 @@
+import { AuthError, NetworkError, QuotaExceededError, ServerError, UnsupportedMediaError } from "./errors";
+
+// Minimal JSON transport for engines that talk to self-hosted HTTP endpoints
+export const postJSON = async <T>(url: string, body: unknown, apiKey?: string, signal?: AbortSignal): Promise<T> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new NetworkError(`Could not reach ${url}.`, err);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    const message = `Translation server responded with ${response.status}${detail ? `: ${detail}` : ""}`;
+    if (response.status === 429) throw new QuotaExceededError(message);
+    if (response.status === 401 || response.status === 403) throw new AuthError(message);
+    if (response.status === 415) throw new UnsupportedMediaError(message);
+    throw new ServerError(message, response.status);
+  }
+  return response.json() as Promise<T>;
+};
+
+export const joinUrl = (baseUrl: string, path: string): string =>
+  `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
@@ -0,0 +1,85 @@
+import { TextRegion } from "../types";
+import { ExportedFile } from "./historyExport";
+
+const MIN_FONT_PX = 10;
+const LINE_HEIGHT = 1.2;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load the photo for export"));
+    image.src = src;
+  });
+
+// Greedy word wrap; text without spaces (Chinese, Japanese, Thai) wraps per character
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const tokens = /\s/.test(text.trim()) ? text.trim().split(/(\s+)/) : Array.from(text.trim());
+  const lines: string[] = [];
+  let line = "";
+  for (const token of tokens) {
+    const candidate = line + token;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line.trim());
+      line = token.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+};
+
+// Largest font size at which the wrapped translation still fits inside the box
+const fitText = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  let size = Math.max(MIN_FONT_PX, Math.floor(height));
+  let lines = [text];
+  while (size > MIN_FONT_PX) {
+    ctx.font = `bold ${size}px sans-serif`;
+    lines = wrapLines(ctx, text, width);
+    if (lines.length * size * LINE_HEIGHT <= height) break;
+    size--;
+  }
+  ctx.font = `bold ${size}px sans-serif`;
+  return { size, lines: size === MIN_FONT_PX ? wrapLines(ctx, text, width) : lines };
+};
+
+// Paints each translation over its region at the photo's full resolution
+export const renderAnnotatedImage = async (imageSrc: string, regions: TextRegion[], rtl = false): Promise<Blob> => {
+  const image = await loadImage(imageSrc);
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  ctx.drawImage(image, 0, 0);
+  ctx.direction = rtl ? "rtl" : "ltr";
+  ctx.textBaseline = "top";
+  for (const region of regions) {
+    const x = region.box.x * canvas.width;
+    const y = region.box.y * canvas.height;
+    const width = region.box.width * canvas.width;
+    const height = region.box.height * canvas.height;
+    const padding = Math.min(width, height) * 0.08;
+
+    ctx.fillStyle = "rgba(15, 23, 42, 0.85)";
+    ctx.fillRect(x, y, width, height);
+
+    const { size, lines } = fitText(ctx, region.translated_text, width - padding * 2, height - padding * 2);
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = rtl ? "right" : "left";
+    const textX = rtl ? x + width - padding : x + padding;
+    lines.forEach((line, i) => ctx.fillText(line, textX, y + padding + i * size * LINE_HEIGHT, width - padding * 2));
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the annotated photo"))), "image/png")
+  );
+};
+
+export const exportAnnotatedImage = async (imageSrc: string, regions: TextRegion[], rtl = false): Promise<ExportedFile> => ({
+  filename: `ivoice-photo-${new Date().toISOString().slice(0, 10)}.png`,
+  mimeType: "image/png",
+  content: await renderAnnotatedImage(imageSrc, regions, rtl),
+});
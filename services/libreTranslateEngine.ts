@@ -0,0 +1,64 @@
+import { TranslationResult, EngineConfig, TranslationEngine } from "../types";
+import { postJSON, joinUrl } from "./http";
+import { normalizeLanguageCode } from "./responseValidation";
+import { UnsupportedMediaError } from "./errors";
+import { DEFAULT_RETRY_OPTIONS, resolveModelChain, withRetry } from "./retry";
+import { DEFAULT_TIMEOUT_MS, withCancellation } from "./abort";
+import { flagGlossaryIssues } from "./glossary";
+
+interface DetectResponse {
+  language: string;
+  confidence: number;
+}
+
+interface TranslateResponse {
+  translatedText: string;
+}
+
+// LibreTranslate-style servers only do text, so voice and photo modes are rejected up front
+export const createLibreTranslateEngine = (config: EngineConfig): TranslationEngine => {
+  if (!config.baseUrl) {
+    throw new Error("The LibreTranslate engine requires TRANSLATION_ENGINE_URL to be set.");
+  }
+  const baseUrl = config.baseUrl;
+  const withKey = (body: Record<string, unknown>) => (config.apiKey ? { ...body, api_key: config.apiKey } : body);
+  // The server picks its own model; a configured name only labels results so cache and history can tell servers apart
+  const model = resolveModelChain(config, "text", ["libretranslate"])[0];
+
+  const unsupported = (kind: string) => async (): Promise<TranslationResult> => {
+    throw new UnsupportedMediaError(`The LibreTranslate engine cannot translate ${kind}.`);
+  };
+
+  return {
+    id: "libretranslate",
+    primaryModel: () => model,
+    translateAudio: unsupported("audio"),
+    translateImage: unsupported("images"),
+    // LibreTranslate takes no terminology hints, so the glossary can only be checked afterwards
+    translateText: (inputText, pair, options) => withCancellation(options?.signal, signal => withRetry(async attemptSignal => {
+      const detections = await postJSON<DetectResponse[]>(
+        joinUrl(baseUrl, "detect"),
+        withKey({ q: inputText }),
+        undefined,
+        attemptSignal
+      );
+      const detected = normalizeLanguageCode(detections[0]?.language || pair.mother.code);
+      const targetCode = detected === pair.mother.code ? pair.target.code : pair.mother.code;
+
+      const data = await postJSON<TranslateResponse>(
+        joinUrl(baseUrl, "translate"),
+        withKey({ q: inputText, source: detected, target: targetCode, format: "text" }),
+        undefined,
+        attemptSignal
+      );
+
+      return {
+        original_text: inputText,
+        detected_language: detected,
+        translated_text: data.translatedText,
+        phonetic: "",
+        model,
+      };
+    }, { ...DEFAULT_RETRY_OPTIONS, signal, timeoutMs: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS }).then(result => flagGlossaryIssues(result, options?.glossary))),
+  };
+};
@@ -0,0 +1,140 @@
+import { LanguagePair, LocalTranscript, SpeechRecognizer } from "../types";
+import { decodeToMonoPcm, SPEECH_SAMPLE_RATE } from "./audio";
+import { getInstalledVocabulary, matchInstalledPhrase } from "./offlineTranslator";
+import { OfflineUnavailableError } from "./errors";
+
+/**
+ * Contract for on-device speech models. The module at LOCAL_STT_MODEL_URL must export
+ * `load()` resolving to one of these (e.g. a whisper.cpp WASM build with a small wrapper).
+ * It is cached for offline use, so it has to be a single bundled file; extra files (WASM, weights)
+ * are listed in an `assets` export, relative to the module, and opened through `options.assetUrl`.
+ */
+export interface LocalSpeechModel {
+  transcribe(
+    pcm: Float32Array,
+    options: { sampleRate: number; languages?: string[]; vocabulary?: string[] }
+  ): Promise<LocalTranscript>;
+}
+
+interface LocalSpeechModule {
+  assets?: string[];
+  load(options: { assetUrl: (path: string) => string }): Promise<LocalSpeechModel>;
+}
+
+const MODEL_URL = process.env.LOCAL_STT_MODEL_URL || "/models/stt/index.js";
+const MODEL_CACHE = "ivoice-stt-model";
+
+const modelUrl = () => new URL(MODEL_URL, location.href).href;
+// Lists the cached files; written last, so its presence means the whole model was downloaded
+const manifestKey = (url: string) => `${url}?ivoice-manifest`;
+
+let modelPromise: Promise<LocalSpeechModel> | null = null;
+let prefetchPromise: Promise<void> | null = null;
+
+// Serves the module and its assets from blob URLs, so no request reaches the network
+const loadCachedModel = async (url: string): Promise<LocalSpeechModel | null> => {
+  if (typeof caches === "undefined") return null;
+  const cache = await caches.open(MODEL_CACHE);
+  const manifest = await cache.match(manifestKey(url));
+  if (!manifest) return null;
+  const blobUrls = new Map<string, string>();
+  for (const file of (await manifest.json()) as string[]) {
+    const response = await cache.match(file);
+    if (!response) return null;
+    const blob = await response.blob();
+    blobUrls.set(file, URL.createObjectURL(file === url ? new Blob([blob], { type: "text/javascript" }) : blob));
+  }
+  const mod: LocalSpeechModule = await import(/* @vite-ignore */ blobUrls.get(url)!);
+  return mod.load({ assetUrl: path => blobUrls.get(new URL(path, url).href) ?? new URL(path, url).href });
+};
+
+const loadModel = (): Promise<LocalSpeechModel> => {
+  if (!modelPromise) {
+    const url = modelUrl();
+    modelPromise = loadCachedModel(url)
+      .then(async cached => {
+        if (cached) return cached;
+        const mod: LocalSpeechModule = await import(/* @vite-ignore */ url);
+        return mod.load({ assetUrl: path => new URL(path, url).href });
+      })
+      .catch(err => {
+        modelPromise = null;
+        console.error("Failed to load on-device speech model", err);
+        throw new OfflineUnavailableError("On-device speech recognition is not installed.", err);
+      });
+  }
+  return modelPromise;
+};
+
+/**
+ * Downloads the model and its assets into Cache Storage. Offline voice needs it exactly when there is
+ * no connection, so the app calls this while online whenever language packs are installed.
+ */
+export const prefetchLocalSpeechModel = (): Promise<void> => {
+  if (!prefetchPromise) {
+    prefetchPromise = (async () => {
+      const url = modelUrl();
+      const cache = await caches.open(MODEL_CACHE);
+      if (await cache.match(manifestKey(url))) return;
+      const mod: LocalSpeechModule = await import(/* @vite-ignore */ url);
+      const files = [url, ...(mod.assets || []).map(path => new URL(path, url).href)];
+      await cache.addAll(files);
+      await cache.put(manifestKey(url), new Response(JSON.stringify(files)));
+    })().catch(err => {
+      prefetchPromise = null;
+      throw err;
+    });
+  }
+  return prefetchPromise;
+};
+
+// Whether offline voice can work right now, checked before recording rather than failing afterwards
+export const isLocalSpeechReady = async (): Promise<boolean> => {
+  if (modelPromise && (await modelPromise.then(() => true, () => false))) return true;
+  if (typeof caches === "undefined") return false;
+  return !!(await (await caches.open(MODEL_CACHE)).match(manifestKey(modelUrl())));
+};
+
+// Either side of the conversation may be speaking, so both languages are offered as candidates
+const candidateLanguages = (pair: LanguagePair) => [pair.mother.code, pair.target.code];
+
+// Open-vocabulary transcription, the model picks the spoken language among the candidates
+const createWhisperRecognizer = (): SpeechRecognizer => ({
+  id: "whisper-wasm",
+  transcribe: async (audio: Blob, pair: LanguagePair) => {
+    const [model, pcm] = await Promise.all([loadModel(), decodeToMonoPcm(audio)]);
+    return model.transcribe(pcm, { sampleRate: SPEECH_SAMPLE_RATE, languages: candidateLanguages(pair) });
+  },
+});
+
+// Keyword spotting restricted to the installed phrasebook: the model is biased towards the
+// pack vocabulary and anything that does not land on a known phrase is discarded.
+const createPhrasebookRecognizer = (): SpeechRecognizer => ({
+  id: "phrasebook",
+  transcribe: async (audio: Blob, pair: LanguagePair) => {
+    const [model, pcm, vocabulary] = await Promise.all([loadModel(), decodeToMonoPcm(audio), getInstalledVocabulary()]);
+    const raw = await model.transcribe(pcm, {
+      sampleRate: SPEECH_SAMPLE_RATE,
+      languages: candidateLanguages(pair),
+      vocabulary,
+    });
+    const phrase = await matchInstalledPhrase(raw.text);
+    return phrase ? { text: phrase.text, language: phrase.language, confidence: phrase.score } : { text: "", confidence: 0 };
+  },
+});
+
+const recognizers: Record<string, () => SpeechRecognizer> = {
+  "whisper-wasm": createWhisperRecognizer,
+  phrasebook: createPhrasebookRecognizer,
+};
+
+export const registerRecognizer = (id: string, factory: () => SpeechRecognizer) => {
+  recognizers[id] = factory;
+};
+
+export const getLocalRecognizer = (): SpeechRecognizer => {
+  const id = process.env.LOCAL_STT_ENGINE || "whisper-wasm";
+  const factory = recognizers[id];
+  if (!factory) throw new Error(`Unknown on-device speech recognizer "${id}".`);
+  return factory();
+};
@@ -0,0 +1,101 @@
+import { SUPPORTED_LANGUAGES } from "../constants";
+import { LanguagePackManifest, OfflinePack, PackCatalogEntry, SupportedLanguageCode } from "../types";
+import { STORES, getAll, getOne, putOne, deleteOne } from "./db";
+import { InvalidResponseError, NetworkError, OfflineUnavailableError } from "./errors";
+
+export const PACK_FORMAT_VERSION = 1;
+
+const PACKS_URL = process.env.OFFLINE_PACKS_URL || "/packs";
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const sha256 = async (payload: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Semver-ish comparison, enough for "1.2.0" style pack versions
+const isNewer = (candidate: string, installed: string): boolean => {
+  const a = candidate.split(".").map(Number);
+  const b = installed.split(".").map(Number);
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if ((a[i] || 0) !== (b[i] || 0)) return (a[i] || 0) > (b[i] || 0);
+  }
+  return false;
+};
+
+export const fetchPackCatalog = async (): Promise<PackCatalogEntry[]> => {
+  const response = await fetch(`${PACKS_URL}/index.json`).catch(err => {
+    throw new NetworkError("Could not reach the language pack server.", err);
+  });
+  if (!response.ok) throw new NetworkError(`Could not load the language pack catalog (${response.status}).`);
+  const catalog = await response.json();
+  if (catalog.formatVersion !== PACK_FORMAT_VERSION) {
+    throw new InvalidResponseError("The language pack catalog uses an unsupported format.");
+  }
+  return catalog.packs;
+};
+
+export const getInstalledPacks = (): Promise<LanguagePackManifest[]> =>
+  getAll<LanguagePackManifest>(STORES.languagePacks);
+
+export const getInstalledPack = (code: SupportedLanguageCode) =>
+  getOne<LanguagePackManifest>(STORES.languagePacks, code);
+
+// Downloads, verifies and stores a pack. Installing over an existing pack is how updates happen.
+export const installPack = async (code: SupportedLanguageCode): Promise<LanguagePackManifest> => {
+  const entry = (await fetchPackCatalog()).find(p => p.code === code);
+  if (!entry) throw new OfflineUnavailableError(`No offline pack is published for "${code}".`);
+
+  const response = await fetch(`${PACKS_URL}/${entry.url}`).catch(err => {
+    throw new NetworkError(`Downloading the ${entry.name} pack failed.`, err);
+  });
+  if (!response.ok) throw new NetworkError(`Downloading the ${entry.name} pack failed (${response.status}).`);
+  const manifest = (await response.json()) as LanguagePackManifest;
+
+  if (manifest.formatVersion !== PACK_FORMAT_VERSION) {
+    throw new InvalidResponseError(`The ${entry.name} pack uses an unsupported format.`);
+  }
+  if (manifest.code !== code || !Array.isArray(manifest.phrases)) {
+    throw new InvalidResponseError(`The ${entry.name} pack is malformed.`);
+  }
+  const checksum = `sha256-${await sha256(JSON.stringify(manifest.phrases))}`;
+  if (checksum !== manifest.checksum || checksum !== entry.checksum) {
+    throw new InvalidResponseError(`The ${entry.name} pack failed its integrity check.`);
+  }
+
+  await putOne(STORES.languagePacks, manifest);
+  return manifest;
+};
+
+export const deletePack = (code: SupportedLanguageCode) => deleteOne(STORES.languagePacks, code);
+
+// Merges the remote catalog (when reachable) with what is installed locally
+export const listOfflinePacks = async (): Promise<OfflinePack[]> => {
+  const installed = await getInstalledPacks();
+  const catalog = navigator.onLine ? await fetchPackCatalog().catch(() => []) : [];
+
+  // Not every registry language has a phrasebook yet; once the catalog is known, hide the ones without a pack
+  const languages = catalog.length > 0
+    ? SUPPORTED_LANGUAGES.filter(lang => catalog.some(p => p.code === lang.code) || installed.some(p => p.code === lang.code))
+    : SUPPORTED_LANGUAGES;
+
+  return languages.map(lang => {
+    const local = installed.find(p => p.code === lang.code);
+    const remote = catalog.find(p => p.code === lang.code);
+    return {
+      code: lang.code,
+      name: lang.name,
+      size: formatBytes(local?.size ?? remote?.size ?? 0),
+      isDownloaded: !!local,
+      installedVersion: local?.version,
+      latestVersion: remote?.version,
+      updateAvailable: !!(local && remote && isNewer(remote.version, local.version)),
+      phraseCount: local?.phrases.length,
+    };
+  });
+};
@@ -0,0 +1,129 @@
+import { LanguagePair, LanguagePackManifest, PackPhrase, SupportedLanguageCode, TranslationResult } from "../types";
+import { getInstalledPacks } from "./offlinePacks";
+import { findCachedTranslation } from "./translationCache";
+import { OfflineUnavailableError } from "./errors";
+
+const MATCH_THRESHOLD = 0.6;
+
+interface PhraseMatch {
+  pack: LanguagePackManifest;
+  phrase: PackPhrase;
+  language: SupportedLanguageCode;
+  score: number;
+}
+
+export const normalizePhrase = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s/g, "");
+  if (compact.length < 2) return [compact];
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+// Sørensen–Dice over character bigrams: tolerant of typos and works for unspaced CJK scripts
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  const pool = new Map<string, number>();
+  for (const g of gramsB) pool.set(g, (pool.get(g) || 0) + 1);
+  let overlap = 0;
+  for (const g of gramsA) {
+    const left = pool.get(g) || 0;
+    if (left > 0) {
+      overlap++;
+      pool.set(g, left - 1);
+    }
+  }
+  const dice = (2 * overlap) / (gramsA.length + gramsB.length);
+  // A known phrase embedded in a longer sentence still counts, weighted by how much of it is covered
+  const unspaced = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(b);
+  const isContained = unspaced ? a.includes(b) : ` ${a} `.includes(` ${b} `);
+  const contained = isContained ? 0.7 + 0.3 * (b.length / a.length) : 0;
+  return Math.max(dice, contained);
+};
+
+const findBestMatch = (input: string, packs: LanguagePackManifest[]): PhraseMatch | null => {
+  let best: PhraseMatch | null = null;
+  for (const pack of packs) {
+    for (const phrase of pack.phrases) {
+      const variants: [SupportedLanguageCode, string][] = [
+        [pack.code, phrase.text],
+        ...(Object.entries(phrase.translations) as [SupportedLanguageCode, string][]),
+      ];
+      for (const [language, text] of variants) {
+        const score = similarity(input, normalizePhrase(text));
+        if (score > (best?.score ?? 0)) best = { pack, phrase, language, score };
+      }
+    }
+  }
+  return best && best.score >= MATCH_THRESHOLD ? best : null;
+};
+
+const lookup = (packs: LanguagePackManifest[], phraseId: string, code: SupportedLanguageCode) => {
+  for (const pack of packs) {
+    const phrase = pack.phrases.find(p => p.id === phraseId);
+    if (!phrase) continue;
+    if (pack.code === code) return { text: phrase.text, phonetic: phrase.phonetic || "" };
+    const text = phrase.translations[code];
+    if (text) return { text, phonetic: "" };
+  }
+  return null;
+};
+
+// Snaps free-form text onto the closest phrase of the installed packs, in the language it matched
+export const matchInstalledPhrase = async (
+  text: string
+): Promise<{ text: string; language: SupportedLanguageCode; score: number } | null> => {
+  const match = findBestMatch(normalizePhrase(text), await getInstalledPacks());
+  if (!match) return null;
+  const phraseText = match.language === match.pack.code ? match.phrase.text : match.phrase.translations[match.language];
+  return phraseText ? { text: phraseText, language: match.language, score: match.score } : null;
+};
+
+export const getInstalledVocabulary = async (): Promise<string[]> => {
+  const vocabulary = new Set<string>();
+  for (const pack of await getInstalledPacks()) {
+    for (const phrase of pack.phrases) {
+      vocabulary.add(phrase.text);
+      Object.values(phrase.translations).forEach(t => t && vocabulary.add(t));
+    }
+  }
+  return [...vocabulary];
+};
+
+// Phrasebook translation against the installed packs, following the same 2-way rule as the cloud engines
+export const translateOffline = async (text: string, pair: LanguagePair): Promise<TranslationResult> => {
+  // Anything translated online before beats a fuzzy phrasebook guess
+  const cached = await findCachedTranslation(text, pair);
+  if (cached) return cached;
+
+  const packs = await getInstalledPacks();
+  // Prefer the target pack so its phonetics win when several packs carry the phrase
+  packs.sort((a, b) => Number(b.code === pair.target.code) - Number(a.code === pair.target.code));
+
+  const match = findBestMatch(normalizePhrase(text), packs);
+  if (!match) throw new OfflineUnavailableError("No installed phrasebook entry matches the input.", undefined, "offline_no_match");
+
+  const outputCode = match.language === pair.mother.code ? pair.target.code : pair.mother.code;
+  const translation = lookup(packs, match.phrase.id, outputCode);
+  if (!translation) {
+    throw new OfflineUnavailableError(`The matched phrase has no ${outputCode} entry in the installed packs.`, undefined, "offline_no_match");
+  }
+
+  return {
+    original_text: text,
+    detected_language: match.language,
+    translated_text: translation.text,
+    phonetic: translation.phonetic || "",
+  };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { muxOggOpus, oggCrc } from "./oggOpus";
+
+interface Page {
+  flags: number;
+  granule: number;
+  serial: number;
+  sequence: number;
+  crcValid: boolean;
+  lacing: number[];
+  packets: Uint8Array[];
+}
+
+// Just enough of an Ogg demuxer to check the muxer's output; packets never continue across pages here
+const readPages = (bytes: Uint8Array): Page[] => {
+  const pages: Page[] = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    expect(String.fromCharCode(...bytes.subarray(offset, offset + 4))).toBe("OggS");
+    const lacing = Array.from(bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]));
+    const length = 27 + lacing.length + lacing.reduce((a, b) => a + b, 0);
+    const page = bytes.slice(offset, offset + length);
+    const storedCrc = view.getUint32(22, true);
+    page.fill(0, 22, 26);
+
+    const packets: Uint8Array[] = [];
+    let body = offset + 27 + lacing.length;
+    let size = 0;
+    for (const value of lacing) {
+      size += value;
+      if (value < 255) {
+        packets.push(bytes.slice(body, body + size));
+        body += size;
+        size = 0;
+      }
+    }
+    pages.push({
+      flags: view.getUint8(5),
+      granule: view.getUint32(6, true) + view.getUint32(10, true) * 0x100000000,
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      crcValid: oggCrc(page) === storedCrc,
+      lacing,
+      packets,
+    });
+    offset += length;
+  }
+  return pages;
+};
+
+const packet = (length: number, fill: number) => ({ data: new Uint8Array(length).fill(fill), samples: 960 });
+
+const mux = async (...args: Parameters<typeof muxOggOpus>) =>
+  readPages(new Uint8Array(await muxOggOpus(...args).arrayBuffer()));
+
+describe("oggCrc", () => {
+  it("matches the reference check value for Ogg's CRC-32", () => {
+    expect(oggCrc(new TextEncoder().encode("123456789"))).toBe(0x89a1897f);
+    expect(oggCrc(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("muxOggOpus", () => {
+  it("starts with the OpusHead and OpusTags pages", async () => {
+    const [head, tags] = await mux([packet(40, 1)], 16000, 320);
+    expect(head.flags).toBe(0x02);
+    expect(String.fromCharCode(...head.packets[0].subarray(0, 8))).toBe("OpusHead");
+    expect(new DataView(head.packets[0].buffer).getUint32(12, true)).toBe(16000);
+    expect(String.fromCharCode(...tags.packets[0].subarray(0, 8))).toBe("OpusTags");
+    expect([head.granule, tags.granule]).toEqual([0, 0]);
+  });
+
+  it("writes valid, numbered pages of one stream that end with end-of-stream", async () => {
+    const packets = Array.from({ length: 120 }, (_, i) => packet(60, i));
+    const pages = await mux(packets, 48000, 120 * 960);
+    expect(pages.every(p => p.crcValid)).toBe(true);
+    expect(pages.map(p => p.sequence)).toEqual(pages.map((_, i) => i));
+    expect(new Set(pages.map(p => p.serial)).size).toBe(1);
+    expect(pages.slice(0, -1).every(p => (p.flags & 0x04) === 0)).toBe(true);
+    expect(pages[pages.length - 1].flags & 0x04).toBe(0x04);
+    expect(pages.slice(2).flatMap(p => p.packets)).toEqual(packets.map(p => p.data));
+  });
+
+  it("counts granules at 48 kHz after the pre-skip and trims the last page to the real end", async () => {
+    const pages = await mux([packet(40, 1), packet(40, 2)], 16000, 500);
+    // 312 pre-skip, then 500 samples at 16 kHz are 1500 at 48 kHz, less than the 1920 the packets carry
+    expect(pages[pages.length - 1].granule).toBe(312 + 1500);
+  });
+
+  it("uses the pre-skip from the encoder's own OpusHead", async () => {
+    const head = new Uint8Array(19);
+    head.set(Array.from("OpusHead", c => c.charCodeAt(0)));
+    new DataView(head.buffer).setUint16(10, 100, true);
+    const pages = await mux([packet(40, 1)], 48000, 960, head);
+    expect(pages[0].packets[0]).toEqual(head);
+    expect(pages[pages.length - 1].granule).toBe(100 + 960);
+  });
+
+  it("laces packets over 255 bytes and never puts more than 255 lacing values on a page", async () => {
+    // Eight lacing values per packet, so the segment limit splits pages before the one-second batch does
+    const packets = Array.from({ length: 40 }, (_, i) => packet(2000, i));
+    const pages = await mux(packets, 48000, 40 * 960);
+    expect(pages.length).toBeGreaterThan(3);
+    expect(pages.every(p => p.lacing.length <= 255)).toBe(true);
+    expect(pages[2].lacing.slice(0, 8)).toEqual([255, 255, 255, 255, 255, 255, 255, 215]);
+    expect(pages.slice(2).flatMap(p => p.packets)).toEqual(packets.map(p => p.data));
+  });
+});
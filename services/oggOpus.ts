@@ -0,0 +1,148 @@
+// Opus timestamps (granule positions, pre-skip) are always counted at 48 kHz whatever the input rate
+const OPUS_RATE = 48000;
+// libopus's encoder lookahead, used when the encoder doesn't hand out its own OpusHead
+const DEFAULT_PRE_SKIP = 312;
+const FRAME_SECONDS = 0.02;
+const MAX_PAGE_SEGMENTS = 255;
+
+export const OPUS_BITRATE = 24000;
+
+interface OpusPacket {
+  data: Uint8Array;
+  // Samples at 48 kHz
+  samples: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+// Ogg's CRC-32: polynomial 0x04c11db7, not reflected, zero initial value and no final xor
+export const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  const lacing = packets.flatMap(p => [...Array(Math.floor(p.length / 255)).fill(255), p.length % 255]);
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const opusHead = (sampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii("OpusHead"));
+  view.setUint8(8, 1);
+  view.setUint8(9, 1);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = ascii("IVoice");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  tags.set(ascii("OpusTags"));
+  new DataView(tags.buffer).setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return tags;
+};
+
+/**
+ * Wraps raw Opus packets in an Ogg container (RFC 7845), the form speech APIs accept as `audio/ogg`.
+ * `totalSamples` is the input length at `sampleRate`; it lets the last page mark where the audio really ends.
+ */
+export const muxOggOpus = (packets: OpusPacket[], sampleRate: number, totalSamples: number, head?: Uint8Array): Blob => {
+  const serial = (Math.random() * 0x100000000) >>> 0;
+  const header = head || opusHead(sampleRate, DEFAULT_PRE_SKIP);
+  const preSkip = new DataView(header.buffer, header.byteOffset).getUint16(10, true);
+  const end = preSkip + Math.ceil((totalSamples * OPUS_RATE) / sampleRate);
+  const pages: Uint8Array[] = [oggPage([header], 0, serial, 0, 0x02), oggPage([opusTags()], 0, serial, 1, 0)];
+
+  let granule = preSkip;
+  let batch: Uint8Array[] = [];
+  let segments = 0;
+  packets.forEach((packet, i) => {
+    batch.push(packet.data);
+    segments += Math.floor(packet.data.length / 255) + 1;
+    granule += packet.samples;
+    const last = i === packets.length - 1;
+    // Roughly a second per page; a page holds at most 255 lacing values
+    if (last || batch.length >= 1 / FRAME_SECONDS || segments + Math.floor(packets[i + 1].data.length / 255) + 1 > MAX_PAGE_SEGMENTS) {
+      pages.push(oggPage(batch, last ? Math.min(granule, end) : granule, serial, pages.length, last ? 0x04 : 0));
+      batch = [];
+      segments = 0;
+    }
+  });
+  return new Blob(pages, { type: "audio/ogg" });
+};
+
+export const canEncodeOpus = async (sampleRate: number): Promise<boolean> => {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: "opus", sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+// Encodes mono PCM to Ogg Opus with WebCodecs; callers check `canEncodeOpus` first
+export const encodeOggOpus = async (pcm: Float32Array, sampleRate: number): Promise<Blob> => {
+  const packets: OpusPacket[] = [];
+  let head: Uint8Array | undefined;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const seconds = chunk.duration ? chunk.duration / 1e6 : FRAME_SECONDS;
+      packets.push({ data, samples: Math.round(seconds * OPUS_RATE) });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !head) {
+        const bytes = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        if (String.fromCharCode(...bytes.subarray(0, 8)) === "OpusHead") head = bytes.slice();
+      }
+    },
+    error: e => {
+      failure = e;
+    },
+  });
+  try {
+    encoder.configure({ codec: "opus", sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE });
+    encoder.encode(new AudioData({ format: "f32", sampleRate, numberOfFrames: pcm.length, numberOfChannels: 1, timestamp: 0, data: pcm }));
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+  if (failure) throw failure;
+  return muxOggOpus(packets, sampleRate, pcm.length, head);
+};
@@ -0,0 +1,75 @@
+import { SYSTEM_INSTRUCTION } from "../constants";
+import { TranslationResult, EngineConfig, TranslationEngine, TranslationOperation, TranslationRequestOptions } from "../types";
+import { buildAudioPrompt, buildTextPrompt, buildImagePrompt, promptExtras, promptLanguageName } from "./prompts";
+import { postJSON, joinUrl } from "./http";
+import { requestValidatedResult } from "./responseValidation";
+import { DEFAULT_RETRY_OPTIONS, resolveModelChain, withModelFallback } from "./retry";
+import { DEFAULT_TIMEOUT_MS, withCancellation } from "./abort";
+import { flagGlossaryIssues } from "./glossary";
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: string } };
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// Talks to any server implementing the OpenAI chat completions API (vLLM, Ollama, LocalAI, ...)
+export const createOpenAICompatibleEngine = (config: EngineConfig): TranslationEngine => {
+  if (!config.baseUrl) {
+    throw new Error("The OpenAI-compatible engine requires TRANSLATION_ENGINE_URL to be set.");
+  }
+  const baseUrl = config.baseUrl;
+  const modelChain = (operation: TranslationOperation) => resolveModelChain(config, operation, ["gpt-4o-mini"]);
+
+  const complete = (
+    operation: TranslationOperation,
+    parts: ContentPart[],
+    options?: TranslationRequestOptions
+  ): Promise<TranslationResult> =>
+    withCancellation(options?.signal, signal =>
+      withModelFallback(
+        modelChain(operation),
+        (model, attemptSignal) =>
+          requestValidatedResult(async () => {
+            const data = await postJSON<ChatCompletionResponse>(
+              joinUrl(baseUrl, "chat/completions"),
+              {
+                model,
+                response_format: { type: "json_object" },
+                messages: [
+                  { role: "system", content: SYSTEM_INSTRUCTION },
+                  { role: "user", content: parts },
+                ],
+              },
+              config.apiKey,
+              attemptSignal
+            );
+            return data.choices?.[0]?.message?.content ?? undefined;
+          }),
+        { ...DEFAULT_RETRY_OPTIONS, signal, timeoutMs: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS }
+      ).then(result => flagGlossaryIssues(result, options?.glossary))
+    );
+
+  return {
+    id: "openai-compatible",
+    primaryModel: operation => modelChain(operation)[0],
+    translateAudio: (base64Audio, mimeType, pair, options) =>
+      complete("audio", [
+        { type: "input_audio", input_audio: { data: base64Audio, format: (mimeType.split("/")[1] || "webm").split(";")[0] } },
+        { type: "text", text: buildAudioPrompt(promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options)) },
+      ], options),
+    translateText: (inputText, pair, options) =>
+      complete("text", [{
+        type: "text",
+        text: buildTextPrompt(inputText, promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options, inputText)),
+      }], options),
+    translateImage: (base64Image, mimeType, pair, options) =>
+      complete("image", [
+        { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+        { type: "text", text: buildImagePrompt(promptLanguageName(pair.target), promptLanguageName(pair.mother), promptExtras(pair, options)) },
+      ], options),
+  };
+};
@@ -0,0 +1,97 @@
+import { SUPPORTED_LANGUAGES } from "../constants";
+import { Formality, GlossaryEntry, LanguageOption, LanguagePair, TranslationRequestOptions } from "../types";
+import { promptGlossary } from "./glossary";
+
+const languageName = (code: string) => SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+export const buildGlossaryInstruction = (glossary: GlossaryEntry[] = []): string => {
+  if (glossary.length === 0) return "";
+  const lines = glossary.map(entry =>
+    entry.doNotTranslate
+      ? `- "${entry.source}": do not translate; keep it exactly as written.`
+      : `- "${entry.source}" (${languageName(entry.mother)}) <-> "${entry.translation}" (${languageName(entry.target)})`
+  );
+  return `\n\nGlossary (mandatory terminology, applies in both translation directions):\n${lines.join("\n")}`;
+};
+
+const FORMALITY_INSTRUCTIONS: Record<Formality, string> = {
+  formal: "Use a formal, polite register (e.g. honorific forms in Japanese and Korean, \"Anda\" in Indonesian).",
+  neutral: "",
+  casual: "Use a casual, friendly register suitable for friends and family (plain forms, informal pronouns).",
+};
+
+export const buildFormalityInstruction = (formality: Formality = "neutral"): string =>
+  FORMALITY_INSTRUCTIONS[formality] ? `\n\nRegister: ${FORMALITY_INSTRUCTIONS[formality]}` : "";
+
+// Names a language together with its chosen variant, e.g. "Spanish (es-MX)"
+export const promptLanguageName = (lang: LanguageOption): string =>
+  lang.variant ? `${lang.name} (${lang.variant.id})` : lang.name;
+
+export const buildVariantInstruction = (pair: LanguagePair): string => {
+  const hints = [pair.mother, pair.target].flatMap(lang => (lang.variant ? [`- ${lang.name}: ${lang.variant.promptHint}`] : []));
+  return hints.length > 0 ? `\n\nLanguage variants:\n${hints.join("\n")}` : "";
+};
+
+const SEGMENT_INSTRUCTION =
+  "\n\nSegments: the input is a list of segments, each starting with a marker such as [[1]]. Keep every marker exactly once and in the same order, translate only the text after each marker, and never merge or split segments. Keep markup such as <i>...</i> or {\\an8} where it is. Apply the same to original_text and translated_text; leave alternatives empty.";
+
+// Per-request additions on top of the base task
+export interface PromptExtras {
+  pair?: LanguagePair;
+  glossary?: GlossaryEntry[];
+  formality?: Formality;
+  segmented?: boolean;
+}
+
+const buildExtras = ({ pair, glossary, formality, segmented }: PromptExtras): string =>
+  (pair ? buildVariantInstruction(pair) : "") +
+  buildGlossaryInstruction(glossary) +
+  buildFormalityInstruction(formality) +
+  (segmented ? SEGMENT_INSTRUCTION : "");
+
+// Text prompts only carry the glossary entries the input actually mentions
+export const promptExtras = (pair: LanguagePair, options?: TranslationRequestOptions, inputText?: string): PromptExtras => ({
+  pair,
+  glossary: promptGlossary(options?.glossary, inputText),
+  formality: options?.formality,
+  segmented: options?.segmented,
+});
+
+// Prompt builders shared by every LLM-backed engine so they all follow the same 2-way logic
+export const buildAudioPrompt = (
+  targetLanguageName: string,
+  motherLanguageName: string,
+  extras: PromptExtras = {}
+): string => {
+  const langList = SUPPORTED_LANGUAGES.map(l => l.name).join(", ");
+  return `Universal Detection Task:
+Supported Languages: [${langList}]
+User Preferred Language (Mother): ${motherLanguageName}
+Active Target Language: ${targetLanguageName}
+
+Operation:
+1. Detect which language is being spoken from the Supported Languages list.
+2. If the speaker uses ${motherLanguageName}, translate to ${targetLanguageName}.
+3. If the speaker uses any other language, translate to ${motherLanguageName}.
+Ensure high precision in auto-detection.${buildExtras(extras)}`;
+};
+
+export const buildTextPrompt = (
+  inputText: string,
+  targetLanguageName: string,
+  motherLanguageName: string,
+  extras: PromptExtras = {}
+): string =>
+  `The user's mother language is ${motherLanguageName}. Input Text: "${inputText}"\nTranslate this text to ${targetLanguageName}. If the input text is already in ${targetLanguageName}, translate it back to ${motherLanguageName}. Use auto-detection.${buildExtras(extras)}`;
+
+export const buildImagePrompt = (
+  targetLanguageName: string,
+  motherLanguageName: string,
+  extras: PromptExtras = {}
+): string =>
+  `The user's mother language is ${motherLanguageName}. Extract all visible text from this image and translate it to ${targetLanguageName}. If the extracted text is in ${targetLanguageName}, translate it to ${motherLanguageName}.
+
+Also return "regions": one entry per separate block of text (a sign, a menu line, a label), in reading order, each with:
+- "box_2d": [ymin, xmin, ymax, xmax] of the block, scaled 0-1000 relative to the image height and width
+- "original_text", "translated_text" and "phonetic" for that block alone
+"original_text" and "translated_text" at the top level still hold all the text, joined in reading order.${buildExtras(extras)}`;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { normalizeLanguageCode, validateTranslationResult } from "./responseValidation";
+import { InvalidResponseError } from "./errors";
+
+const reply = (fields: Record<string, unknown>) =>
+  JSON.stringify({ original_text: "Hello", detected_language: "en", translated_text: "Halo", ...fields });
+
+describe("normalizeLanguageCode", () => {
+  it.each([
+    ["en", "en"],
+    ["EN", "en"],
+    ["en-US", "en"],
+    ["English", "en"],
+    ["zh_Hant_TW", "zh"],
+    ["Simplified Chinese", "zh"],
+    ["普通话", "zh"],
+    ["ind", "id"],
+    ["fil-PH", "tl"],
+    [" Deutsch ", "de"],
+  ])("maps %j to %j", (value, code) => {
+    expect(normalizeLanguageCode(value)).toBe(code);
+  });
+
+  it("falls back to the primary subtag of languages it doesn't know", () => {
+    expect(normalizeLanguageCode("pt-BR")).toBe("pt");
+    expect(normalizeLanguageCode("Swahili (Kenya)")).toBe("swahili");
+  });
+});
+
+describe("validateTranslationResult", () => {
+  it("accepts a well-formed reply and normalizes the language", () => {
+    expect(validateTranslationResult(reply({ detected_language: "English", phonetic: "ha-lo" }))).toEqual({
+      original_text: "Hello",
+      detected_language: "en",
+      translated_text: "Halo",
+      phonetic: "ha-lo",
+      alternatives: [],
+      regions: [],
+    });
+  });
+
+  it("repairs code fences, surrounding prose and trailing commas", () => {
+    const chatty = 'Sure! Here it is:\n```json\n{"original_text": "Hello", "detected_language": "en", "translated_text": "Halo",}\n```';
+    expect(validateTranslationResult(chatty).translated_text).toBe("Halo");
+  });
+
+  it.each([
+    ["an empty reply", ""],
+    ["a truncated reply", '{"original_text": "Hello", "translated_text": "Ha'],
+    ["a JSON array", "[]"],
+    ["a reply without a translation", reply({ translated_text: "  " })],
+    ["a reply without the original", reply({ original_text: 3 })],
+    ["a reply without a language", reply({ detected_language: "" })],
+  ])("rejects %s", (_, text) => {
+    expect(() => validateTranslationResult(text)).toThrow(InvalidResponseError);
+  });
+
+  it("drops malformed alternatives and repeats of the main translation", () => {
+    const result = validateTranslationResult(reply({
+      alternatives: [
+        { translated_text: "Halo", note: "same as the main one" },
+        { translated_text: "Hai", note: "casual" },
+        { translated_text: 42 },
+        "Selamat",
+        { translated_text: "Hai", note: "repeat" },
+      ],
+    }));
+    expect(result.alternatives).toEqual([{ translated_text: "Hai", phonetic: "", note: "casual" }]);
+  });
+
+  it("keeps at most three alternatives", () => {
+    const alternatives = ["a", "b", "c", "d"].map(text => ({ translated_text: text, note: "" }));
+    expect(validateTranslationResult(reply({ alternatives })).alternatives).toHaveLength(3);
+  });
+});
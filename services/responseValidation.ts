@@ -0,0 +1,130 @@
+import { SUPPORTED_LANGUAGES } from "../constants";
+import { SupportedLanguageCode, TextRegion, TranslationAlternative, TranslationResult } from "../types";
+import { InvalidResponseError } from "./errors";
+
+const LANGUAGE_LOOKUP: Record<string, SupportedLanguageCode> = SUPPORTED_LANGUAGES.reduce(
+  (acc, lang) => ({
+    ...acc,
+    ...Object.fromEntries(lang.aliases.map(alias => [alias, lang.code])),
+    [lang.code]: lang.code,
+    [lang.name.toLowerCase()]: lang.code,
+    [lang.nativeName.toLowerCase()]: lang.code,
+    [lang.ttsLocale.toLowerCase()]: lang.code,
+  }),
+  {} as Record<string, SupportedLanguageCode>
+);
+
+// Maps names, native names, BCP-47 tags ("zh-CN", "zh_Hant_TW") and ISO 639-2 codes onto our codes.
+// Unknown languages fall back to their lowercased primary subtag.
+export const normalizeLanguageCode = (value: string): string => {
+  const cleaned = value.trim().toLowerCase().replace(/_/g, "-");
+  if (LANGUAGE_LOOKUP[cleaned]) return LANGUAGE_LOOKUP[cleaned];
+  const primary = cleaned.split(/[-\s(]/)[0];
+  return LANGUAGE_LOOKUP[primary] || primary;
+};
+
+const stripFences = (text: string) => text.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+
+// Best-effort fix for chatty replies: drop code fences and prose around the object and trailing commas.
+// Truncated output is deliberately not patched up, a cut-off translation should be re-requested.
+const repairJson = (text: string): string => {
+  const body = stripFences(text);
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end < start) return body;
+  return body.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Alternatives are optional extras: malformed ones and repeats of the main translation are dropped, never fatal
+const validateAlternatives = (value: unknown, primary: string): TranslationAlternative[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set([primary.trim()]);
+  return value.flatMap(item => {
+    if (!item || typeof item !== "object") return [];
+    const alt = item as Record<string, unknown>;
+    const text = typeof alt.translated_text === "string" ? alt.translated_text.trim() : "";
+    if (!text || seen.has(text)) return [];
+    seen.add(text);
+    return [{
+      translated_text: text,
+      phonetic: typeof alt.phonetic === "string" ? alt.phonetic : "",
+      note: typeof alt.note === "string" ? alt.note : "",
+    }];
+  }).slice(0, 3);
+};
+
+const BOX_SCALE = 1000;
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value / BOX_SCALE));
+
+// Regions only drive the photo overlay: entries without text or a usable [ymin, xmin, ymax, xmax] box are dropped
+const validateRegions = (value: unknown): TextRegion[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== "object") return [];
+    const region = item as Record<string, unknown>;
+    const coords = region.box_2d;
+    if (!Array.isArray(coords) || coords.length !== 4 || !coords.every(n => typeof n === "number" && Number.isFinite(n))) return [];
+    const [ymin, xmin, ymax, xmax] = (coords as number[]).map(clampUnit);
+    const translated = typeof region.translated_text === "string" ? region.translated_text.trim() : "";
+    if (!translated || xmax <= xmin || ymax <= ymin) return [];
+    return [{
+      box: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+      original_text: typeof region.original_text === "string" ? region.original_text.trim() : "",
+      translated_text: translated,
+      phonetic: typeof region.phonetic === "string" ? region.phonetic : "",
+    }];
+  });
+};
+
+export const validateTranslationResult = (text: string | undefined): TranslationResult => {
+  if (!text || !text.trim()) {
+    throw new InvalidResponseError("The translation engine returned an empty response.", text);
+  }
+
+  const parsed = tryParse(text) ?? tryParse(repairJson(text));
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidResponseError("The translation engine returned a response that is not valid JSON.", text);
+  }
+
+  const data = parsed as Record<string, unknown>;
+  if (typeof data.translated_text !== "string" || !data.translated_text.trim()) {
+    throw new InvalidResponseError("The translation engine response is missing the translated text.", text);
+  }
+  if (typeof data.original_text !== "string") {
+    throw new InvalidResponseError("The translation engine response is missing the original text.", text);
+  }
+  if (typeof data.detected_language !== "string" || !data.detected_language.trim()) {
+    throw new InvalidResponseError("The translation engine response is missing the detected language.", text);
+  }
+
+  return {
+    original_text: data.original_text,
+    detected_language: normalizeLanguageCode(data.detected_language),
+    translated_text: data.translated_text,
+    phonetic: typeof data.phonetic === "string" ? data.phonetic : "",
+    alternatives: validateAlternatives(data.alternatives, data.translated_text),
+    regions: validateRegions(data.regions),
+  };
+};
+
+// Runs a model request and validates its output, re-requesting once if the reply cannot be used
+export const requestValidatedResult = async (
+  request: () => Promise<string | undefined>
+): Promise<TranslationResult> => {
+  try {
+    return validateTranslationResult(await request());
+  } catch (err) {
+    if (!(err instanceof InvalidResponseError)) throw err;
+    console.warn("Invalid translation response, retrying once", err.rawText);
+    return validateTranslationResult(await request());
+  }
+};
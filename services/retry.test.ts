@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { withModelFallback, DEFAULT_RETRY_OPTIONS } from "./retry";
+import { requestValidatedResult } from "./responseValidation";
+import { InvalidResponseError, QuotaExceededError, ServerError } from "./errors";
+
+const FAST = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 1, maxDelayMs: 1 };
+const VALID = JSON.stringify({ original_text: "hi", detected_language: "en", translated_text: "halo", phonetic: "" });
+
+describe("retry layering", () => {
+  it("re-requests a malformed response once and does not fall back to the next model", async () => {
+    const calls: string[] = [];
+    const run = withModelFallback(
+      ["primary", "fallback"],
+      model => requestValidatedResult(async () => {
+        calls.push(model);
+        return "not json";
+      }),
+      FAST
+    );
+    await expect(run).rejects.toBeInstanceOf(InvalidResponseError);
+    expect(calls).toEqual(["primary", "primary"]);
+  });
+
+  it("moves to the fallback model when the primary is over quota", async () => {
+    const calls: string[] = [];
+    const result = await withModelFallback(
+      ["primary", "fallback"],
+      model => requestValidatedResult(async () => {
+        calls.push(model);
+        if (model === "primary") throw new QuotaExceededError();
+        return VALID;
+      }),
+      FAST
+    );
+    expect(calls).toEqual(["primary", "fallback"]);
+    expect(result.model).toBe("fallback");
+  });
+
+  it("accepts a valid second response", async () => {
+    let calls = 0;
+    const result = await withModelFallback(
+      ["primary"],
+      () => requestValidatedResult(async () => (++calls === 1 ? "{}" : VALID)),
+      FAST
+    );
+    expect(calls).toBe(2);
+    expect(result.translated_text).toBe("halo");
+  });
+
+  it("gives every attempt its own timeout", async () => {
+    let calls = 0;
+    const result = await withModelFallback(
+      ["primary"],
+      () => requestValidatedResult(() => (++calls === 1 ? new Promise<string>(() => {}) : Promise.resolve(VALID))),
+      { ...FAST, timeoutMs: 20 }
+    );
+    expect(calls).toBe(2);
+    expect(result.translated_text).toBe("halo");
+  });
+
+  it("still retries transient failures with backoff", async () => {
+    let calls = 0;
+    const run = withModelFallback(
+      ["primary"],
+      () => requestValidatedResult(async () => {
+        calls++;
+        throw new ServerError();
+      }),
+      FAST
+    );
+    await expect(run).rejects.toBeInstanceOf(ServerError);
+    expect(calls).toBe(1 + FAST.retries);
+  });
+});
@@ -0,0 +1,91 @@
+import { EngineConfig, TranslationOperation, TranslationResult } from "../types";
+import { TranslationError, toTranslationError } from "./errors";
+import { sleep, withRequestSignal } from "./abort";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  // Deadline for each attempt, so a slow one can't use up the time of the retries and models after it
+  timeoutMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Exponential backoff with "full jitter" so concurrent clients do not retry in lockstep
+export const backoffDelay = (attempt: number, options: RetryOptions): number =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+// Malformed replies are not retried here: requestValidatedResult already re-requests them once
+export const isTransientError = (error: TranslationError): boolean =>
+  error.retryable && error.code !== "invalid_response";
+
+export const withRetry = async <T>(
+  run: (signal?: AbortSignal) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  shouldRetry: (error: TranslationError) => boolean = isTransientError
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return options.timeoutMs === undefined
+        ? await run(options.signal)
+        : await withRequestSignal({ signal: options.signal, timeoutMs: options.timeoutMs }, run);
+    } catch (err) {
+      if (options.signal?.aborted) throw toTranslationError(options.signal.reason);
+      const error = toTranslationError(err);
+      if (attempt >= options.retries || !shouldRetry(error)) throw error;
+      await sleep(backoffDelay(attempt, options), options.signal);
+    }
+  }
+};
+
+// Per-operation lists win over the single TRANSLATION_ENGINE_MODEL, which wins over the engine defaults
+export const resolveModelChain = (
+  config: EngineConfig | undefined,
+  operation: TranslationOperation,
+  defaults: string[]
+): string[] => {
+  const configured = config?.models?.[operation];
+  if (configured && configured.length > 0) return configured;
+  return config?.model ? [config.model] : defaults;
+};
+
+/**
+ * Tries each model in order. Transient failures are retried with backoff on the same model,
+ * while a quota error moves straight on to the next model. The last model in the chain
+ * also retries quota errors since there is nothing left to fall back to.
+ */
+export const withModelFallback = async <T extends TranslationResult>(
+  models: string[],
+  run: (model: string, signal?: AbortSignal) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  let lastError: TranslationError | undefined;
+
+  for (let i = 0; i < models.length; i++) {
+    const model = models[i];
+    const isLast = i === models.length - 1;
+    try {
+      const result = await withRetry(
+        signal => run(model, signal),
+        options,
+        error => isTransientError(error) && (isLast || error.code !== "quota_exceeded")
+      );
+      return { ...result, model };
+    } catch (err) {
+      lastError = toTranslationError(err);
+      if (lastError.code !== "quota_exceeded" || isLast || options.signal?.aborted) throw lastError;
+      console.warn(`Model ${model} is over quota, falling back to ${models[i + 1]}`);
+    }
+  }
+
+  throw lastError ?? new TranslationError("unknown", "No translation models are configured.", {
+    retryable: false,
+    action: "check_settings",
+  });
+};
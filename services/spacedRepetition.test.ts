@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { INITIAL_EASE, MIN_EASE, newStudyCard, scheduleReview } from "./spacedRepetition";
+import { StudyGrade } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const review = (...grades: StudyGrade[]) =>
+  grades.reduce((card, grade) => scheduleReview(card, grade, NOW), newStudyCard("a", NOW));
+
+describe("scheduleReview", () => {
+  it("starts new cards due now at the initial ease", () => {
+    expect(newStudyCard("a", NOW)).toEqual({ id: "a", ease: INITIAL_EASE, interval: 0, repetitions: 0, due: NOW });
+  });
+
+  it("follows the SM-2 intervals of 1 day, 6 days, then interval times ease", () => {
+    expect(review("good").interval).toBe(1);
+    expect(review("good", "good").interval).toBe(6);
+    expect(review("good", "good", "good").interval).toBe(15);
+  });
+
+  it("schedules the next review from the time of this one", () => {
+    const card = review("good", "good");
+    expect(card.due).toBe(NOW + 6 * DAY_MS);
+    expect(card.lastReviewed).toBe(NOW);
+  });
+
+  it("adjusts the ease by grade", () => {
+    expect(review("good").ease).toBeCloseTo(2.5);
+    expect(review("easy").ease).toBeCloseTo(2.6);
+    expect(review("hard").ease).toBeCloseTo(2.36);
+    expect(review("again").ease).toBeCloseTo(1.96);
+  });
+
+  it("sends a lapsed card back to a one-day interval", () => {
+    const card = review("good", "good", "good", "again");
+    expect(card.repetitions).toBe(0);
+    expect(card.interval).toBe(1);
+    expect(card.due).toBe(NOW + DAY_MS);
+    expect(review("good", "good", "good", "again", "good", "good").interval).toBe(6);
+  });
+
+  it("never lets the ease drop below the minimum", () => {
+    expect(review("again", "again", "again", "again").ease).toBe(MIN_EASE);
+  });
+});
@@ -0,0 +1,37 @@
+import { StudyCard, StudyGrade } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+// SM-2 recall quality on its 0–5 scale; anything below 3 counts as a lapse
+export const GRADE_QUALITY: Record<StudyGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const newStudyCard = (id: string, now: number = Date.now()): StudyCard => ({
+  id,
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  due: now,
+});
+
+export const isLapse = (grade: StudyGrade) => GRADE_QUALITY[grade] < 3;
+
+export const scheduleReview = (card: StudyCard, grade: StudyGrade, now: number = Date.now()): StudyCard => {
+  const q = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (isLapse(grade)) {
+    return { ...card, ease, repetitions: 0, interval: 1, due: now + DAY_MS, lastReviewed: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  return { ...card, ease, repetitions, interval, due: now + interval * DAY_MS, lastReviewed: now };
+};
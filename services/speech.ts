@@ -0,0 +1,143 @@
+import { AudioSpeechProvider, SpeechOptions, SpeechProvider, SpeechProviderId, SpeechSettings, SupportedLanguageCode } from "../types";
+import { createBrowserSpeechProvider, hasBrowserVoice } from "./browserSpeech";
+import { createGeminiSpeechProvider } from "./geminiSpeech";
+import { getCachedSpeech, putCachedSpeech, speechVoiceKey } from "./speechCache";
+
+const SETTINGS_KEY = "gv_speech";
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { provider: "browser", voices: {}, rate: 1, pitch: 1 };
+
+const factories = new Map<SpeechProviderId, () => SpeechProvider>();
+const instances = new Map<SpeechProviderId, SpeechProvider>();
+
+export const registerSpeechProvider = (id: SpeechProviderId, factory: () => SpeechProvider) => {
+  factories.set(id, factory);
+  instances.delete(id);
+};
+
+registerSpeechProvider("browser", createBrowserSpeechProvider);
+registerSpeechProvider("gemini", createGeminiSpeechProvider);
+
+export const getSpeechProvider = (id: SpeechProviderId): SpeechProvider => {
+  const cached = instances.get(id);
+  if (cached) return cached;
+  const factory = factories.get(id);
+  if (!factory) throw new Error(`Unknown speech provider "${id}". Registered providers: ${[...factories.keys()].join(", ")}`);
+  const provider = factory();
+  instances.set(id, provider);
+  return provider;
+};
+
+export const listSpeechProviders = (): SpeechProvider[] => [...factories.keys()].map(getSpeechProvider).filter(p => p.isAvailable());
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// Voices are chosen per language, not per regional variant: "es-MX" -> "es"
+const languageOfLocale = (locale: string) => locale.split(/[-_]/)[0].toLowerCase() as SupportedLanguageCode;
+
+// With device voices selected, the model backend still steps in for languages the device has no voice for
+const audioProviderFor = (settings: SpeechSettings): AudioSpeechProvider | null => {
+  const chosen = getSpeechProvider(settings.provider);
+  if (chosen.kind === "audio") return chosen;
+  return listSpeechProviders().find((p): p is AudioSpeechProvider => p.kind === "audio") || null;
+};
+
+let player: HTMLAudioElement | null = null;
+let playerUrl: string | null = null;
+let current: AbortController | null = null;
+
+export const stopSpeaking = () => {
+  current?.abort();
+  current = null;
+  instances.forEach(p => p.kind === "live" && p.stop());
+  player?.pause();
+  if (playerUrl) URL.revokeObjectURL(playerUrl);
+  playerUrl = null;
+};
+
+export const isSpeaking = (): boolean => !!window.speechSynthesis?.speaking || (!!player && !player.paused && !player.ended);
+
+// Speed is applied here rather than at synthesis, so one cached recording serves every speaking rate
+const playAudio = (audio: Blob, { rate, volume, signal }: SpeechOptions): Promise<void> => {
+  player ||= new Audio();
+  const element = player;
+  playerUrl = URL.createObjectURL(audio);
+  element.src = playerUrl;
+  element.playbackRate = rate;
+  element.preservesPitch = true;
+  element.volume = volume;
+  return new Promise(resolve => {
+    element.onended = () => resolve();
+    element.onerror = () => resolve();
+    signal?.addEventListener("abort", () => resolve(), { once: true });
+    element.play().catch(() => resolve());
+  });
+};
+
+/**
+ * Audio for a history entry: the cached recording if there is one (offline, any voice will do), otherwise a
+ * fresh synthesis that is then cached. Null when neither is possible.
+ */
+const modelAudio = async (
+  provider: AudioSpeechProvider,
+  text: string,
+  locale: string,
+  historyId: string | null,
+  options: SpeechOptions
+): Promise<Blob | null> => {
+  const voice = speechVoiceKey(provider.id, options.voiceId, options.pitch);
+  const cached = historyId ? await getCachedSpeech(historyId, text, voice, !navigator.onLine) : null;
+  if (cached || !navigator.onLine) return cached;
+  try {
+    const audio = await provider.synthesize(text, locale, options);
+    if (historyId) putCachedSpeech(historyId, text, voice, audio);
+    return audio;
+  } catch (err) {
+    if (!options.signal?.aborted) console.warn("Speech synthesis failed, falling back to the device voice", err);
+    return null;
+  }
+};
+
+export interface SpeechRequest {
+  text: string;
+  locale: string;
+  // Entry the audio belongs to; may still be being saved when speaking starts
+  historyId?: string | Promise<string | null> | null;
+}
+
+/**
+ * Speaks `text` with the chosen provider and the voice picked for its language, stopping anything already
+ * playing. The device voice is the fallback whenever model audio can't be had.
+ */
+export const speak = async ({ text, locale, historyId }: SpeechRequest, settings: SpeechSettings, volume: number): Promise<void> => {
+  stopSpeaking();
+  const controller = new AbortController();
+  current = controller;
+  const language = languageOfLocale(locale);
+  const optionsFor = (id: SpeechProviderId): SpeechOptions => ({
+    voiceId: settings.voices[id]?.[language],
+    rate: settings.rate,
+    pitch: settings.pitch,
+    volume,
+    signal: controller.signal,
+  });
+
+  const model = audioProviderFor(settings);
+  if (model && (settings.provider === model.id || !(await hasBrowserVoice(locale)))) {
+    const audio = await modelAudio(model, text, locale, (await historyId) || null, optionsFor(model.id));
+    if (controller.signal.aborted) return;
+    if (audio) return playAudio(audio, optionsFor(model.id));
+  }
+
+  const device = getSpeechProvider("browser");
+  if (controller.signal.aborted || device.kind !== "live" || !device.isAvailable()) return;
+  return device.speak(text, locale, optionsFor(device.id));
+};
@@ -0,0 +1,68 @@
+import { STORES, openDB, promisify, transactionDone } from "./db";
+
+// Thousands of short phrases as Opus, a few hundred as WAV; least recently played entries go first
+const CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+
+interface SpeechCacheEntry {
+  historyId: string;
+  text: string;
+  // Provider, voice and pitch the audio was made with
+  voice: string;
+  audio: Blob;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export const speechVoiceKey = (provider: string, voiceId: string | undefined, pitch: number): string =>
+  `${provider}/${voiceId || "default"}/${pitch.toFixed(2)}`;
+
+/**
+ * Audio saved for a history item. A different voice is accepted when `anyVoice` is set, which is how
+ * replay works offline after the voice settings changed; the text always has to match.
+ */
+export const getCachedSpeech = async (historyId: string, text: string, voice: string, anyVoice = false): Promise<Blob | null> => {
+  try {
+    const db = await openDB();
+    const entry = await promisify<SpeechCacheEntry | undefined>(
+      db.transaction(STORES.speechAudio).objectStore(STORES.speechAudio).get(historyId)
+    );
+    if (!entry || entry.text !== text || (entry.voice !== voice && !anyVoice)) return null;
+    const tx = db.transaction(STORES.speechAudio, "readwrite");
+    tx.objectStore(STORES.speechAudio).put({ ...entry, lastAccess: Date.now() });
+    await transactionDone(tx);
+    return entry.audio;
+  } catch (err) {
+    console.warn("Speech cache lookup failed", err);
+    return null;
+  }
+};
+
+const evictToBudget = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.speechAudio, "readwrite");
+  const store = tx.objectStore(STORES.speechAudio);
+  const entries = await promisify<SpeechCacheEntry[]>(store.index("lastAccess").getAll());
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= CACHE_BUDGET_BYTES) break;
+    store.delete(entry.historyId);
+    total -= entry.size;
+  }
+  await transactionDone(tx);
+};
+
+export const putCachedSpeech = async (historyId: string, text: string, voice: string, audio: Blob) => {
+  try {
+    const now = Date.now();
+    const entry: SpeechCacheEntry = { historyId, text, voice, audio, size: audio.size, createdAt: now, lastAccess: now };
+    const db = await openDB();
+    const tx = db.transaction(STORES.speechAudio, "readwrite");
+    tx.objectStore(STORES.speechAudio).put(entry);
+    await transactionDone(tx);
+    await evictToBudget();
+  } catch (err) {
+    console.warn("Failed to cache speech", err);
+  }
+};
@@ -0,0 +1,45 @@
+import { HistoryItem, StudyCard, StudyGrade, StudyQueueEntry } from "../types";
+import { STORES, getAll, getOne, putOne, deleteOne } from "./db";
+import { queryHistory } from "./historyStore";
+import { newStudyCard, scheduleReview } from "./spacedRepetition";
+
+// Starred items always join the deck; the most recent ones do too so new users have something to study
+export const RECENT_CARD_COUNT = 20;
+export const NEW_CARDS_PER_SESSION = 20;
+
+const ensureCards = async (now: number) => {
+  const [starred, recent] = await Promise.all([
+    queryHistory({ starredOnly: true }, 0, Infinity),
+    queryHistory({}, 0, RECENT_CARD_COUNT),
+  ]);
+  const existing = new Set((await getAll<StudyCard>(STORES.studyCards)).map(c => c.id));
+  const candidates = [...starred.items, ...recent.items].filter(item => !existing.has(item.id));
+  const ids = new Set(candidates.map(item => item.id));
+  await Promise.all([...ids].map(id => putOne(STORES.studyCards, newStudyCard(id, now))));
+};
+
+// Due reviews come first (most overdue first), then a capped batch of never-seen cards
+export const loadStudyQueue = async (now: number = Date.now()): Promise<StudyQueueEntry[]> => {
+  await ensureCards(now);
+  const due = (await getAll<StudyCard>(STORES.studyCards)).filter(c => c.due <= now);
+  const reviews = due.filter(c => c.repetitions > 0 || c.lastReviewed).sort((a, b) => a.due - b.due);
+  const fresh = due.filter(c => !c.repetitions && !c.lastReviewed).slice(0, NEW_CARDS_PER_SESSION);
+
+  const entries: StudyQueueEntry[] = [];
+  for (const card of [...reviews, ...fresh]) {
+    const item = await getOne<HistoryItem>(STORES.history, card.id);
+    if (item) {
+      entries.push({ card, item });
+    } else {
+      // The history entry was deleted; its card goes with it
+      await deleteOne(STORES.studyCards, card.id);
+    }
+  }
+  return entries;
+};
+
+export const recordReview = async (card: StudyCard, grade: StudyGrade, now: number = Date.now()) => {
+  const next = scheduleReview(card, grade, now);
+  await putOne(STORES.studyCards, next);
+  return next;
+};
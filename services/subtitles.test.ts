@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { applyCueTranslations, detectSubtitleFormat, parseSubtitles, serializeSubtitles, splitCueMarkup } from "./subtitles";
+
+const SRT = "1\n00:00:01,000 --> 00:00:02,500\nHello there\n\n2\n00:00:03,000 --> 00:00:04,000\n<i>Two\nlines</i>\n";
+
+const VTT = [
+  "WEBVTT - Episode 1",
+  "NOTE made by hand",
+  "intro\n00:00.000 --> 00:01.000 line:0\n{\\an8}<v Ann>Hi!</v>",
+  "00:02.000 --> 00:03.000\nBye",
+].join("\n\n") + "\n";
+
+describe("parseSubtitles", () => {
+  it("reads SRT indexes, timings and multi-line text", () => {
+    expect(parseSubtitles(SRT)).toEqual({
+      format: "srt",
+      header: "",
+      cues: [
+        { id: "1", timing: "00:00:01,000 --> 00:00:02,500", text: "Hello there", before: undefined },
+        { id: "2", timing: "00:00:03,000 --> 00:00:04,000", text: "<i>Two\nlines</i>", before: undefined },
+      ],
+    });
+  });
+
+  it("keeps the WebVTT header, comments, identifiers and cue settings", () => {
+    const track = parseSubtitles(VTT);
+    expect(track.header).toBe("WEBVTT - Episode 1");
+    expect(track.cues[0]).toEqual({
+      id: "intro",
+      timing: "00:00.000 --> 00:01.000 line:0",
+      text: "{\\an8}<v Ann>Hi!</v>",
+      before: ["NOTE made by hand"],
+    });
+    expect(track.cues[1].id).toBeUndefined();
+  });
+
+  it("copes with a byte order mark, CRLF line ends and extra blank lines", () => {
+    const messy = "\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHi\r\n\r\n\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n";
+    expect(detectSubtitleFormat(messy)).toBe("srt");
+    expect(parseSubtitles(messy).cues.map(c => c.text)).toEqual(["Hi", "Bye"]);
+  });
+
+  it("drops stray SRT blocks that have no timing", () => {
+    expect(parseSubtitles("just a title\n\n" + SRT).cues).toHaveLength(2);
+  });
+});
+
+describe("serializeSubtitles", () => {
+  it("writes back what it parsed", () => {
+    expect(serializeSubtitles(parseSubtitles(SRT))).toBe(SRT);
+    expect(serializeSubtitles(parseSubtitles(VTT))).toBe(VTT);
+  });
+});
+
+describe("cue markup", () => {
+  it("splits cue-wide styling from the words", () => {
+    expect(splitCueMarkup("{\\an8}<v Ann>Hi!</v>")).toEqual({ prefix: "{\\an8}<v Ann>", body: "Hi!", suffix: "</v>" });
+    expect(splitCueMarkup("Plain <b>bold</b> word")).toEqual({ prefix: "", body: "Plain <b>bold</b> word", suffix: "" });
+  });
+});
+
+describe("applyCueTranslations", () => {
+  const track = parseSubtitles(VTT);
+
+  it("puts translations inside the original styling", () => {
+    const translated = applyCueTranslations(track, ["Halo!", "Dah"]);
+    expect(translated.cues.map(c => c.text)).toEqual(["{\\an8}<v Ann>Halo!</v>", "Dah"]);
+    expect(translated.cues[0].timing).toBe(track.cues[0].timing);
+  });
+
+  it("stacks the original above the translation for bilingual output", () => {
+    expect(applyCueTranslations(track, ["", "Dah"], true).cues.map(c => c.text)).toEqual([
+      "{\\an8}<v Ann>Hi!</v>",
+      "Bye\nDah",
+    ]);
+  });
+
+  it("doesn't repeat a cue the engine left unchanged", () => {
+    expect(applyCueTranslations(track, ["Hi!", "Bye"], true).cues).toEqual(track.cues);
+  });
+});
@@ -0,0 +1,86 @@
+import { SubtitleCue, SubtitleFormat, SubtitleTrack } from "../types";
+
+const TIMING = /-->/;
+
+// Cue-wide styling: leading ASS overrides ({\an8}) and opening tags (<i>, <v Speaker>, <c.yellow>),
+// and the closing tags at the very end
+const LEADING_MARKUP = /^(?:\s*(?:\{\\[^}]*\}|<(?!\/)[^>]+>))+/;
+const TRAILING_MARKUP = /(?:<\/[^>]+>\s*)+$/;
+
+export interface CueMarkup {
+  prefix: string;
+  body: string;
+  suffix: string;
+}
+
+// Splits off the markup that wraps a whole cue so only the words go to the engine and the styling
+// survives even if the reply drops it
+export const splitCueMarkup = (text: string): CueMarkup => {
+  const prefix = text.match(LEADING_MARKUP)?.[0] || "";
+  const rest = text.slice(prefix.length);
+  const suffix = rest.match(TRAILING_MARKUP)?.[0] || "";
+  return { prefix, body: rest.slice(0, rest.length - suffix.length), suffix };
+};
+
+export const detectSubtitleFormat = (text: string): SubtitleFormat =>
+  text.replace(/^\uFEFF/, "").startsWith("WEBVTT") ? "vtt" : "srt";
+
+/**
+ * Parses SRT or WebVTT into cues. Blocks are separated by blank lines; any block with a `-->` line is a cue,
+ * whatever comes before that line is its index/identifier and whatever follows is its text.
+ */
+export const parseSubtitles = (input: string, format: SubtitleFormat = detectSubtitleFormat(input)): SubtitleTrack => {
+  const blocks = input
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map(block => block.replace(/^\n+|\n+$/g, ""))
+    .filter(Boolean);
+
+  let header = format === "vtt" ? "WEBVTT" : "";
+  let pending: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach((block, i) => {
+    if (format === "vtt" && i === 0 && block.startsWith("WEBVTT")) {
+      header = block;
+      return;
+    }
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1) {
+      // SRT has no comment syntax, so stray blocks there are dropped rather than written back
+      if (format === "vtt") pending.push(block);
+      return;
+    }
+    cues.push({
+      id: timingIndex > 0 ? lines.slice(0, timingIndex).join("\n") : undefined,
+      timing: lines[timingIndex].trim(),
+      text: lines.slice(timingIndex + 1).join("\n"),
+      before: pending.length > 0 ? pending : undefined,
+    });
+    pending = [];
+  });
+
+  return { format, header, cues };
+};
+
+export const serializeSubtitles = (track: SubtitleTrack): string => {
+  const blocks = track.cues.flatMap(cue => [
+    ...(cue.before || []),
+    [cue.id, cue.timing, cue.text].filter(part => part !== undefined && part !== "").join("\n"),
+  ]);
+  return [...(track.format === "vtt" ? [track.header] : []), ...blocks].join("\n\n") + "\n";
+};
+
+// Writes translations back into their cues; bilingual output stacks the original above the translation
+export const applyCueTranslations = (track: SubtitleTrack, translations: string[], bilingual = false): SubtitleTrack => ({
+  ...track,
+  cues: track.cues.map((cue, i) => {
+    const translation = translations[i];
+    if (!translation?.trim() || translation === splitCueMarkup(cue.text).body) return cue;
+    const { prefix, suffix } = splitCueMarkup(cue.text);
+    const translated = `${prefix}${translation}${suffix}`;
+    return { ...cue, text: bilingual ? `${cue.text}\n${translated}` : translated };
+  }),
+});
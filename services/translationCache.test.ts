@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GlossaryEntry, LanguagePair, TranslationEngine, TranslationResult } from "../types";
+import { resolveLanguage } from "../constants";
+import { cacheModelId, findCachedTranslation, getCachedTranslation, normalizeCacheInput, putCachedTranslation } from "./translationCache";
+
+// An in-memory stand-in for the one object store this module touches
+const { rows } = vi.hoisted(() => ({ rows: new Map<string, Record<string, unknown>>() }));
+
+vi.mock("./db", () => {
+  const store = {
+    put: (row: Record<string, unknown>) => rows.set(row.key as string, row),
+    get: (key: string) => rows.get(key),
+    delete: (key: string) => rows.delete(key),
+    clear: () => rows.clear(),
+    index: (name: string) => ({
+      getAll: (query?: string[]) =>
+        name === "lookup"
+          ? [...rows.values()].filter(r => r.input === query?.[0] && r.mother === query?.[1] && r.target === query?.[2])
+          : [...rows.values()].sort((a, b) => (a.lastAccess as number) - (b.lastAccess as number)),
+    }),
+  };
+  return {
+    STORES: { translationCache: "translationCache" },
+    openDB: async () => ({ transaction: () => ({ objectStore: () => store }) }),
+    promisify: async <T>(value: T) => value,
+    transactionDone: async () => {},
+  };
+});
+
+const engine: TranslationEngine = {
+  id: "gemini",
+  primaryModel: () => "primary-model",
+  translateAudio: vi.fn(),
+  translateText: vi.fn(),
+  translateImage: vi.fn(),
+};
+
+const GLOSSARY: GlossaryEntry[] = [
+  { id: "g1", mother: "en", target: "zh", source: "IVoice", translation: "IVoice", doNotTranslate: true },
+];
+
+const pair = (targetVariant?: string): LanguagePair => ({
+  mother: resolveLanguage("en"),
+  target: resolveLanguage("zh", targetVariant),
+});
+
+const RESULT: TranslationResult = {
+  original_text: "Thank you",
+  detected_language: "en",
+  translated_text: "谢谢",
+  phonetic: "xièxie",
+};
+
+describe("cacheModelId", () => {
+  it("keys by engine and primary model by default", () => {
+    expect(cacheModelId(engine)).toBe("gemini/primary-model");
+  });
+
+  it("uses the model that answered when given one", () => {
+    expect(cacheModelId(engine, {}, "fallback-model")).toBe("gemini/fallback-model");
+  });
+
+  it("keeps registers and glossaries apart, but not the neutral register", () => {
+    expect(cacheModelId(engine, { formality: "neutral" })).toBe("gemini/primary-model");
+    expect(cacheModelId(engine, { formality: "formal" })).toBe("gemini/primary-model+formal");
+    expect(cacheModelId(engine, { glossary: GLOSSARY })).toMatch(/^gemini\/primary-model\+glossary:[0-9a-z]+$/);
+  });
+});
+
+describe("normalizeCacheInput", () => {
+  it("ignores case, spacing and compatibility forms", () => {
+    expect(normalizeCacheInput("  Thank\n you ")).toBe(normalizeCacheInput("thank you"));
+    expect(normalizeCacheInput("ＡＢＣ")).toBe("abc");
+  });
+});
+
+describe("translation cache", () => {
+  beforeEach(() => rows.clear());
+
+  it("finds an entry only under the same input, pair and model", async () => {
+    await putCachedTranslation("Thank you", pair(), "gemini/primary-model", RESULT);
+    expect(await getCachedTranslation("thank  you", pair(), "gemini/primary-model")).toMatchObject({
+      original_text: "thank  you",
+      translated_text: "谢谢",
+    });
+    expect(await getCachedTranslation("Thank you", pair(), "gemini/other-model")).toBeNull();
+  });
+
+  it("keeps script variants apart online", async () => {
+    await putCachedTranslation("Thank you", pair("zh-Hans-CN"), "gemini/primary-model", RESULT);
+    expect(await getCachedTranslation("Thank you", pair("zh-Hant-TW"), "gemini/primary-model")).toBeNull();
+  });
+
+  it("keeps script variants apart in the offline lookup", async () => {
+    await putCachedTranslation("Thank you", pair("zh-Hans-CN"), "gemini/primary-model", RESULT);
+    expect(await findCachedTranslation("Thank you", pair("zh-Hant-TW"))).toBeNull();
+    expect(await findCachedTranslation("Thank you", pair("zh-Hans-CN"))).toMatchObject({ translated_text: "谢谢" });
+  });
+});
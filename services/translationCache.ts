@@ -0,0 +1,155 @@
+import { LanguagePair, SupportedLanguageCode, TranslationEngine, TranslationRequestOptions, TranslationResult } from "../types";
+import { STORES, openDB, promisify, transactionDone } from "./db";
+import { glossaryFingerprint } from "./glossary";
+
+// Roughly a few thousand short phrases; least recently used entries go first
+const CACHE_BUDGET_BYTES = 2 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  input: string;
+  mother: SupportedLanguageCode;
+  target: SupportedLanguageCode;
+  // Entries written before variants were recorded have neither, and only match a pair without variants
+  motherVariant?: string;
+  targetVariant?: string;
+  model: string;
+  result: TranslationResult;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+/**
+ * Results made under a different glossary or register are kept apart from each other. Writes pass the
+ * model that actually answered (`result.model`), so a fallback answer is never served as the primary's.
+ */
+export const cacheModelId = (
+  engine: TranslationEngine,
+  options: TranslationRequestOptions = {},
+  model: string = engine.primaryModel("text")
+): string => {
+  const fingerprint = glossaryFingerprint(options.glossary);
+  const formality = options.formality && options.formality !== "neutral" ? `+${options.formality}` : "";
+  return `${engine.id}/${model}${formality}${fingerprint ? `+glossary:${fingerprint}` : ""}`;
+};
+
+export const normalizeCacheInput = (text: string): string =>
+  text.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+
+const cacheKey = async (input: string, pair: LanguagePair, model: string): Promise<string> => {
+  const payload = JSON.stringify([
+    input,
+    pair.mother.variant?.id || pair.mother.code,
+    pair.target.variant?.id || pair.target.code,
+    model,
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+const touch = async (entry: CacheEntry) => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.translationCache, "readwrite");
+  tx.objectStore(STORES.translationCache).put({ ...entry, lastAccess: Date.now() });
+  await transactionDone(tx);
+};
+
+export const getCachedTranslation = async (
+  text: string,
+  pair: LanguagePair,
+  model: string
+): Promise<TranslationResult | null> => {
+  try {
+    const db = await openDB();
+    const key = await cacheKey(normalizeCacheInput(text), pair, model);
+    const entry = await promisify<CacheEntry | undefined>(
+      db.transaction(STORES.translationCache).objectStore(STORES.translationCache).get(key)
+    );
+    if (!entry) return null;
+    await touch(entry);
+    return { ...entry.result, original_text: text };
+  } catch (err) {
+    console.warn("Translation cache lookup failed", err);
+    return null;
+  }
+};
+
+// Model-agnostic lookup used by the offline path: any earlier translation of this input will do
+export const findCachedTranslation = async (text: string, pair: LanguagePair): Promise<TranslationResult | null> => {
+  try {
+    const db = await openDB();
+    const entries = await promisify<CacheEntry[]>(
+      db
+        .transaction(STORES.translationCache)
+        .objectStore(STORES.translationCache)
+        .index("lookup")
+        .getAll([normalizeCacheInput(text), pair.mother.code, pair.target.code])
+    );
+    // The index only covers base codes; zh-Hans and zh-Hant, or pt-PT and pt-BR, must not stand in for each other
+    const matching = entries.filter(
+      e => e.motherVariant === pair.mother.variant?.id && e.targetVariant === pair.target.variant?.id
+    );
+    if (matching.length === 0) return null;
+    const latest = matching.reduce((a, b) => (b.lastAccess > a.lastAccess ? b : a));
+    await touch(latest);
+    return { ...latest.result, original_text: text };
+  } catch (err) {
+    console.warn("Translation cache lookup failed", err);
+    return null;
+  }
+};
+
+const evictToBudget = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.translationCache, "readwrite");
+  const store = tx.objectStore(STORES.translationCache);
+  const entries = await promisify<CacheEntry[]>(store.index("lastAccess").getAll());
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= CACHE_BUDGET_BYTES) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+  await transactionDone(tx);
+};
+
+export const putCachedTranslation = async (
+  text: string,
+  pair: LanguagePair,
+  model: string,
+  result: TranslationResult
+) => {
+  try {
+    const input = normalizeCacheInput(text);
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key: await cacheKey(input, pair, model),
+      input,
+      mother: pair.mother.code,
+      target: pair.target.code,
+      motherVariant: pair.mother.variant?.id,
+      targetVariant: pair.target.variant?.id,
+      model,
+      result,
+      size: JSON.stringify(result).length + input.length,
+      createdAt: now,
+      lastAccess: now,
+    };
+    const db = await openDB();
+    const tx = db.transaction(STORES.translationCache, "readwrite");
+    tx.objectStore(STORES.translationCache).put(entry);
+    await transactionDone(tx);
+    await evictToBudget();
+  } catch (err) {
+    console.warn("Failed to cache translation", err);
+  }
+};
+
+export const clearTranslationCache = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORES.translationCache, "readwrite");
+  tx.objectStore(STORES.translationCache).clear();
+  await transactionDone(tx);
+};
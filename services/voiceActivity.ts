@@ -0,0 +1,80 @@
+// RMS level (after the sensitivity gain) that counts as speech; speech ends below 60% of it
+export const VAD_THRESHOLD = 0.02;
+// The recorder hears the microphone this much later than the detector, so a clip started once speech
+// is confirmed still begins with the first syllable. Must stay above `minSpeechMs`.
+export const VAD_PRE_ROLL_SECONDS = 0.5;
+export const DEFAULT_VAD_SILENCE_MS = 1200;
+// Silence shorter than the pre-roll would stop the recorder before the end of the speech reaches it
+export const MIN_VAD_SILENCE_MS = 600;
+export const MAX_VAD_SILENCE_MS = 3000;
+
+const TICK_MS = 60;
+const RELEASE_RATIO = 0.6;
+
+export interface VoiceActivityOptions {
+  silenceMs: number;
+  threshold?: number;
+  // Noise bursts shorter than this (a cough, a door) don't start a recording
+  minSpeechMs?: number;
+  // While this returns true, for example while a translation is being spoken, new speech is ignored
+  isPaused?: () => boolean;
+  onLevel?: (level: number) => void;
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+}
+
+export interface VoiceActivityDetector {
+  stop(): void;
+}
+
+// Maps an RMS level onto 0-1 over a -60..0 dBFS scale, which is how loud speech reads on a meter
+export const levelToMeter = (level: number): number =>
+  level <= 0 ? 0 : Math.min(1, Math.max(0, (20 * Math.log10(level) + 60) / 60));
+
+export const createVoiceActivityDetector = (analyser: AnalyserNode, options: VoiceActivityOptions): VoiceActivityDetector => {
+  const { silenceMs, threshold = VAD_THRESHOLD, minSpeechMs = 200, isPaused, onLevel, onSpeechStart, onSpeechEnd } = options;
+  analyser.fftSize = 2048;
+  const samples = new Float32Array(analyser.fftSize);
+  let speaking = false;
+  let aboveSince: number | null = null;
+  let belowSince: number | null = null;
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const level = Math.sqrt(sum / samples.length);
+    onLevel?.(level);
+
+    const now = performance.now();
+    if (!speaking) {
+      if (level < threshold || isPaused?.()) {
+        aboveSince = null;
+        return;
+      }
+      aboveSince ??= now;
+      if (now - aboveSince >= minSpeechMs) {
+        speaking = true;
+        belowSince = null;
+        onSpeechStart();
+      }
+      return;
+    }
+
+    if (level >= threshold * RELEASE_RATIO) {
+      belowSince = null;
+      return;
+    }
+    belowSince ??= now;
+    if (now - belowSince >= silenceMs) {
+      speaking = false;
+      aboveSince = null;
+      onSpeechEnd();
+    }
+  };
+
+  const timer = setInterval(tick, TICK_MS);
+  return {
+    stop: () => clearInterval(timer),
+  };
+};
@@ -1,12 +1,58 @@
+import type { LANGUAGE_REGISTRY } from './languages';
 
 export interface TranslationResult {
   original_text: string;
   detected_language: string;
   translated_text: string;
   phonetic?: string;
+  model?: string;
+  glossary_issues?: GlossaryIssue[];
+  alternatives?: TranslationAlternative[];
+  regions?: TextRegion[];
 }
 
-export type SupportedLanguageCode = 'en' | 'id' | 'zh' | 'es' | 'ko' | 'ja' | 'nl' | 'ar';
+// Position as fractions (0-1) of the image's width and height, so it scales with however the photo is displayed
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One block of text found in a photo, e.g. a menu line or a sign
+export interface TextRegion {
+  box: BoundingBox;
+  original_text: string;
+  translated_text: string;
+  phonetic?: string;
+}
+
+export interface TranslationAlternative {
+  translated_text: string;
+  phonetic?: string;
+  note: string;
+}
+
+export type Formality = 'formal' | 'neutral' | 'casual';
+
+// `source` is written in the pair's mother language and `translation` in its target language;
+// entries apply in both directions of the conversation
+export interface GlossaryEntry {
+  id: string;
+  mother: SupportedLanguageCode;
+  target: SupportedLanguageCode;
+  source: string;
+  translation: string;
+  doNotTranslate: boolean;
+}
+
+export interface GlossaryIssue {
+  entryId: string;
+  term: string;
+  expected: string;
+}
+
+export type SupportedLanguageCode = (typeof LANGUAGE_REGISTRY)[number]['code'];
 
 export interface LanguageOption {
   code: SupportedLanguageCode;
@@ -14,21 +60,94 @@ export interface LanguageOption {
   nativeName: string;
   ttsLocale: string;
   flag: string;
+  // Alternative names and ISO 639-2 codes a model may answer with
+  aliases: readonly string[];
+  // Non-Latin scripts get a pronunciation guide alongside the translation
+  phonetic?: boolean;
+  rtl?: boolean;
+  variants?: readonly LanguageVariant[];
+  // Set on options resolved for the user's chosen variant; `ttsLocale` then follows the variant
+  variant?: LanguageVariant;
+}
+
+// Regional form or script of a language, e.g. Mexican Spanish or Traditional Chinese
+export interface LanguageVariant {
+  id: string;
+  name: string;
+  ttsLocale: string;
+  promptHint: string;
 }
 
 export interface User {
+  id: string;
   email: string;
   name: string;
-  isPremium?: boolean;
   downloadedLanguages?: SupportedLanguageCode[];
 }
 
+// Metered separately by the entitlement service; documents and audio files count once per job
+export type UsageMode = 'voice' | 'text' | 'image' | 'document' | 'audio';
+
+// Payload of a signed entitlement; all times are epoch ms
+export interface Entitlement {
+  sub: string;
+  tier: 'free' | 'premium';
+  premiumUntil: number | null;
+  offlinePacks: boolean;
+  // Per-day limits; a mode without one is unmetered
+  dailyLimits: Partial<Record<UsageMode, number>>;
+  iat: number;
+  // End of the offline grace period: the cached copy is trusted until then
+  exp: number;
+}
+
+export interface UsageSnapshot {
+  // UTC date the counts belong to, as YYYY-MM-DD
+  day: string;
+  used: Partial<Record<UsageMode, number>>;
+  limits: Partial<Record<UsageMode, number>>;
+}
+
+export type HistoryMode = 'voice' | 'text' | 'image';
+
 export interface HistoryItem extends TranslationResult {
   id: string;
   timestamp: number;
   targetLangName: string;
   targetLangLocale: string;
   targetLangFlag: string;
+  targetLangVariant?: string;
+  mode?: HistoryMode;
+  languagePair?: { mother: SupportedLanguageCode; target: SupportedLanguageCode };
+  starred?: boolean;
+  tags?: string[];
+}
+
+export interface HistoryQuery {
+  search?: string;
+  languagePair?: { mother: SupportedLanguageCode; target: SupportedLanguageCode };
+  mode?: HistoryMode;
+  from?: number;
+  to?: number;
+  starredOnly?: boolean;
+  tag?: string;
+}
+
+export type StudyGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling state for one history item, keyed by the item's id
+export interface StudyCard {
+  id: string;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  due: number;
+  lastReviewed?: number;
+}
+
+export interface StudyQueueEntry {
+  card: StudyCard;
+  item: HistoryItem;
 }
 
 export interface OfflinePack {
@@ -36,4 +155,202 @@ export interface OfflinePack {
   name: string;
   size: string;
   isDownloaded: boolean;
+  installedVersion?: string;
+  latestVersion?: string;
+  updateAvailable?: boolean;
+  phraseCount?: number;
+}
+
+export interface PackPhrase {
+  id: string;
+  category: string;
+  text: string;
+  phonetic?: string;
+  translations: Partial<Record<SupportedLanguageCode, string>>;
 }
+
+export interface PackCatalogEntry {
+  code: SupportedLanguageCode;
+  name: string;
+  version: string;
+  categories: string[];
+  size: number;
+  checksum: string;
+  url: string;
+}
+
+export interface LanguagePackManifest extends Omit<PackCatalogEntry, 'url'> {
+  formatVersion: number;
+  phrases: PackPhrase[];
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'txt' | 'md' | 'srt' | 'vtt';
+
+export type DocumentBlockType = 'heading' | 'paragraph' | 'list-item' | 'code' | 'cue';
+
+// One structural unit of a document. `level` is the heading level (1-6) or list nesting depth (0-based);
+// `continues` marks a piece of an over-long paragraph that is joined back onto the previous block
+export interface DocumentBlock {
+  type: DocumentBlockType;
+  text: string;
+  level?: number;
+  ordered?: boolean;
+  continues?: boolean;
+}
+
+export interface ParsedDocument {
+  name: string;
+  format: DocumentFormat;
+  blocks: DocumentBlock[];
+  // Subtitle files keep their cues here; `blocks` then holds one 'cue' block per cue, in the same order
+  subtitles?: SubtitleTrack;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// `id` is the SRT index or WebVTT identifier and `timing` the full timing line (including VTT cue settings),
+// both kept verbatim; `before` holds WebVTT NOTE/STYLE/REGION blocks that preceded the cue
+export interface SubtitleCue {
+  id?: string;
+  timing: string;
+  text: string;
+  before?: string[];
+}
+
+export interface SubtitleTrack {
+  format: SubtitleFormat;
+  header: string;
+  cues: SubtitleCue[];
+}
+
+export type DocumentChunkStatus = 'pending' | 'done' | 'failed';
+
+export interface DocumentChunk {
+  index: number;
+  blockIndexes: number[];
+  status: DocumentChunkStatus;
+  translations?: string[];
+  detectedLanguage?: string;
+  error?: string;
+}
+
+export interface DocumentJob {
+  document: ParsedDocument;
+  chunks: DocumentChunk[];
+}
+
+export interface DocumentProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+// A stretch of an uploaded recording, in seconds from the start; `silent` stretches are never sent
+export interface TranscriptSegment {
+  index: number;
+  start: number;
+  end: number;
+  silent: boolean;
+  status: DocumentChunkStatus;
+  result?: TranslationResult;
+  error?: string;
+}
+
+export interface AudioTranscriptJob {
+  name: string;
+  duration: number;
+  sampleRate: number;
+  segments: TranscriptSegment[];
+}
+
+export type TranscriptExportFormat = 'txt' | 'srt' | 'vtt';
+
+export interface LanguagePair {
+  mother: LanguageOption;
+  target: LanguageOption;
+}
+
+export type TranslationOperation = 'audio' | 'text' | 'image';
+
+export interface EngineConfig {
+  engine: string;
+  baseUrl?: string;
+  model?: string;
+  models?: Partial<Record<TranslationOperation, string[]>>;
+  apiKey?: string;
+}
+
+export interface TranslationRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  glossary?: GlossaryEntry[];
+  formality?: Formality;
+  // Input is a list of [[n]]-marked segments whose markers must come back unchanged
+  segmented?: boolean;
+}
+
+export interface TranslationEngine {
+  id: string;
+  primaryModel(operation: TranslationOperation): string;
+  translateAudio(base64Audio: string, mimeType: string, pair: LanguagePair, options?: TranslationRequestOptions): Promise<TranslationResult>;
+  translateText(inputText: string, pair: LanguagePair, options?: TranslationRequestOptions): Promise<TranslationResult>;
+  translateImage(base64Image: string, mimeType: string, pair: LanguagePair, options?: TranslationRequestOptions): Promise<TranslationResult>;
+}
+
+export interface LocalTranscript {
+  text: string;
+  language?: string;
+  confidence?: number;
+}
+
+export interface SpeechRecognizer {
+  id: string;
+  transcribe(audio: Blob, pair: LanguagePair): Promise<LocalTranscript>;
+}
+
+export type SpeechProviderId = 'browser' | 'gemini';
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  // BCP 47 locale the voice is made for; model voices speak every language and leave it out
+  locale?: string;
+}
+
+export interface SpeechOptions {
+  voiceId?: string;
+  // 1 is the provider's normal speed and pitch
+  rate: number;
+  pitch: number;
+  volume: number;
+  signal?: AbortSignal;
+}
+
+// Provider, voice per language and shared rate/pitch, remembered across sessions
+export interface SpeechSettings {
+  provider: SpeechProviderId;
+  voices: Partial<Record<SpeechProviderId, Partial<Record<SupportedLanguageCode, string>>>>;
+  rate: number;
+  pitch: number;
+}
+
+interface SpeechProviderBase {
+  id: SpeechProviderId;
+  isAvailable(): boolean;
+  listVoices(locale: string): Promise<SpeechVoice[]>;
+}
+
+// Speaks through the platform; there is no audio to keep
+export interface LiveSpeechProvider extends SpeechProviderBase {
+  kind: 'live';
+  speak(text: string, locale: string, options: SpeechOptions): Promise<void>;
+  stop(): void;
+}
+
+// Returns synthesized audio, which the app plays and caches for offline replay
+export interface AudioSpeechProvider extends SpeechProviderBase {
+  kind: 'audio';
+  synthesize(text: string, locale: string, options: SpeechOptions): Promise<Blob>;
+}
+
+export type SpeechProvider = LiveSpeechProvider | AudioSpeechProvider;
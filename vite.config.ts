@@ -12,7 +12,20 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TRANSLATION_ENGINE': JSON.stringify(env.TRANSLATION_ENGINE),
+        'process.env.TRANSLATION_ENGINE_URL': JSON.stringify(env.TRANSLATION_ENGINE_URL),
+        'process.env.TRANSLATION_ENGINE_MODEL': JSON.stringify(env.TRANSLATION_ENGINE_MODEL),
+        'process.env.TRANSLATION_ENGINE_API_KEY': JSON.stringify(env.TRANSLATION_ENGINE_API_KEY),
+        'process.env.TRANSLATION_MODELS_AUDIO': JSON.stringify(env.TRANSLATION_MODELS_AUDIO),
+        'process.env.TRANSLATION_MODELS_TEXT': JSON.stringify(env.TRANSLATION_MODELS_TEXT),
+        'process.env.TRANSLATION_MODELS_IMAGE': JSON.stringify(env.TRANSLATION_MODELS_IMAGE),
+        'process.env.OFFLINE_PACKS_URL': JSON.stringify(env.OFFLINE_PACKS_URL),
+        'process.env.LOCAL_STT_ENGINE': JSON.stringify(env.LOCAL_STT_ENGINE),
+        'process.env.LOCAL_STT_MODEL_URL': JSON.stringify(env.LOCAL_STT_MODEL_URL),
+        'process.env.TTS_MODEL': JSON.stringify(env.TTS_MODEL),
+        'process.env.AUTH_API_URL': JSON.stringify(env.AUTH_API_URL),
+        'process.env.ENTITLEMENT_PUBLIC_KEY': JSON.stringify(env.ENTITLEMENT_PUBLIC_KEY)
       },
       resolve: {
         alias: {